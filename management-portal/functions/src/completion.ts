@@ -0,0 +1,433 @@
+import { differenceInHours, format, isBefore } from 'date-fns';
+import { FieldValue, Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { calculatePoints, getActivePointsPolicy, splitPoints } from './points';
+import { getNextOccurrence, ruleFromPattern, type RecurrenceRule } from './recurrence';
+import { sendNotifications, type Notify } from './notifications';
+
+export interface CompleteTaskInput {
+  taskId: string;
+  actorId: string;
+  actorName: string;
+  // Completion count the client saw. A mismatch means someone else already
+  // completed this occurrence, so the call is rejected instead of double-scoring.
+  expectedCompletionCount?: number;
+  // Ask for sign-off even on a task that does not require review.
+  submitForReview?: boolean;
+}
+
+export interface CompleteTaskResult {
+  points: number;
+  isEarly: boolean;
+  policyVersion: number;
+  nextDueDate: string | null;
+  seriesCompleted: boolean;
+  completionCount: number;
+  // Shared tasks only complete once every assignee is done; until then this is > 0.
+  remainingAssignees: number;
+  // True when the task went to in-review instead of completing.
+  inReview: boolean;
+}
+
+const getCompletionRatio = (task: DocumentData) => {
+  const items = [...(task.subtasks || []), ...(task.checklist || [])];
+  if (items.length === 0) return 1;
+  return items.filter((item: DocumentData) => item.done).length / items.length;
+};
+
+const resetSubtasks = (subtasks: DocumentData[], shiftMs: number) =>
+  subtasks.map(s => ({
+    ...s,
+    done: false,
+    completedAt: null,
+    completedBy: null,
+    dueDate: s.dueDate ? Timestamp.fromMillis(s.dueDate.toMillis() + shiftMs) : null,
+  }));
+
+const isBlockerResolved = (task: DocumentData) =>
+  task.status === 'completed' || (task.completionCount || 0) > 0 || !!task.deletedAt;
+
+const getAssigneeIds = (task: DocumentData): string[] =>
+  Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+
+// Everything that affects scores happens in one transaction: the completion
+// records, the task update or recurring rollover, and the assignees' stats.
+// Notifications are sent afterwards since losing one is harmless.
+//
+// On shared tasks each assignee marks their own part; the task is only scored
+// when the last part is done. Admins and creators who are not assignees close
+// every remaining part at once.
+//
+// Tasks that need review stop at in-review instead. The creator or reviewer
+// approves by calling this again, and the task is scored as of the
+// submission so a slow review does not cost the assignee points.
+export const completeTask = async (
+  db: Firestore,
+  input: CompleteTaskInput,
+  now: Date = new Date()
+): Promise<CompleteTaskResult> => {
+  const notifications: Notify[] = [];
+  let unblockCheck = null as { id: string; title: string; blocks: string[] } | null;
+
+  const result = await db.runTransaction(async (transaction) => {
+    // Transactions can be retried, so side effects collected here start fresh each attempt.
+    notifications.length = 0;
+    unblockCheck = null;
+
+    const taskRef = db.collection('tasks').doc(input.taskId);
+    const taskDoc = await transaction.get(taskRef);
+    if (!taskDoc.exists) throw new HttpsError('not-found', 'Task not found');
+
+    const task = taskDoc.data() as DocumentData;
+    const completionCount: number = task.completionCount || 0;
+
+    if (task.status === 'completed') {
+      throw new HttpsError('failed-precondition', 'Task is already completed');
+    }
+    if (input.expectedCompletionCount !== undefined && input.expectedCompletionCount !== completionCount) {
+      throw new HttpsError('aborted', 'This occurrence was already completed by someone else');
+    }
+
+    const isShared = Array.isArray(task.assignedTo);
+    const assigneeIds = getAssigneeIds(task);
+    const reviewerIds: string[] = [task.createdBy, task.reviewerId].filter(Boolean);
+    const isApproval = task.status === 'in-review';
+
+    if (isApproval && !reviewerIds.includes(input.actorId)) {
+      throw new HttpsError('permission-denied', 'Only the creator or reviewer can approve this task');
+    }
+
+    // Checked here as well as in the client, since any screen can call this.
+    const blockerIds: string[] = task.blockedBy || [];
+    if (!isApproval && blockerIds.length > 0) {
+      const blockerDocs = await transaction.getAll(...blockerIds.map(id => db.collection('tasks').doc(id)));
+      const openBlockers = blockerDocs.filter(d => d.exists && !isBlockerResolved(d.data() as DocumentData));
+      if (openBlockers.length > 0) {
+        throw new HttpsError(
+          'failed-precondition',
+          `This task is blocked by: ${openBlockers.map(d => d.data()?.title).join(', ')}`
+        );
+      }
+    }
+
+    // The creator and anyone following the task hear about completions.
+    const notifyFollowers = (title: string, message: string, extra: (string | null | undefined)[] = []) => {
+      [...new Set([...extra, task.createdBy, ...(task.watchers || [])])]
+        .filter((id): id is string => !!id && id !== input.actorId)
+        .forEach(userId => notifications.push({ userId, title, message }));
+    };
+    const assigneeCompletions: Record<string, DocumentData> = { ...(task.assigneeCompletions || {}) };
+    const partEntry = { completedAt: Timestamp.fromDate(now), completedBy: input.actorId };
+
+    if (isShared && !isApproval) {
+      if (assigneeIds.includes(input.actorId)) {
+        if (assigneeCompletions[input.actorId]) {
+          throw new HttpsError('failed-precondition', 'You already marked your part as done');
+        }
+        assigneeCompletions[input.actorId] = partEntry;
+      } else {
+        assigneeIds
+          .filter(id => !assigneeCompletions[id])
+          .forEach(id => { assigneeCompletions[id] = partEntry; });
+      }
+
+      const remaining = assigneeIds.filter(id => !assigneeCompletions[id]);
+      if (remaining.length > 0) {
+        transaction.update(taskRef, {
+          assigneeCompletions,
+          ...(task.status === 'pending' && {
+            status: 'in-progress',
+            statusHistory: FieldValue.arrayUnion({
+              status: 'in-progress',
+              timestamp: Timestamp.fromDate(now),
+              updatedBy: input.actorId,
+              updatedByName: input.actorName,
+            }),
+          }),
+        });
+
+        const done = assigneeIds.length - remaining.length;
+        notifyFollowers(
+          'Shared Task Progress',
+          `${input.actorName} finished their part of ${task.title} (${done}/${assigneeIds.length})`,
+          [task.leadId]
+        );
+
+        return {
+          points: 0,
+          isEarly: false,
+          policyVersion: 0,
+          nextDueDate: null,
+          seriesCompleted: false,
+          completionCount,
+          remainingAssignees: remaining.length,
+          inReview: false,
+        };
+      }
+    }
+
+    if (!isApproval && (input.submitForReview || (task.requiresReview && !reviewerIds.includes(input.actorId)))) {
+      transaction.update(taskRef, {
+        status: 'in-review',
+        submittedAt: Timestamp.fromDate(now),
+        submittedBy: input.actorId,
+        submittedByName: input.actorName,
+        statusHistory: FieldValue.arrayUnion({
+          status: 'in-review',
+          timestamp: Timestamp.fromDate(now),
+          updatedBy: input.actorId,
+          updatedByName: input.actorName,
+        }),
+        ...(isShared && { assigneeCompletions }),
+      });
+
+      reviewerIds
+        .filter(id => id !== input.actorId)
+        .forEach(userId => notifications.push({
+          userId,
+          title: 'Task Ready for Review',
+          message: `${input.actorName} submitted ${task.title} for your review`,
+        }));
+
+      return {
+        points: 0,
+        isEarly: false,
+        policyVersion: 0,
+        nextDueDate: null,
+        seriesCompleted: false,
+        completionCount,
+        remainingAssignees: 0,
+        inReview: true,
+      };
+    }
+
+    const statsRefs = assigneeIds.map(id => db.collection('userStats').doc(id));
+    const statsDocs = statsRefs.length > 0 ? await transaction.getAll(...statsRefs) : [];
+    const policy = await getActivePointsPolicy(db, transaction);
+    const holidaysDoc = task.isRecurring
+      ? await transaction.get(db.collection('appSettings').doc('holidays'))
+      : null;
+
+    const dueDate: Date = task.dueDate.toDate();
+    const assignedAt: Date = task.assignedAt.toDate();
+    const completedAt: Date = isApproval && task.submittedAt ? task.submittedAt.toDate() : now;
+    const completionTimeHours = differenceInHours(completedAt, assignedAt);
+    const occurrenceNumber = completionCount + 1;
+    const ratio = getCompletionRatio(task);
+    const scored = calculatePoints(policy, {
+      dueDate,
+      completedAt,
+      priority: task.priority,
+      isRecurring: task.isRecurring,
+      occurrenceNumber,
+    });
+    const points = Math.round(scored.points * ratio);
+    const shares = isShared
+      ? splitPoints(points, assigneeIds, task.leadId, task.pointsSplit)
+      : { [assigneeIds[0]]: points };
+
+    assigneeIds.forEach((assigneeId) => {
+      transaction.create(db.collection('taskCompletions').doc(), {
+        taskId: input.taskId,
+        taskTitle: task.title,
+        taskDescription: task.description || '',
+        assignedTo: assigneeId,
+        assignedToName: task.assigneeNames?.[assigneeId] || task.assignedToName || '',
+        clientId: task.clientId || null,
+        clientName: task.clientName || null,
+        createdBy: task.createdBy,
+        createdByName: task.createdByName || '',
+        priority: task.priority,
+        assignedAt: task.assignedAt,
+        dueDate: task.dueDate,
+        completedAt: Timestamp.fromDate(completedAt),
+        completionTimeHours,
+        points: shares[assigneeId],
+        isEarlyComplete: scored.isEarly,
+        isRecurringCompletion: task.isRecurring || false,
+        recurringPattern: task.recurringPattern || null,
+        occurrenceNumber,
+        completionRatio: ratio,
+        loggedMinutes: task.loggedMinutes || 0,
+        policyVersion: scored.policyVersion,
+        ...(isShared && {
+          sharedWith: assigneeIds.length,
+          totalPoints: points,
+          pointsSplit: task.pointsSplit || 'equal',
+        }),
+        ...(isApproval && {
+          approvedAt: Timestamp.fromDate(now),
+          approvedBy: input.actorId,
+          approvedByName: input.actorName,
+        }),
+      });
+    });
+
+    const statusEntry = {
+      timestamp: Timestamp.fromDate(now),
+      updatedBy: input.actorId,
+      updatedByName: input.actorName,
+    };
+    let nextDueDate: Date | null = null;
+    let seriesCompleted = false;
+
+    const rule: RecurrenceRule | null = task.recurrence
+      || (task.recurringPattern ? ruleFromPattern(task.recurringPattern, dueDate) : null);
+
+    if (task.isRecurring && rule) {
+      const holidays = new Set<string>(holidaysDoc?.data()?.dates || []);
+      const candidate = getNextOccurrence(rule, dueDate, holidays);
+      const endDate: Date | null = task.recurringEndDate?.toDate() || null;
+
+      if (candidate && (!endDate || isBefore(candidate, endDate))) {
+        nextDueDate = candidate;
+        transaction.update(taskRef, {
+          status: 'pending',
+          dueDate: Timestamp.fromDate(candidate),
+          assignedAt: Timestamp.fromDate(now),
+          lastCompletedDate: Timestamp.fromDate(completedAt),
+          completionCount: occurrenceNumber,
+          completedAt: null,
+          submittedAt: null,
+          submittedBy: null,
+          submittedByName: null,
+          slaBreaches: [],
+          completionTimeHours: 0,
+          points: 0,
+          isEarlyComplete: false,
+          statusHistory: [{ ...statusEntry, status: 'pending' }],
+          subtasks: resetSubtasks(task.subtasks || [], candidate.getTime() - dueDate.getTime()),
+          checklist: (task.checklist || []).map((c: DocumentData) => ({ ...c, done: false })),
+          loggedMinutes: 0,
+          ...(isShared && { assigneeCompletions: {} }),
+        });
+
+        assigneeIds.forEach(userId => notifications.push({
+          userId,
+          title: 'Recurring Task - Next Occurrence',
+          message: `${task.title} is now due on ${format(candidate, 'MMM d, yyyy')}`,
+        }));
+        notifyFollowers(
+          'Recurring Task Completed',
+          `${task.title} completed${scored.isEarly ? ' early!' : '!'} (${points} pts). Next: ${format(candidate, 'MMM d')}`
+        );
+      } else {
+        seriesCompleted = true;
+        transaction.update(taskRef, {
+          status: 'completed',
+          completedAt: Timestamp.fromDate(completedAt),
+          completionTimeHours,
+          points,
+          isEarlyComplete: scored.isEarly,
+          lastCompletedDate: Timestamp.fromDate(completedAt),
+          completionCount: occurrenceNumber,
+          statusHistory: FieldValue.arrayUnion({ ...statusEntry, status: 'completed' }),
+          isRecurring: false,
+          ...(isShared && { assigneeCompletions }),
+        });
+
+        notifyFollowers(
+          'Recurring Task Series Completed',
+          `${task.title} series completed! Total: ${occurrenceNumber} times`
+        );
+      }
+    } else {
+      transaction.update(taskRef, {
+        status: 'completed',
+        completedAt: Timestamp.fromDate(completedAt),
+        completionTimeHours,
+        points,
+        isEarlyComplete: scored.isEarly,
+        statusHistory: FieldValue.arrayUnion({ ...statusEntry, status: 'completed' }),
+        ...(isShared && { assigneeCompletions }),
+      });
+
+      notifyFollowers(
+        'Task Completed',
+        `${task.title} has been completed${scored.isEarly ? ' early!' : '!'} (${points} points)`
+      );
+    }
+
+    if (isApproval) {
+      assigneeIds
+        .filter(id => id !== input.actorId)
+        .forEach(userId => notifications.push({
+          userId,
+          title: 'Task Approved',
+          message: `${input.actorName} approved ${task.title} (${shares[userId]} pts)`,
+        }));
+    }
+
+    // Stats are only credited when assignees complete their own work; on an
+    // approval that is whoever submitted it.
+    assigneeIds.forEach((assigneeId, i) => {
+      const completedBy = isShared
+        ? assigneeCompletions[assigneeId]?.completedBy
+        : isApproval ? task.submittedBy : input.actorId;
+      if (completedBy !== assigneeId) return;
+
+      const stats = statsDocs[i].exists ? statsDocs[i].data() as DocumentData : {};
+      const tasksCompleted = (stats.tasksCompleted || 0) + 1;
+      const totalCompletionTime = (stats.totalCompletionTime || 0) + completionTimeHours;
+
+      transaction.set(statsRefs[i], {
+        userId: assigneeId,
+        tasksCompleted,
+        totalPoints: (stats.totalPoints || 0) + shares[assigneeId],
+        totalCompletionTime,
+        averageCompletionTime: totalCompletionTime / tasksCompleted,
+        totalTasksAssigned: stats.totalTasksAssigned || 1,
+        lastUpdated: Timestamp.fromDate(now),
+      }, { merge: true });
+    });
+
+    if (completionCount === 0 && (task.blocks || []).length > 0) {
+      unblockCheck = { id: input.taskId, title: task.title, blocks: task.blocks };
+    }
+
+    return {
+      points,
+      isEarly: scored.isEarly,
+      policyVersion: scored.policyVersion,
+      nextDueDate: nextDueDate ? nextDueDate.toISOString() : null,
+      seriesCompleted,
+      completionCount: occurrenceNumber,
+      remainingAssignees: 0,
+      inReview: false,
+    };
+  });
+
+  if (unblockCheck) {
+    notifications.push(...await getUnblockedNotifications(db, unblockCheck));
+  }
+  await sendNotifications(db, notifications, now);
+
+  return result;
+};
+
+const getUnblockedNotifications = async (
+  db: Firestore,
+  blocker: { id: string; title: string; blocks: string[] }
+) => {
+  const notifications: Notify[] = [];
+
+  for (const dependentId of blocker.blocks) {
+    const dependentDoc = await db.collection('tasks').doc(dependentId).get();
+    if (!dependentDoc.exists) continue;
+
+    const dependent = dependentDoc.data() as DocumentData;
+    const otherBlockerIds: string[] = (dependent.blockedBy || []).filter((id: string) => id !== blocker.id);
+    const otherBlockers = await Promise.all(otherBlockerIds.map(id => db.collection('tasks').doc(id).get()));
+    const stillOpen = otherBlockers.filter(d => d.exists && !isBlockerResolved(d.data() as DocumentData)).length;
+
+    getAssigneeIds(dependent).forEach(userId => notifications.push({
+      userId,
+      title: stillOpen === 0 ? 'Task Unblocked' : 'Blocker Completed',
+      message: stillOpen === 0
+        ? `${blocker.title} is done. You can now start ${dependent.title}`
+        : `${blocker.title} is done. ${dependent.title} is still waiting on ${stillOpen} task(s)`,
+    }));
+  }
+
+  return notifications;
+};
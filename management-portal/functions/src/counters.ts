@@ -0,0 +1,129 @@
+import { addDays } from 'date-fns';
+import { FieldValue, Timestamp, type DocumentData, type Firestore, type Transaction } from 'firebase-admin/firestore';
+
+// Counters are kept by triggers rather than by the client so they stay
+// correct no matter which screen (Tasks, Meetings, imports) creates the task.
+
+// Firestore triggers are delivered at least once. Each event is recorded in
+// the same transaction as its counter changes, so a redelivered event is
+// skipped instead of counted twice. A TTL policy on expireAt clears old records.
+const PROCESSED_EVENT_TTL_DAYS = 7;
+
+const runOnce = async (
+  db: Firestore,
+  eventId: string,
+  now: Date,
+  apply: (transaction: Transaction) => Promise<void>
+) => {
+  await db.runTransaction(async (transaction) => {
+    const eventRef = db.collection('processedEvents').doc(eventId);
+    if ((await transaction.get(eventRef)).exists) return;
+
+    await apply(transaction);
+    transaction.create(eventRef, {
+      processedAt: Timestamp.fromDate(now),
+      expireAt: Timestamp.fromDate(addDays(now, PROCESSED_EVENT_TTL_DAYS)),
+    });
+  });
+};
+
+export const onTaskCreated = async (db: Firestore, eventId: string, task: DocumentData, now: Date = new Date()) => {
+  await runOnce(db, eventId, now, async (transaction) => {
+    const assignees: string[] = Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+    const clientRef = task.clientId ? db.collection('clients').doc(task.clientId) : null;
+    const clientDoc = clientRef ? await transaction.get(clientRef) : null;
+
+    assignees.forEach(userId => {
+      transaction.set(db.collection('userStats').doc(userId), {
+        userId,
+        totalTasksAssigned: FieldValue.increment(1),
+        lastUpdated: Timestamp.fromDate(now),
+      }, { merge: true });
+    });
+
+    if (clientRef && clientDoc?.exists) {
+      transaction.update(clientRef, {
+        taskCount: FieldValue.increment(1),
+        lastTaskAssigned: task.createdAt || Timestamp.fromDate(now),
+      });
+    }
+  });
+};
+
+// A task in the trash no longer counts towards its client, so restoring it
+// or moving it to another client shifts the count the same way.
+const countsForClient = (task: DocumentData): string | null => (task.deletedAt ? null : task.clientId || null);
+
+// Reads every client first, since a transaction cannot read after writing.
+const adjustClientTaskCounts = async (db: Firestore, transaction: Transaction, deltas: [string, number][]) => {
+  const clientRefs = deltas.map(([clientId]) => db.collection('clients').doc(clientId));
+  const clientDocs = clientRefs.length > 0 ? await transaction.getAll(...clientRefs) : [];
+
+  clientDocs.forEach((clientDoc, i) => {
+    if (!clientDoc.exists) return;
+    const taskCount = (clientDoc.data() as DocumentData).taskCount || 0;
+    transaction.update(clientRefs[i], { taskCount: Math.max(taskCount + deltas[i][1], 0) });
+  });
+};
+
+const getAssigneeIds = (task: DocumentData): string[] =>
+  Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+
+// Like clients, assignees stop counting a task while it is in the trash.
+const countsForAssignees = (task: DocumentData): string[] => (task.deletedAt ? [] : getAssigneeIds(task));
+
+const adjustAssignedCounts = (db: Firestore, transaction: Transaction, deltas: [string, number][], now: Date) => {
+  deltas.forEach(([userId, delta]) => {
+    transaction.set(db.collection('userStats').doc(userId), {
+      userId,
+      totalTasksAssigned: FieldValue.increment(delta),
+      lastUpdated: Timestamp.fromDate(now),
+    }, { merge: true });
+  });
+};
+
+// A reassigned task counts for the new assignee instead of the old one.
+// Completions already credited to the old assignee stay with them.
+const moveAssignedCounts = (db: Firestore, transaction: Transaction, before: DocumentData, after: DocumentData, now: Date) => {
+  const previous = countsForAssignees(before);
+  const next = countsForAssignees(after);
+  const removed = previous.filter(id => !next.includes(id));
+  const added = next.filter(id => !previous.includes(id));
+
+  adjustAssignedCounts(db, transaction, [
+    ...removed.map(id => [id, -1] as [string, number]),
+    ...added.map(id => [id, 1] as [string, number]),
+  ], now);
+};
+
+export const onTaskUpdated = async (
+  db: Firestore,
+  eventId: string,
+  before: DocumentData,
+  after: DocumentData,
+  now: Date = new Date()
+) => {
+  await runOnce(db, eventId, now, async (transaction) => {
+    const previousClient = countsForClient(before);
+    const nextClient = countsForClient(after);
+    const clientDeltas: [string, number][] = [];
+    if (previousClient !== nextClient) {
+      if (previousClient) clientDeltas.push([previousClient, -1]);
+      if (nextClient) clientDeltas.push([nextClient, 1]);
+    }
+    await adjustClientTaskCounts(db, transaction, clientDeltas);
+
+    moveAssignedCounts(db, transaction, before, after, now);
+  });
+};
+
+// Tasks purged from the trash were already taken off their client's and
+// assignees' counts.
+export const onTaskDeleted = async (db: Firestore, eventId: string, task: DocumentData, now: Date = new Date()) => {
+  await runOnce(db, eventId, now, async (transaction) => {
+    const clientId = countsForClient(task);
+    if (clientId) await adjustClientTaskCounts(db, transaction, [[clientId, -1]]);
+
+    adjustAssignedCounts(db, transaction, countsForAssignees(task).map(userId => [userId, -1]), now);
+  });
+};
@@ -0,0 +1,91 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { HttpsError, onCall, onRequest } from 'firebase-functions/v2/https';
+import { onDocumentCreated, onDocumentDeleted, onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { completeTask as runCompleteTask, type CompleteTaskInput } from './completion';
+import { onTaskCreated, onTaskDeleted, onTaskUpdated } from './counters';
+import { purgeExpiredTrash } from './trash';
+import { checkSlaBreaches } from './sla';
+import { sendDueReminders } from './reminders';
+
+initializeApp();
+const db = getFirestore();
+
+export const completeTask = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to complete tasks');
+  }
+
+  const { taskId, expectedCompletionCount, submitForReview } = request.data as Partial<CompleteTaskInput>;
+  if (!taskId) {
+    throw new HttpsError('invalid-argument', 'taskId is required');
+  }
+
+  const [userDoc, taskDoc] = await Promise.all([
+    db.collection('users').doc(request.auth.uid).get(),
+    db.collection('tasks').doc(taskId).get(),
+  ]);
+  const role = userDoc.data()?.role;
+  const task = taskDoc.data();
+  const assignees: string[] = Array.isArray(task?.assignedTo) ? task.assignedTo : [task?.assignedTo];
+  const isInvolved = assignees.includes(request.auth.uid)
+    || task?.createdBy === request.auth.uid
+    || task?.reviewerId === request.auth.uid;
+  if (task && !isInvolved && role !== 'admin' && role !== 'superadmin') {
+    throw new HttpsError('permission-denied', 'You cannot complete this task');
+  }
+
+  return runCompleteTask(db, {
+    taskId,
+    actorId: request.auth.uid,
+    actorName: userDoc.data()?.displayName || '',
+    expectedCompletionCount,
+    submitForReview,
+  });
+});
+
+export const taskCreated = onDocumentCreated('tasks/{taskId}', async (event) => {
+  const task = event.data?.data();
+  if (task) await onTaskCreated(db, event.id, task);
+});
+
+export const taskUpdated = onDocumentUpdated('tasks/{taskId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (before && after) await onTaskUpdated(db, event.id, before, after);
+});
+
+export const taskDeleted = onDocumentDeleted('tasks/{taskId}', async (event) => {
+  const task = event.data?.data();
+  if (task) await onTaskDeleted(db, event.id, task);
+});
+
+export const purgeTrash = onSchedule('every day 03:00', async () => {
+  await purgeExpiredTrash(db);
+});
+
+export const checkSla = onSchedule('every 30 minutes', async () => {
+  await checkSlaBreaches(db);
+});
+
+export const sendReminders = onSchedule('every 15 minutes', async () => {
+  await sendDueReminders(db);
+});
+
+// Emulator-only hook for trying reminders at a fake time, e.g.
+// curl "http://localhost:5001/<project>/us-central1/runRemindersAt?now=2025-01-31T08:00:00Z"
+export const runRemindersAt = onRequest(async (req, res) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    res.status(404).send('Not found');
+    return;
+  }
+
+  const now = req.query.now ? new Date(String(req.query.now)) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    res.status(400).send('now must be an ISO date');
+    return;
+  }
+
+  res.json(await sendDueReminders(db, now));
+});
@@ -0,0 +1,31 @@
+import { Timestamp, type Firestore } from 'firebase-admin/firestore';
+
+// Same document shape createNotification in src/utils/notifications.ts writes.
+export type Notify = {
+  userId: string;
+  title: string;
+  message: string;
+  link?: string;
+  type?: 'task' | 'meeting';
+};
+
+// Firestore caps a batch at 500 writes; scheduled jobs can exceed that.
+const BATCH_LIMIT = 500;
+
+export const sendNotifications = async (db: Firestore, notifications: Notify[], now: Date) => {
+  for (let i = 0; i < notifications.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    notifications.slice(i, i + BATCH_LIMIT).forEach(({ userId, title, message, link, type = 'task' }) => {
+      batch.set(db.collection('notifications').doc(), {
+        userId,
+        title,
+        message,
+        type,
+        read: false,
+        createdAt: Timestamp.fromDate(now),
+        ...(link && { link }),
+      });
+    });
+    await batch.commit();
+  }
+};
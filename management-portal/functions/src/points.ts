@@ -0,0 +1,90 @@
+import { differenceInHours } from 'date-fns';
+import type { Firestore, Transaction } from 'firebase-admin/firestore';
+
+// Server copy of src/utils/pointsPolicy.ts. The scoring rules have to match
+// what the preview calculator in Settings shows, so change both together.
+
+type Priority = 'low' | 'medium' | 'high';
+
+interface PointsTier {
+  minHoursBeforeDue: number;
+  points: number;
+  isEarly: boolean;
+}
+
+export interface PointsPolicy {
+  version: number;
+  tiers: PointsTier[];
+  fallbackPoints: number;
+  priorityMultipliers: Record<Priority, number>;
+  recurringMultiplier: number;
+  recurringFirstOccurrenceFull: boolean;
+}
+
+export const DEFAULT_POINTS_POLICY: PointsPolicy = {
+  version: 0,
+  tiers: [
+    { minHoursBeforeDue: 24, points: 150, isEarly: true },
+    { minHoursBeforeDue: 12, points: 100, isEarly: true },
+    { minHoursBeforeDue: 0, points: 75, isEarly: true },
+    { minHoursBeforeDue: -1, points: 50, isEarly: false },
+  ],
+  fallbackPoints: 0,
+  priorityMultipliers: { low: 1, medium: 1, high: 1 },
+  recurringMultiplier: 1,
+  recurringFirstOccurrenceFull: true,
+};
+
+export const getActivePointsPolicy = async (db: Firestore, transaction: Transaction): Promise<PointsPolicy> => {
+  const snapshot = await transaction.get(
+    db.collection('pointsPolicies').orderBy('version', 'desc').limit(1)
+  );
+  if (snapshot.empty) return DEFAULT_POINTS_POLICY;
+
+  const data = snapshot.docs[0].data();
+  return {
+    ...DEFAULT_POINTS_POLICY,
+    ...data,
+    priorityMultipliers: { ...DEFAULT_POINTS_POLICY.priorityMultipliers, ...data.priorityMultipliers },
+  } as PointsPolicy;
+};
+
+export const calculatePoints = (
+  policy: PointsPolicy,
+  input: { dueDate: Date; completedAt: Date; priority: Priority; isRecurring?: boolean; occurrenceNumber?: number }
+) => {
+  const hoursBeforeDue = differenceInHours(input.dueDate, input.completedAt);
+  const tier = [...policy.tiers]
+    .sort((a, b) => b.minHoursBeforeDue - a.minHoursBeforeDue)
+    .find(t => hoursBeforeDue >= t.minHoursBeforeDue);
+  const basePoints = tier ? tier.points : policy.fallbackPoints;
+
+  let multiplier = policy.priorityMultipliers[input.priority] ?? 1;
+  const isRepeatOccurrence = (input.occurrenceNumber || 1) > 1 || !policy.recurringFirstOccurrenceFull;
+  if (input.isRecurring && isRepeatOccurrence) {
+    multiplier *= policy.recurringMultiplier;
+  }
+
+  return {
+    points: Math.round(basePoints * multiplier),
+    isEarly: tier ? tier.isEarly : false,
+    policyVersion: policy.version,
+  };
+};
+
+export type PointsSplitRule = 'equal' | 'lead' | 'full';
+
+export const splitPoints = (
+  points: number,
+  assigneeIds: string[],
+  leadId: string | null | undefined,
+  rule: PointsSplitRule = 'equal'
+): Record<string, number> => {
+  const weight = (id: string) => (rule === 'lead' && id === leadId ? 2 : 1);
+  const totalWeight = assigneeIds.reduce((sum, id) => sum + weight(id), 0);
+
+  return Object.fromEntries(assigneeIds.map(id => [
+    id,
+    rule === 'full' ? points : Math.round((points * weight(id)) / totalWeight),
+  ]));
+};
@@ -0,0 +1,94 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  isWeekend,
+  parseISO
+} from 'date-fns';
+
+// Server copy of the matching logic in src/utils/recurrence.ts. The client
+// uses it to preview upcoming dates, so both must agree on the next occurrence.
+
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  anchorDate: string;
+  byWeekday?: number[];
+  monthlyBy?: 'monthday' | 'weekday' | 'lastBusinessDay';
+  setPos?: number;
+  skipHolidays?: boolean;
+}
+
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const ruleFromPattern = (pattern: RecurrenceRule['freq'], anchor: Date): RecurrenceRule => ({
+  freq: pattern,
+  interval: 1,
+  anchorDate: toDateKey(anchor),
+  byWeekday: pattern === 'weekly' ? [anchor.getDay()] : [],
+  monthlyBy: 'monthday',
+  setPos: 1,
+  skipHolidays: false,
+});
+
+const isBusinessDay = (date: Date, holidays: Set<string>) =>
+  !isWeekend(date) && !holidays.has(toDateKey(date));
+
+const getLastBusinessDay = (date: Date, holidays: Set<string>) => {
+  let day = endOfMonth(date);
+  while (!isBusinessDay(day, holidays)) day = addDays(day, -1);
+  return day;
+};
+
+const matchesMonthly = (rule: RecurrenceRule, date: Date, anchor: Date, holidays: Set<string>) => {
+  switch (rule.monthlyBy) {
+    case 'lastBusinessDay':
+      return differenceInCalendarDays(date, getLastBusinessDay(date, holidays)) === 0;
+    case 'weekday': {
+      const weekday = rule.byWeekday?.[0] ?? anchor.getDay();
+      if (date.getDay() !== weekday) return false;
+      if (rule.setPos === -1) return date.getDate() + 7 > getDaysInMonth(date);
+      return Math.ceil(date.getDate() / 7) === rule.setPos;
+    }
+    default:
+      return date.getDate() === Math.min(anchor.getDate(), getDaysInMonth(date));
+  }
+};
+
+const matchesRule = (rule: RecurrenceRule, date: Date, holidays: Set<string>) => {
+  const anchor = parseISO(rule.anchorDate);
+  const interval = Math.max(rule.interval || 1, 1);
+  const key = toDateKey(date);
+
+  if (rule.skipHolidays && holidays.has(key)) return false;
+
+  switch (rule.freq) {
+    case 'daily':
+      return differenceInCalendarDays(date, anchor) % interval === 0
+        && (!rule.byWeekday?.length || rule.byWeekday.includes(date.getDay()));
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [anchor.getDay()];
+      return differenceInCalendarWeeks(date, anchor, { weekStartsOn: 1 }) % interval === 0
+        && weekdays.includes(date.getDay());
+    }
+    case 'monthly':
+      return differenceInCalendarMonths(date, anchor) % interval === 0
+        && matchesMonthly(rule, date, anchor, holidays);
+    default:
+      return false;
+  }
+};
+
+export const getNextOccurrence = (rule: RecurrenceRule, after: Date, holidays: Set<string>): Date | null => {
+  for (let i = 1; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    const candidate = addDays(after, i);
+    if (matchesRule(rule, candidate, holidays)) return candidate;
+  }
+  return null;
+};
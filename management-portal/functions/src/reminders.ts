@@ -0,0 +1,178 @@
+import { formatDistanceStrict, subDays, subMinutes } from 'date-fns';
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import { sendNotifications, type Notify } from './notifications';
+
+// Same defaults as DEFAULT_REMINDER_SETTINGS in src/utils/reminders.ts,
+// where superadmins change them.
+const DEFAULT_OFFSETS_MINUTES = [24 * 60, 60];
+
+// Tasks that went overdue longer ago than this are not chased, so switching
+// the scheduler on does not flood everyone with old deadlines.
+const OVERDUE_LOOKBACK_DAYS = 1;
+
+// Mirrors QuietHours in src/utils/preferences.ts.
+interface QuietHours {
+  start: string; // 'HH:mm'
+  end: string;
+  timeZone: string;
+}
+
+interface Stage {
+  key: string;
+  at: Date;
+}
+
+interface Reminder {
+  kind: 'task' | 'meeting';
+  id: string;
+  title: string;
+  deadline: Date;
+  recipients: string[];
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Wall-clock minutes past midnight in the user's own time zone.
+const minutesInZone = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return part('hour') * 60 + part('minute');
+};
+
+export const isQuietTime = (quietHours: QuietHours | null | undefined, now: Date) => {
+  if (!quietHours?.start || !quietHours.end) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  const current = minutesInZone(now, quietHours.timeZone || 'UTC');
+  // Quiet hours such as 22:00-07:00 wrap past midnight.
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+// Due dates are stored as UTC midnight of the picked day (the task form uses
+// new Date('yyyy-MM-dd')), and a task only counts as overdue once that day is
+// over. Task reminders therefore count back from the end of the due day.
+const getEndOfDueDay = (dueDate: Date) =>
+  new Date(Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate() + 1));
+
+const getStages = (deadline: Date, offsetsMinutes: number[], overdue: boolean): Stage[] => [
+  ...[...offsetsMinutes].sort((a, b) => b - a).map(offset => ({ key: `before-${offset}`, at: subMinutes(deadline, offset) })),
+  ...(overdue ? [{ key: 'overdue', at: deadline }] : []),
+];
+
+const getMessage = (reminder: Reminder, now: Date): Omit<Notify, 'userId'> => {
+  if (reminder.kind === 'meeting') {
+    return {
+      title: 'Meeting Reminder',
+      message: `${reminder.title} starts in ${formatDistanceStrict(reminder.deadline, now)}`,
+      link: '/meetings',
+      type: 'meeting',
+    };
+  }
+
+  const link = `/tasks?taskId=${reminder.id}`;
+  return reminder.deadline <= now
+    ? { title: 'Task Overdue', message: `${reminder.title} was due ${formatDistanceStrict(reminder.deadline, now)} ago`, link }
+    : { title: 'Task Due Soon', message: `${reminder.title} is due in ${formatDistanceStrict(reminder.deadline, now)}`, link };
+};
+
+const getAssigneeIds = (task: DocumentData): string[] =>
+  Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+
+// Sends due-date reminders for open tasks and meeting reminders for scheduled
+// meetings. Each recipient gets the latest stage they have reached; stages
+// missed while the task did not exist yet, or during their quiet hours, are
+// folded into that one notification instead of arriving in a burst.
+// The log is keyed by the deadline, so moving a due date or meeting time
+// starts the reminders over.
+export const sendDueReminders = async (db: Firestore, now: Date = new Date()) => {
+  const settingsDoc = await db.collection('appSettings').doc('reminders').get();
+  const offsetsMinutes: number[] = settingsDoc.data()?.offsetsMinutes || DEFAULT_OFFSETS_MINUTES;
+  const overdue: boolean = settingsDoc.data()?.overdue ?? true;
+  const horizon = Timestamp.fromDate(new Date(now.getTime() + Math.max(0, ...offsetsMinutes) * 60000));
+  const lookback = subDays(now, OVERDUE_LOOKBACK_DAYS);
+
+  const [tasks, meetings] = await Promise.all([
+    // A due date can sit up to a day before the end of its due day.
+    db.collection('tasks')
+      .where('dueDate', '>=', Timestamp.fromDate(subDays(lookback, 1)))
+      .where('dueDate', '<=', horizon)
+      .get(),
+    db.collection('meetings')
+      .where('date', '>=', Timestamp.fromDate(now))
+      .where('date', '<=', horizon)
+      .get(),
+  ]);
+
+  const reminders: Reminder[] = [
+    ...tasks.docs
+      .filter(d => ['pending', 'in-progress'].includes(d.data().status) && !d.data().deletedAt && !d.data().archivedAt)
+      .map(d => ({
+        kind: 'task' as const,
+        id: d.id,
+        title: d.data().title,
+        deadline: getEndOfDueDay(d.data().dueDate.toDate()),
+        recipients: getAssigneeIds(d.data()),
+      }))
+      .filter(reminder => reminder.deadline >= lookback),
+    ...meetings.docs
+      .filter(d => d.data().status === 'scheduled')
+      .map(d => ({
+        kind: 'meeting' as const,
+        id: d.id,
+        title: d.data().title,
+        deadline: d.data().date.toDate(),
+        recipients: d.data().attendees || [],
+      })),
+  ];
+
+  const userIds = [...new Set(reminders.flatMap(r => r.recipients))];
+  const preferences = userIds.length > 0
+    ? await db.getAll(...userIds.map(id => db.collection('userPreferences').doc(id)))
+    : [];
+  const quietHours = new Map(preferences.map(d => [d.id, d.data()?.quietHours as QuietHours | undefined] as const));
+
+  const notifications: Notify[] = [];
+  let held = 0;
+
+  for (const reminder of reminders) {
+    // Meetings have no overdue stage; once they start the reminders stop.
+    const reached = getStages(reminder.deadline, offsetsMinutes, overdue && reminder.kind === 'task')
+      .filter(stage => stage.at <= now);
+    if (reached.length === 0) continue;
+
+    for (const userId of reminder.recipients) {
+      const logRef = db.collection('reminderLog').doc(`${reminder.kind}_${reminder.id}_${reminder.deadline.getTime()}_${userId}`);
+      const sent: string[] = (await logRef.get()).data()?.sent || [];
+      const pending = reached.filter(stage => !sent.includes(stage.key));
+      if (pending.length === 0) continue;
+
+      if (isQuietTime(quietHours.get(userId), now)) {
+        held++;
+        continue;
+      }
+
+      notifications.push({ userId, ...getMessage(reminder, now) });
+      await logRef.set({
+        kind: reminder.kind,
+        itemId: reminder.id,
+        userId,
+        sent: [...sent, ...pending.map(stage => stage.key)],
+        updatedAt: Timestamp.fromDate(now),
+      });
+    }
+  }
+
+  await sendNotifications(db, notifications, now);
+  return { sent: notifications.length, held };
+};
@@ -0,0 +1,133 @@
+import { addHours, differenceInHours, format } from 'date-fns';
+import { FieldValue, Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import { sendNotifications, type Notify } from './notifications';
+
+// Server copy of the rule matching in src/utils/sla.ts, which the Reports
+// page uses to work out which tasks were tracked.
+
+export interface SlaRule {
+  id: string;
+  priority: 'low' | 'medium' | 'high' | 'all';
+  clientId: string | null;
+  startWithinHours: number | null;
+  resolveWithinHours: number | null;
+}
+
+type BreachType = 'start' | 'resolve';
+
+const DEFAULT_ESCALATE_AFTER_HOURS = 24;
+
+export const findSlaRule = (rules: SlaRule[], task: DocumentData) => {
+  const specificity = (rule: SlaRule) => (rule.clientId ? 2 : 0) + (rule.priority !== 'all' ? 1 : 0);
+
+  return rules
+    .filter(rule => (!rule.clientId || rule.clientId === task.clientId)
+      && (rule.priority === 'all' || rule.priority === task.priority))
+    .sort((a, b) => specificity(b) - specificity(a))[0] || null;
+};
+
+const getAssigneeIds = (task: DocumentData): string[] =>
+  Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+
+// Deadlines this task has already missed. Submitting for review stops the
+// resolve clock, so only pending and in-progress tasks are checked.
+const getMissedDeadlines = (rule: SlaRule, task: DocumentData, now: Date) => {
+  const assignedAt: Date = task.assignedAt.toDate();
+  const missed: { type: BreachType; deadline: Date }[] = [];
+
+  if (rule.startWithinHours && task.status === 'pending') {
+    const deadline = addHours(assignedAt, rule.startWithinHours);
+    if (deadline < now) missed.push({ type: 'start', deadline });
+  }
+  if (rule.resolveWithinHours) {
+    const deadline = addHours(assignedAt, rule.resolveWithinHours);
+    if (deadline < now) missed.push({ type: 'resolve', deadline });
+  }
+  return missed;
+};
+
+// Records a breach the first time a deadline is missed and tells the creator
+// and assignees. If the task is still open escalateAfterHours later, every
+// admin is told too. Each breach is escalated at most once per level.
+export const checkSlaBreaches = async (db: Firestore, now: Date = new Date()) => {
+  const settingsDoc = await db.collection('appSettings').doc('slaRules').get();
+  const rules: SlaRule[] = settingsDoc.data()?.rules || [];
+  if (rules.length === 0) return { detected: 0, escalated: 0 };
+  const escalateAfterHours: number = settingsDoc.data()?.escalateAfterHours || DEFAULT_ESCALATE_AFTER_HOURS;
+
+  const [openTasks, admins] = await Promise.all([
+    db.collection('tasks').where('status', 'in', ['pending', 'in-progress']).get(),
+    db.collection('users').where('role', 'in', ['admin', 'superadmin']).get(),
+  ]);
+  const adminIds = admins.docs.map(d => d.id);
+
+  const notifications: Notify[] = [];
+  let detected = 0;
+  let escalated = 0;
+
+  for (const taskDoc of openTasks.docs) {
+    const task = taskDoc.data();
+    if (task.deletedAt || task.archivedAt) continue;
+
+    const rule = findSlaRule(rules, task);
+    if (!rule) continue;
+
+    const link = `/tasks?taskId=${taskDoc.id}`;
+    const assigneeIds = getAssigneeIds(task);
+
+    for (const { type, deadline } of getMissedDeadlines(rule, task, now)) {
+      const occurrence: number = task.completionCount || 0;
+      const breachRef = db.collection('slaBreaches').doc(`${taskDoc.id}_${occurrence}_${type}`);
+      const breachDoc = await breachRef.get();
+      const what = type === 'start' ? 'was not started' : 'was not finished';
+
+      if (!breachDoc.exists) {
+        const batch = db.batch();
+        batch.set(breachRef, {
+          taskId: taskDoc.id,
+          taskTitle: task.title,
+          type,
+          ruleId: rule.id,
+          occurrence,
+          assignedTo: assigneeIds,
+          createdBy: task.createdBy,
+          clientId: task.clientId || null,
+          clientName: task.clientName || null,
+          priority: task.priority,
+          deadline: Timestamp.fromDate(deadline),
+          detectedAt: Timestamp.fromDate(now),
+          escalationLevel: 1,
+          escalatedAt: null,
+        });
+        batch.update(taskDoc.ref, { slaBreaches: FieldValue.arrayUnion(type) });
+        await batch.commit();
+        detected++;
+
+        [...new Set([task.createdBy, ...assigneeIds])].filter(Boolean).forEach(userId => notifications.push({
+          userId,
+          title: 'SLA Breached',
+          message: `${task.title} ${what} by ${format(deadline, 'MMM d, h:mm a')}`,
+          link,
+        }));
+        continue;
+      }
+
+      const breach = breachDoc.data() as DocumentData;
+      if (breach.escalationLevel >= 2) continue;
+      if (differenceInHours(now, breach.detectedAt.toDate()) < escalateAfterHours) continue;
+
+      await breachRef.update({ escalationLevel: 2, escalatedAt: Timestamp.fromDate(now) });
+      escalated++;
+
+      adminIds.filter(id => id !== task.createdBy).forEach(userId => notifications.push({
+        userId,
+        title: 'SLA Breach Escalated',
+        message: `${task.title} (${task.assignedToName || 'unassigned'}) ${what} and is still open after ${escalateAfterHours}h`,
+        link,
+      }));
+    }
+  }
+
+  await sendNotifications(db, notifications, now);
+  return { detected, escalated };
+};
@@ -0,0 +1,66 @@
+import { FieldValue, Timestamp, type Firestore, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { subDays } from 'date-fns';
+
+// Same as TRASH_RETENTION_DAYS in src/utils/tasks.ts, which shows the purge date.
+export const TRASH_RETENTION_DAYS = 30;
+
+// Firestore caps a batch at 500 writes, and a long thread can have more comments.
+const BATCH_LIMIT = 500;
+
+// The part of a Storage bucket the purge uses, so tests can pass their own.
+export type AttachmentBucket = {
+  deleteFiles: (query: { prefix: string }) => Promise<unknown>;
+};
+
+// The task itself goes last, so a purge that fails part way is picked up
+// again on the next run.
+const purgeTask = async (db: Firestore, bucket: AttachmentBucket, taskDoc: QueryDocumentSnapshot) => {
+  const task = taskDoc.data();
+
+  // Linked tasks may already be gone, so they are updated one by one.
+  await Promise.all([
+    ...(task.blockedBy || []).map((blockerId: string) =>
+      db.collection('tasks').doc(blockerId).update({ blocks: FieldValue.arrayRemove(taskDoc.id) }).catch(() => undefined)
+    ),
+    ...(task.blocks || []).map((dependentId: string) =>
+      db.collection('tasks').doc(dependentId).update({ blockedBy: FieldValue.arrayRemove(taskDoc.id) }).catch(() => undefined)
+    ),
+  ]);
+
+  await bucket.deleteFiles({ prefix: `taskAttachments/${taskDoc.id}/` });
+
+  const comments = await db.collection('taskComments').where('taskId', '==', taskDoc.id).get();
+  for (let i = 0; i < comments.docs.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    comments.docs.slice(i, i + BATCH_LIMIT).forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+
+  await taskDoc.ref.delete();
+};
+
+// Permanently removes tasks that have sat in the trash for the retention
+// period, along with their comments, attachments and dependency links.
+// taskCompletions are left alone so reports keep their history.
+export const purgeExpiredTrash = async (
+  db: Firestore,
+  now: Date = new Date(),
+  bucket: AttachmentBucket = getStorage().bucket()
+) => {
+  const cutoff = Timestamp.fromDate(subDays(now, TRASH_RETENTION_DAYS));
+  const expired = await db.collection('tasks').where('deletedAt', '<=', cutoff).get();
+  let purged = 0;
+
+  // One task failing should not keep the rest in the trash.
+  for (const taskDoc of expired.docs) {
+    try {
+      await purgeTask(db, bucket, taskDoc);
+      purged++;
+    } catch (error) {
+      console.error(`Error purging task ${taskDoc.id}:`, error);
+    }
+  }
+
+  return purged;
+};
@@ -0,0 +1,238 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { App } from 'firebase-admin/app';
+import { completeTask } from '../src/completion';
+import { clearFirestore, connectEmulator, disconnectEmulator } from './emulator';
+
+let app: App;
+let db: Firestore;
+
+const now = new Date(2026, 1, 4, 10, 0);
+
+const createTask = async (id: string, fields: DocumentData = {}) => {
+  await db.collection('tasks').doc(id).set({
+    title: 'Weekly report',
+    description: '',
+    assignedTo: 'alice',
+    assignedToName: 'Alice',
+    createdBy: 'manager',
+    createdByName: 'Manager',
+    priority: 'medium',
+    status: 'pending',
+    assignedAt: Timestamp.fromDate(new Date(2026, 1, 3, 9, 0)),
+    dueDate: Timestamp.fromDate(new Date(2026, 1, 5, 17, 0)),
+    isRecurring: false,
+    completionCount: 0,
+    statusHistory: [],
+    ...fields,
+  });
+};
+
+const getTask = async (id: string) => (await db.collection('tasks').doc(id).get()).data() as DocumentData;
+const getStats = async (userId: string) => (await db.collection('userStats').doc(userId).get()).data();
+const getCompletions = async (taskId: string) =>
+  (await db.collection('taskCompletions').where('taskId', '==', taskId).get()).docs.map(d => d.data());
+
+const weekly = {
+  isRecurring: true,
+  recurringPattern: 'weekly',
+};
+
+beforeAll(() => {
+  ({ app, db } = connectEmulator());
+});
+
+afterAll(() => disconnectEmulator(app));
+
+beforeEach(() => clearFirestore());
+
+describe('completeTask', () => {
+  it('lets only one of two racing completions of the same occurrence through', async () => {
+    await createTask('race', weekly);
+    const input = { taskId: 'race', actorId: 'alice', actorName: 'Alice', expectedCompletionCount: 0 };
+
+    const results = await Promise.allSettled([completeTask(db, input, now), completeTask(db, input, now)]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason.code).toBe('aborted');
+
+    expect(await getCompletions('race')).toHaveLength(1);
+    expect((await getTask('race')).completionCount).toBe(1);
+    expect((await getStats('alice'))?.tasksCompleted).toBe(1);
+  });
+
+  it('rejects a completion based on a stale completion count', async () => {
+    await createTask('stale', { ...weekly, completionCount: 3 });
+
+    await expect(
+      completeTask(db, { taskId: 'stale', actorId: 'alice', actorName: 'Alice', expectedCompletionCount: 2 }, now)
+    ).rejects.toMatchObject({ code: 'aborted' });
+    expect(await getCompletions('stale')).toHaveLength(0);
+  });
+
+  it('refuses to complete a task that is still blocked', async () => {
+    await createTask('blocker', { title: 'Get sign-off', blocks: ['blocked'] });
+    await createTask('done-blocker', { status: 'completed', blocks: ['blocked'] });
+    await createTask('blocked', { blockedBy: ['blocker', 'done-blocker'] });
+
+    await expect(
+      completeTask(db, { taskId: 'blocked', actorId: 'alice', actorName: 'Alice' }, now)
+    ).rejects.toMatchObject({ code: 'failed-precondition', message: 'This task is blocked by: Get sign-off' });
+    expect((await getTask('blocked')).status).toBe('pending');
+
+    await db.collection('tasks').doc('blocker').update({ status: 'completed' });
+    await expect(
+      completeTask(db, { taskId: 'blocked', actorId: 'alice', actorName: 'Alice' }, now)
+    ).resolves.toMatchObject({ points: 150 });
+  });
+
+  it('rolls a recurring task over to its next occurrence', async () => {
+    await createTask('recurring', {
+      ...weekly,
+      subtasks: [{ id: 's1', title: 'Collect numbers', done: true, dueDate: Timestamp.fromDate(new Date(2026, 1, 4, 12, 0)) }],
+      checklist: [{ id: 'c1', text: 'Send to client', done: true }],
+      loggedMinutes: 45,
+    });
+
+    const result = await completeTask(db, { taskId: 'recurring', actorId: 'alice', actorName: 'Alice' }, now);
+
+    const nextDue = new Date(2026, 1, 12, 17, 0);
+    expect(result.nextDueDate).toBe(nextDue.toISOString());
+    expect(result.seriesCompleted).toBe(false);
+    expect(result.completionCount).toBe(1);
+
+    const task = await getTask('recurring');
+    expect(task.status).toBe('pending');
+    expect(task.isRecurring).toBe(true);
+    expect(task.dueDate.toDate()).toEqual(nextDue);
+    expect(task.completionCount).toBe(1);
+    expect(task.lastCompletedDate.toDate()).toEqual(now);
+    expect(task.loggedMinutes).toBe(0);
+    expect(task.subtasks[0].done).toBe(false);
+    expect(task.subtasks[0].dueDate.toDate()).toEqual(new Date(2026, 1, 11, 12, 0));
+    expect(task.checklist[0].done).toBe(false);
+
+    const completions = await getCompletions('recurring');
+    expect(completions).toHaveLength(1);
+    expect(completions[0]).toMatchObject({ assignedTo: 'alice', isRecurringCompletion: true, occurrenceNumber: 1 });
+  });
+
+  it('ends a recurring series when the next occurrence is past its end date', async () => {
+    await createTask('ending', {
+      ...weekly,
+      completionCount: 4,
+      recurringEndDate: Timestamp.fromDate(new Date(2026, 1, 10)),
+    });
+
+    const result = await completeTask(db, { taskId: 'ending', actorId: 'alice', actorName: 'Alice' }, now);
+
+    expect(result.seriesCompleted).toBe(true);
+    expect(result.nextDueDate).toBeNull();
+    const task = await getTask('ending');
+    expect(task.status).toBe('completed');
+    expect(task.isRecurring).toBe(false);
+    expect(task.completionCount).toBe(5);
+  });
+
+  it('adds the points and completion time to the assignee stats', async () => {
+    await createTask('scored');
+    await db.collection('userStats').doc('alice').set({
+      userId: 'alice',
+      tasksCompleted: 2,
+      totalPoints: 100,
+      totalCompletionTime: 10,
+      totalTasksAssigned: 3,
+    });
+
+    const result = await completeTask(db, { taskId: 'scored', actorId: 'alice', actorName: 'Alice' }, now);
+
+    // Completed 31 hours before the due date, the top tier of the default policy.
+    expect(result.points).toBe(150);
+    expect(result.isEarly).toBe(true);
+    expect(await getStats('alice')).toMatchObject({
+      tasksCompleted: 3,
+      totalPoints: 250,
+      totalCompletionTime: 35,
+      averageCompletionTime: 35 / 3,
+      totalTasksAssigned: 3,
+    });
+    expect((await getTask('scored')).status).toBe('completed');
+  });
+
+  it('does not credit stats when someone else closes the task', async () => {
+    await createTask('closed-by-admin');
+
+    await completeTask(db, { taskId: 'closed-by-admin', actorId: 'admin', actorName: 'Admin' }, now);
+
+    expect(await getCompletions('closed-by-admin')).toHaveLength(1);
+    expect(await getStats('alice')).toBeUndefined();
+  });
+
+  it('scores an approval at the submission time and credits the submitter', async () => {
+    await createTask('reviewed', { requiresReview: true, reviewerId: 'lead' });
+
+    const submitted = await completeTask(db, { taskId: 'reviewed', actorId: 'alice', actorName: 'Alice' }, now);
+    expect(submitted.inReview).toBe(true);
+    expect(await getTask('reviewed')).toMatchObject({ status: 'in-review', submittedBy: 'alice' });
+    expect(await getCompletions('reviewed')).toHaveLength(0);
+
+    // Approved the day after the due date; the points still reflect the submission.
+    const approvedAt = new Date(2026, 1, 6, 9, 0);
+    const approved = await completeTask(db, { taskId: 'reviewed', actorId: 'lead', actorName: 'Lead' }, approvedAt);
+
+    expect(approved.points).toBe(150);
+    expect(approved.isEarly).toBe(true);
+    const task = await getTask('reviewed');
+    expect(task.status).toBe('completed');
+    expect(task.completedAt.toDate()).toEqual(now);
+    const completions = await getCompletions('reviewed');
+    expect(completions).toHaveLength(1);
+    expect(completions[0].completedAt.toDate()).toEqual(now);
+    expect(completions[0]).toMatchObject({ assignedTo: 'alice', completionTimeHours: 25, approvedBy: 'lead' });
+    expect(completions[0].approvedAt.toDate()).toEqual(approvedAt);
+    expect(await getStats('alice')).toMatchObject({ tasksCompleted: 1, totalPoints: 150, totalCompletionTime: 25 });
+    expect(await getStats('lead')).toBeUndefined();
+  });
+
+  it('only lets the creator or reviewer approve a task in review', async () => {
+    await createTask('reviewed', { requiresReview: true, reviewerId: 'lead' });
+    await completeTask(db, { taskId: 'reviewed', actorId: 'alice', actorName: 'Alice' }, now);
+
+    for (const actorId of ['alice', 'bob']) {
+      await expect(
+        completeTask(db, { taskId: 'reviewed', actorId, actorName: actorId }, now)
+      ).rejects.toMatchObject({ code: 'permission-denied' });
+    }
+    expect((await getTask('reviewed')).status).toBe('in-review');
+    expect(await getCompletions('reviewed')).toHaveLength(0);
+
+    await expect(
+      completeTask(db, { taskId: 'reviewed', actorId: 'manager', actorName: 'Manager' }, now)
+    ).resolves.toMatchObject({ inReview: false });
+  });
+
+  it('scores a shared task once every assignee has finished their part', async () => {
+    await createTask('shared', { assignedTo: ['alice', 'bob'], assigneeNames: { alice: 'Alice', bob: 'Bob' } });
+
+    const first = await completeTask(db, { taskId: 'shared', actorId: 'alice', actorName: 'Alice' }, now);
+    expect(first.remainingAssignees).toBe(1);
+    expect(first.points).toBe(0);
+    expect((await getTask('shared')).status).toBe('in-progress');
+    expect(await getCompletions('shared')).toHaveLength(0);
+    expect(await getStats('alice')).toBeUndefined();
+
+    await expect(
+      completeTask(db, { taskId: 'shared', actorId: 'alice', actorName: 'Alice' }, now)
+    ).rejects.toMatchObject({ code: 'failed-precondition' });
+
+    const second = await completeTask(db, { taskId: 'shared', actorId: 'bob', actorName: 'Bob' }, now);
+    expect(second.remainingAssignees).toBe(0);
+    expect(second.points).toBe(150);
+    expect((await getTask('shared')).status).toBe('completed');
+    expect(await getCompletions('shared')).toHaveLength(2);
+    expect(await getStats('alice')).toMatchObject({ tasksCompleted: 1, totalPoints: 75 });
+    expect(await getStats('bob')).toMatchObject({ tasksCompleted: 1, totalPoints: 75 });
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { App } from 'firebase-admin/app';
+import { onTaskCreated, onTaskDeleted, onTaskUpdated } from '../src/counters';
+import { clearFirestore, connectEmulator, disconnectEmulator } from './emulator';
+
+let app: App;
+let db: Firestore;
+
+const now = new Date(2026, 1, 4, 10, 0);
+
+const task: DocumentData = {
+  title: 'Landing page copy',
+  assignedTo: 'alice',
+  clientId: 'acme',
+  createdAt: Timestamp.fromDate(new Date(2026, 1, 3, 9, 0)),
+  status: 'pending',
+};
+const trashed = { ...task, deletedAt: Timestamp.fromDate(now) };
+
+// Every trigger delivery has its own event id; redeliveries reuse it.
+let eventCount = 0;
+const nextEventId = () => `event-${++eventCount}`;
+
+const getTaskCount = async (clientId: string) => (await db.collection('clients').doc(clientId).get()).data()?.taskCount;
+const getAssignedCount = async (userId: string) =>
+  (await db.collection('userStats').doc(userId).get()).data()?.totalTasksAssigned;
+
+beforeAll(() => {
+  ({ app, db } = connectEmulator());
+});
+
+afterAll(() => disconnectEmulator(app));
+
+beforeEach(async () => {
+  await clearFirestore();
+  await db.collection('clients').doc('acme').set({ name: 'Acme', taskCount: 2 });
+  await db.collection('clients').doc('globex').set({ name: 'Globex', taskCount: 0 });
+});
+
+describe('onTaskCreated', () => {
+  it('counts the task for its client and its assignee', async () => {
+    await db.collection('userStats').doc('alice').set({ userId: 'alice', totalTasksAssigned: 4 });
+
+    await onTaskCreated(db, nextEventId(), task, now);
+
+    expect(await getTaskCount('acme')).toBe(3);
+    expect((await db.collection('clients').doc('acme').get()).data()?.lastTaskAssigned).toEqual(task.createdAt);
+    expect(await getAssignedCount('alice')).toBe(5);
+  });
+
+  it('counts a shared task for every assignee', async () => {
+    await onTaskCreated(db, nextEventId(), { ...task, assignedTo: ['alice', 'bob'] }, now);
+
+    expect(await getTaskCount('acme')).toBe(3);
+    expect(await getAssignedCount('alice')).toBe(1);
+    expect(await getAssignedCount('bob')).toBe(1);
+  });
+
+  it('counts a redelivered event once', async () => {
+    const eventId = nextEventId();
+
+    await onTaskCreated(db, eventId, task, now);
+    await onTaskCreated(db, eventId, task, now);
+
+    expect(await getTaskCount('acme')).toBe(3);
+    expect(await getAssignedCount('alice')).toBe(1);
+  });
+
+  it('skips clients that no longer exist', async () => {
+    await onTaskCreated(db, nextEventId(), { ...task, clientId: 'gone' }, now);
+
+    expect((await db.collection('clients').doc('gone').get()).exists).toBe(false);
+    expect(await getAssignedCount('alice')).toBe(1);
+  });
+});
+
+describe('onTaskUpdated', () => {
+  it('takes a trashed task off its client and puts it back on restore', async () => {
+    await onTaskUpdated(db, nextEventId(), task, trashed, now);
+    expect(await getTaskCount('acme')).toBe(1);
+
+    await onTaskUpdated(db, nextEventId(), trashed, task, now);
+    expect(await getTaskCount('acme')).toBe(2);
+  });
+
+  it('moves a redelivered client change once', async () => {
+    const eventId = nextEventId();
+
+    await onTaskUpdated(db, eventId, task, { ...task, clientId: 'globex' }, now);
+    await onTaskUpdated(db, eventId, task, { ...task, clientId: 'globex' }, now);
+
+    expect(await getTaskCount('acme')).toBe(1);
+    expect(await getTaskCount('globex')).toBe(1);
+  });
+
+  it('moves the task to its new client', async () => {
+    await onTaskUpdated(db, nextEventId(), task, { ...task, clientId: 'globex' }, now);
+
+    expect(await getTaskCount('acme')).toBe(1);
+    expect(await getTaskCount('globex')).toBe(1);
+  });
+
+  it('leaves the counts alone when the client does not change', async () => {
+    await onTaskUpdated(db, nextEventId(), task, { ...task, status: 'in-progress' }, now);
+
+    expect(await getTaskCount('acme')).toBe(2);
+    expect(await getAssignedCount('alice')).toBeUndefined();
+  });
+
+  it('takes a trashed task off its assignees and puts it back on restore', async () => {
+    await db.collection('userStats').doc('alice').set({ userId: 'alice', totalTasksAssigned: 4 });
+    await db.collection('userStats').doc('bob').set({ userId: 'bob', totalTasksAssigned: 1 });
+    const shared = { ...task, assignedTo: ['alice', 'bob'] };
+
+    await onTaskUpdated(db, nextEventId(), shared, { ...shared, deletedAt: trashed.deletedAt }, now);
+    expect(await getAssignedCount('alice')).toBe(3);
+    expect(await getAssignedCount('bob')).toBe(0);
+
+    await onTaskUpdated(db, nextEventId(), { ...shared, deletedAt: trashed.deletedAt }, shared, now);
+    expect(await getAssignedCount('alice')).toBe(4);
+    expect(await getAssignedCount('bob')).toBe(1);
+  });
+
+  it('leaves the assigned counts alone when a trashed task is reassigned', async () => {
+    await onTaskUpdated(db, nextEventId(), trashed, { ...trashed, assignedTo: 'bob' }, now);
+
+    expect(await getAssignedCount('alice')).toBeUndefined();
+    expect(await getAssignedCount('bob')).toBeUndefined();
+  });
+
+  it('moves the assigned count from the old assignee to the new one', async () => {
+    await db.collection('userStats').doc('alice').set({ userId: 'alice', totalTasksAssigned: 4, tasksCompleted: 2 });
+
+    await onTaskUpdated(db, nextEventId(), task, { ...task, assignedTo: 'bob' }, now);
+
+    expect(await getAssignedCount('alice')).toBe(3);
+    expect(await getAssignedCount('bob')).toBe(1);
+    expect((await db.collection('userStats').doc('alice').get()).data()?.tasksCompleted).toBe(2);
+  });
+});
+
+describe('onTaskDeleted', () => {
+  it('takes the task off its client and its assignee', async () => {
+    await db.collection('userStats').doc('alice').set({ userId: 'alice', totalTasksAssigned: 4 });
+
+    await onTaskDeleted(db, nextEventId(), task);
+
+    expect(await getTaskCount('acme')).toBe(1);
+    expect(await getAssignedCount('alice')).toBe(3);
+  });
+
+  it('does not let a client count go below zero', async () => {
+    await onTaskDeleted(db, nextEventId(), { ...task, clientId: 'globex' });
+
+    expect(await getTaskCount('globex')).toBe(0);
+  });
+
+  it('leaves the counts alone when a trashed task is purged', async () => {
+    await db.collection('userStats').doc('alice').set({ userId: 'alice', totalTasksAssigned: 4 });
+
+    await onTaskDeleted(db, nextEventId(), trashed);
+
+    expect(await getTaskCount('acme')).toBe(2);
+    expect(await getAssignedCount('alice')).toBe(4);
+  });
+});
@@ -0,0 +1,25 @@
+import { deleteApp, initializeApp, type App } from 'firebase-admin/app';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+// Tests write and wipe whole collections, so they only ever talk to the
+// emulator. `npm test` starts one through `firebase emulators:exec`.
+const PROJECT_ID = 'demo-management-portal';
+
+export const connectEmulator = (): { app: App; db: Firestore } => {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error('FIRESTORE_EMULATOR_HOST is not set. Run the tests with `npm test`.');
+  }
+
+  const app = initializeApp({ projectId: PROJECT_ID }, `test-${Date.now()}`);
+  return { app, db: getFirestore(app) };
+};
+
+export const disconnectEmulator = (app: App) => deleteApp(app);
+
+export const clearFirestore = async () => {
+  const response = await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) throw new Error(`Could not clear the emulator: ${response.status}`);
+};
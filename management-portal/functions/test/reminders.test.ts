@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { App } from 'firebase-admin/app';
+import { isQuietTime, sendDueReminders } from '../src/reminders';
+import { clearFirestore, connectEmulator, disconnectEmulator } from './emulator';
+
+let app: App;
+let db: Firestore;
+
+// Due dates are stored the way the task form saves them, as UTC midnight of
+// the picked day, so the times here are UTC too. The task is due on Feb 5 and
+// its day ends at Feb 6 00:00 UTC.
+const at = (iso: string) => new Date(`${iso}Z`);
+
+const createTask = async (id: string, fields: DocumentData = {}) => {
+  await db.collection('tasks').doc(id).set({
+    title: 'Landing page copy',
+    assignedTo: 'alice',
+    status: 'pending',
+    dueDate: Timestamp.fromDate(new Date('2026-02-05')),
+    ...fields,
+  });
+};
+
+const getNotifications = async () =>
+  (await db.collection('notifications').orderBy('createdAt').get()).docs.map(d => d.data());
+const getSentStages = async (id: string) =>
+  (await db.collection('reminderLog').doc(id).get()).data()?.sent;
+const taskLogId = `task_landing_${at('2026-02-06T00:00').getTime()}_alice`;
+
+beforeAll(() => {
+  ({ app, db } = connectEmulator());
+});
+
+afterAll(() => disconnectEmulator(app));
+
+beforeEach(() => clearFirestore());
+
+describe('isQuietTime', () => {
+  it('handles quiet hours within a day and ones that wrap past midnight', () => {
+    const lunch = { start: '12:00', end: '14:00', timeZone: 'UTC' };
+    expect(isQuietTime(lunch, at('2026-02-05T13:00'))).toBe(true);
+    expect(isQuietTime(lunch, at('2026-02-05T14:00'))).toBe(false);
+
+    const night = { start: '22:00', end: '07:00', timeZone: 'UTC' };
+    expect(isQuietTime(night, at('2026-02-05T23:00'))).toBe(true);
+    expect(isQuietTime(night, at('2026-02-06T06:59'))).toBe(true);
+    expect(isQuietTime(night, at('2026-02-06T07:00'))).toBe(false);
+    expect(isQuietTime(night, at('2026-02-05T21:59'))).toBe(false);
+  });
+
+  it('reads the wall clock in the user\'s time zone', () => {
+    const night = { start: '22:00', end: '07:00', timeZone: 'Asia/Kolkata' };
+    expect(isQuietTime(night, at('2026-02-05T17:00'))).toBe(true); // 22:30 in Kolkata
+    expect(isQuietTime(night, at('2026-02-05T16:00'))).toBe(false);
+  });
+});
+
+describe('sendDueReminders', () => {
+  it('counts each stage back from the end of the due day', async () => {
+    await createTask('landing');
+
+    expect(await sendDueReminders(db, at('2026-02-04T23:45'))).toEqual({ sent: 0, held: 0 });
+
+    // A day before the end of Feb 5, not a day before its first minute.
+    expect(await sendDueReminders(db, at('2026-02-05T00:15'))).toEqual({ sent: 1, held: 0 });
+    expect(await getSentStages(taskLogId)).toEqual(['before-1440']);
+
+    expect(await sendDueReminders(db, at('2026-02-05T23:15'))).toEqual({ sent: 1, held: 0 });
+    expect(await getSentStages(taskLogId)).toEqual(['before-1440', 'before-60']);
+
+    expect(await sendDueReminders(db, at('2026-02-06T00:15'))).toEqual({ sent: 1, held: 0 });
+    expect(await getSentStages(taskLogId)).toEqual(['before-1440', 'before-60', 'overdue']);
+
+    const notifications = await getNotifications();
+    expect(notifications.map(n => [n.userId, n.title])).toEqual([
+      ['alice', 'Task Due Soon'],
+      ['alice', 'Task Due Soon'],
+      ['alice', 'Task Overdue'],
+    ]);
+    expect(notifications[1].message).toBe('Landing page copy is due in 45 minutes');
+    expect(notifications[2].link).toBe('/tasks?taskId=landing');
+  });
+
+  it('does not resend a stage that was already logged', async () => {
+    await createTask('landing');
+
+    expect(await sendDueReminders(db, at('2026-02-05T23:15'))).toEqual({ sent: 1, held: 0 });
+    expect(await sendDueReminders(db, at('2026-02-05T23:30'))).toEqual({ sent: 0, held: 0 });
+
+    // Stages reached before the first run are folded into one notification.
+    expect(await getSentStages(taskLogId)).toEqual(['before-1440', 'before-60']);
+    expect(await getNotifications()).toHaveLength(1);
+  });
+
+  it('skips the overdue stage when it is switched off, and deadlines past the lookback', async () => {
+    await db.collection('appSettings').doc('reminders').set({ offsetsMinutes: [60], overdue: false });
+    await createTask('landing');
+    await createTask('old', { dueDate: Timestamp.fromDate(new Date('2026-02-03')) });
+
+    expect(await sendDueReminders(db, at('2026-02-06T00:15'))).toEqual({ sent: 1, held: 0 });
+    expect(await getSentStages(taskLogId)).toEqual(['before-60']);
+    expect(await sendDueReminders(db, at('2026-02-06T01:00'))).toEqual({ sent: 0, held: 0 });
+  });
+
+  it('stops reminding about a meeting once it has started', async () => {
+    await db.collection('meetings').doc('kickoff').set({
+      title: 'Kickoff',
+      status: 'scheduled',
+      date: Timestamp.fromDate(at('2026-02-05T15:00')),
+      attendees: ['bob'],
+    });
+
+    expect(await sendDueReminders(db, at('2026-02-05T15:15'))).toEqual({ sent: 0, held: 0 });
+
+    expect(await sendDueReminders(db, at('2026-02-05T14:15'))).toEqual({ sent: 1, held: 0 });
+    expect((await getNotifications())[0]).toMatchObject({
+      userId: 'bob',
+      title: 'Meeting Reminder',
+      message: 'Kickoff starts in 45 minutes',
+      type: 'meeting',
+    });
+  });
+
+  it('holds reminders during quiet hours that wrap past midnight and sends them after', async () => {
+    await db.collection('userPreferences').doc('alice').set({
+      quietHours: { start: '22:00', end: '07:00', timeZone: 'UTC' },
+    });
+    await createTask('landing');
+
+    expect(await sendDueReminders(db, at('2026-02-05T23:15'))).toEqual({ sent: 0, held: 1 });
+    expect(await sendDueReminders(db, at('2026-02-06T06:45'))).toEqual({ sent: 0, held: 1 });
+    expect(await getSentStages(taskLogId)).toBeUndefined();
+
+    expect(await sendDueReminders(db, at('2026-02-06T07:00'))).toEqual({ sent: 1, held: 0 });
+    expect(await getSentStages(taskLogId)).toEqual(['before-1440', 'before-60', 'overdue']);
+    expect((await getNotifications()).map(n => n.title)).toEqual(['Task Overdue']);
+  });
+
+  it('holds reminders during quiet hours within the day', async () => {
+    await db.collection('userPreferences').doc('alice').set({
+      quietHours: { start: '12:00', end: '14:00', timeZone: 'UTC' },
+    });
+    await createTask('landing');
+
+    expect(await sendDueReminders(db, at('2026-02-05T13:00'))).toEqual({ sent: 0, held: 1 });
+    expect(await sendDueReminders(db, at('2026-02-05T14:00'))).toEqual({ sent: 1, held: 0 });
+    expect(await getSentStages(taskLogId)).toEqual(['before-1440']);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { App } from 'firebase-admin/app';
+import { addHours } from 'date-fns';
+import { checkSlaBreaches, findSlaRule, type SlaRule } from '../src/sla';
+import { clearFirestore, connectEmulator, disconnectEmulator } from './emulator';
+
+let app: App;
+let db: Firestore;
+
+const now = new Date(2026, 1, 4, 10, 0);
+
+const rule = (id: string, fields: Partial<SlaRule> = {}): SlaRule => ({
+  id,
+  priority: 'all',
+  clientId: null,
+  startWithinHours: null,
+  resolveWithinHours: null,
+  ...fields,
+});
+
+const createTask = async (id: string, fields: DocumentData = {}) => {
+  await db.collection('tasks').doc(id).set({
+    title: 'Landing page copy',
+    assignedTo: 'alice',
+    assignedToName: 'Alice',
+    createdBy: 'manager',
+    priority: 'high',
+    clientId: 'acme',
+    status: 'pending',
+    assignedAt: Timestamp.fromDate(new Date(2026, 1, 3, 9, 0)),
+    completionCount: 0,
+    ...fields,
+  });
+};
+
+const setRules = (rules: SlaRule[], escalateAfterHours?: number) =>
+  db.collection('appSettings').doc('slaRules').set({ rules, ...(escalateAfterHours && { escalateAfterHours }) });
+
+const getBreachIds = async () => (await db.collection('slaBreaches').get()).docs.map(d => d.id).sort();
+const getNotifications = async (title: string) =>
+  (await db.collection('notifications').where('title', '==', title).get()).docs.map(d => d.data().userId).sort();
+
+beforeAll(() => {
+  ({ app, db } = connectEmulator());
+});
+
+afterAll(() => disconnectEmulator(app));
+
+beforeEach(async () => {
+  await clearFirestore();
+  await db.collection('users').doc('admin').set({ role: 'admin' });
+  await db.collection('users').doc('manager').set({ role: 'superadmin' });
+  await db.collection('users').doc('alice').set({ role: 'member' });
+});
+
+describe('findSlaRule', () => {
+  const rules = [
+    rule('everything'),
+    rule('high', { priority: 'high' }),
+    rule('acme', { clientId: 'acme' }),
+    rule('acme-high', { clientId: 'acme', priority: 'high' }),
+  ];
+
+  it('prefers a client rule over a priority rule, and both over a catch-all', () => {
+    expect(findSlaRule(rules, { clientId: 'acme', priority: 'high' })?.id).toBe('acme-high');
+    expect(findSlaRule(rules, { clientId: 'acme', priority: 'low' })?.id).toBe('acme');
+    expect(findSlaRule(rules, { clientId: 'globex', priority: 'high' })?.id).toBe('high');
+    expect(findSlaRule(rules, { priority: 'low' })?.id).toBe('everything');
+  });
+
+  it('returns null when no rule matches', () => {
+    expect(findSlaRule([rule('acme', { clientId: 'acme' })], { clientId: 'globex', priority: 'high' })).toBeNull();
+  });
+});
+
+describe('checkSlaBreaches', () => {
+  it('records a start breach only while the task is still pending', async () => {
+    await setRules([rule('start', { startWithinHours: 4 })]);
+    await createTask('pending');
+    await createTask('started', { status: 'in-progress' });
+
+    expect(await checkSlaBreaches(db, now)).toEqual({ detected: 1, escalated: 0 });
+
+    expect(await getBreachIds()).toEqual(['pending_0_start']);
+    const breach = (await db.collection('slaBreaches').doc('pending_0_start').get()).data();
+    expect(breach).toMatchObject({ type: 'start', ruleId: 'start', escalationLevel: 1, assignedTo: ['alice'] });
+    expect(breach?.deadline.toDate()).toEqual(new Date(2026, 1, 3, 13, 0));
+    expect((await db.collection('tasks').doc('pending').get()).data()?.slaBreaches).toEqual(['start']);
+    expect(await getNotifications('SLA Breached')).toEqual(['alice', 'manager']);
+  });
+
+  it('records each missed deadline once per occurrence', async () => {
+    await setRules([rule('both', { startWithinHours: 4, resolveWithinHours: 12 })]);
+    await createTask('late');
+
+    expect(await checkSlaBreaches(db, now)).toEqual({ detected: 2, escalated: 0 });
+    expect(await checkSlaBreaches(db, addHours(now, 1))).toEqual({ detected: 0, escalated: 0 });
+    expect(await getBreachIds()).toEqual(['late_0_resolve', 'late_0_start']);
+
+    // The next occurrence of a recurring task has its own deadlines.
+    await db.collection('tasks').doc('late').update({
+      completionCount: 1,
+      status: 'in-progress',
+      assignedAt: Timestamp.fromDate(new Date(2026, 1, 3, 12, 0)),
+    });
+    expect(await checkSlaBreaches(db, addHours(now, 2))).toEqual({ detected: 1, escalated: 0 });
+    expect(await getBreachIds()).toEqual(['late_0_resolve', 'late_0_start', 'late_1_resolve']);
+  });
+
+  it('escalates to admins once the breach has been open long enough, and only once', async () => {
+    await setRules([rule('resolve', { resolveWithinHours: 12 })], 6);
+    await createTask('late');
+
+    await checkSlaBreaches(db, now);
+    expect(await checkSlaBreaches(db, addHours(now, 5))).toEqual({ detected: 0, escalated: 0 });
+    expect(await getNotifications('SLA Breach Escalated')).toEqual([]);
+
+    expect(await checkSlaBreaches(db, addHours(now, 6))).toEqual({ detected: 0, escalated: 1 });
+    const breach = (await db.collection('slaBreaches').doc('late_0_resolve').get()).data();
+    expect(breach?.escalationLevel).toBe(2);
+    expect(breach?.escalatedAt.toDate()).toEqual(addHours(now, 6));
+    // The creator already heard about the breach, so only the other admin is told.
+    expect(await getNotifications('SLA Breach Escalated')).toEqual(['admin']);
+
+    expect(await checkSlaBreaches(db, addHours(now, 30))).toEqual({ detected: 0, escalated: 0 });
+    expect(await getNotifications('SLA Breach Escalated')).toEqual(['admin']);
+  });
+
+  it('skips tasks in the trash or the archive', async () => {
+    await setRules([rule('resolve', { resolveWithinHours: 12 })]);
+    await createTask('trashed', { deletedAt: Timestamp.fromDate(now) });
+    await createTask('archived', { archivedAt: Timestamp.fromDate(now) });
+
+    expect(await checkSlaBreaches(db, now)).toEqual({ detected: 0, escalated: 0 });
+    expect(await getBreachIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { App } from 'firebase-admin/app';
+import { purgeExpiredTrash, type AttachmentBucket } from '../src/trash';
+import { clearFirestore, connectEmulator, disconnectEmulator } from './emulator';
+
+let app: App;
+let db: Firestore;
+
+const now = new Date(2026, 1, 4, 10, 0);
+const expiredAt = Timestamp.fromDate(new Date(2026, 0, 2, 9, 0));
+const recentAt = Timestamp.fromDate(new Date(2026, 0, 20, 9, 0));
+
+// Records the attachment folders the purge clears instead of touching Storage.
+let deletedPrefixes: string[];
+const bucket: AttachmentBucket = {
+  deleteFiles: async ({ prefix }) => {
+    deletedPrefixes.push(prefix);
+  },
+};
+
+const createTask = async (id: string, fields: DocumentData = {}) => {
+  await db.collection('tasks').doc(id).set({ title: id, assignedTo: 'alice', status: 'pending', ...fields });
+};
+
+const addComments = async (taskId: string, count: number) => {
+  for (let i = 0; i < count; i += 500) {
+    const batch = db.batch();
+    for (let j = i; j < Math.min(i + 500, count); j++) {
+      batch.set(db.collection('taskComments').doc(), { taskId, text: `Comment ${j}` });
+    }
+    await batch.commit();
+  }
+};
+
+const taskExists = async (id: string) => (await db.collection('tasks').doc(id).get()).exists;
+const countComments = async (taskId: string) =>
+  (await db.collection('taskComments').where('taskId', '==', taskId).count().get()).data().count;
+
+beforeAll(() => {
+  ({ app, db } = connectEmulator());
+});
+
+afterAll(() => disconnectEmulator(app));
+
+beforeEach(async () => {
+  await clearFirestore();
+  deletedPrefixes = [];
+});
+
+describe('purgeExpiredTrash', () => {
+  it('purges tasks past the retention period and keeps the rest', async () => {
+    await createTask('expired', { deletedAt: expiredAt });
+    await createTask('recent', { deletedAt: recentAt });
+    await createTask('active');
+    await addComments('expired', 2);
+    await addComments('recent', 1);
+
+    expect(await purgeExpiredTrash(db, now, bucket)).toBe(1);
+
+    expect(await taskExists('expired')).toBe(false);
+    expect(await countComments('expired')).toBe(0);
+    expect(deletedPrefixes).toEqual(['taskAttachments/expired/']);
+    expect(await taskExists('recent')).toBe(true);
+    expect(await countComments('recent')).toBe(1);
+    expect(await taskExists('active')).toBe(true);
+  });
+
+  it('deletes more comments than fit in one batch', async () => {
+    await createTask('expired', { deletedAt: expiredAt });
+    await addComments('expired', 620);
+
+    expect(await purgeExpiredTrash(db, now, bucket)).toBe(1);
+
+    expect(await taskExists('expired')).toBe(false);
+    expect(await countComments('expired')).toBe(0);
+  });
+
+  it('unlinks the purged task from the tasks it blocked or waited on', async () => {
+    await createTask('expired', { deletedAt: expiredAt, blockedBy: ['blocker'], blocks: ['dependent', 'gone'] });
+    await createTask('blocker', { blocks: ['expired'] });
+    await createTask('dependent', { blockedBy: ['expired', 'other'] });
+
+    expect(await purgeExpiredTrash(db, now, bucket)).toBe(1);
+
+    expect((await db.collection('tasks').doc('blocker').get()).data()?.blocks).toEqual([]);
+    expect((await db.collection('tasks').doc('dependent').get()).data()?.blockedBy).toEqual(['other']);
+  });
+
+  it('keeps purging the other tasks when one fails', async () => {
+    await createTask('broken', { deletedAt: expiredAt });
+    await createTask('expired', { deletedAt: expiredAt });
+    await addComments('broken', 1);
+    const failingBucket: AttachmentBucket = {
+      deleteFiles: async ({ prefix }) => {
+        if (prefix.includes('broken')) throw new Error('Storage unavailable');
+        deletedPrefixes.push(prefix);
+      },
+    };
+
+    expect(await purgeExpiredTrash(db, now, failingBucket)).toBe(1);
+
+    expect(await taskExists('expired')).toBe(false);
+    expect(deletedPrefixes).toEqual(['taskAttachments/expired/']);
+    expect(await taskExists('broken')).toBe(true);
+    expect(await countComments('broken')).toBe(1);
+  });
+});
@@ -6,6 +6,7 @@ import { Layout } from './components/layout/Layout';
 import { Login } from './pages/Login';
 import { Dashboard } from './pages/dashboard.tsx';
 import { Tasks } from './pages/Tasks';
+import { MyDay } from './pages/MyDay';
 import { Team } from './pages/Team';
 import { Clients } from './pages/Clients';
 import { ClientDetail } from './pages/ClientDetail';
@@ -13,6 +14,8 @@ import { Setup } from './pages/Setup';
 import { Meetings } from './pages/Meetings';
 import { Settings } from './pages/Settings';
 import { Reports } from './pages/Reports';
+import { Timesheets } from './pages/Timesheets';
+import { Playbooks } from './pages/Playbooks';
 import { ChatLayout } from './components/chat/ChatLayout.tsx'; // ✅ NEW - Chat System
 
 function App() {
@@ -54,6 +57,17 @@ function App() {
               }
             />
             
+            <Route
+              path="/my-day"
+              element={
+                <ProtectedRoute allowedRoles={['superadmin', 'admin', 'member']}>
+                  <Layout>
+                    <MyDay />
+                  </Layout>
+                </ProtectedRoute>
+              }
+            />
+            
             <Route
               path="/team"
               element={
@@ -99,6 +113,28 @@ function App() {
               }
             />
             
+            <Route
+              path="/timesheets"
+              element={
+                <ProtectedRoute allowedRoles={['superadmin', 'admin', 'member']}>
+                  <Layout>
+                    <Timesheets />
+                  </Layout>
+                </ProtectedRoute>
+              }
+            />
+            
+            <Route
+              path="/playbooks"
+              element={
+                <ProtectedRoute allowedRoles={['superadmin', 'admin']}>
+                  <Layout>
+                    <Playbooks />
+                  </Layout>
+                </ProtectedRoute>
+              }
+            />
+            
             <Route
               path="/reports"
               element={
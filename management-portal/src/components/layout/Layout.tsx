@@ -10,9 +10,12 @@ import {
   onSnapshot,
   updateDoc,
   doc,
+  documentId,
   Timestamp 
 } from 'firebase/firestore';
 import { db } from '../../config/firebase';
+import { getSavedViewLink, mapSavedViewDoc } from '../../utils/savedViews';
+import type { SavedView } from '../../types';
 import { TeamChatDrawer } from '../chat/TeamChatDrawer';
 import { 
   LayoutDashboard, 
@@ -30,7 +33,11 @@ import {
   Star,
   BellDot,
   CheckCheck,
-  MessageCircle
+  MessageCircle,
+  ClipboardCheck,
+  Layers,
+  Bookmark,
+  Sun
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -45,6 +52,7 @@ interface Notification {
   read: boolean;
   createdAt: Timestamp;
   userId: string;
+  link?: string;
 }
 
 export const Layout = ({ children }: LayoutProps) => {
@@ -58,6 +66,8 @@ export const Layout = ({ children }: LayoutProps) => {
   const [chatOpen, setChatOpen] = useState(false);
   const [unreadChatCount, setUnreadChatCount] = useState(0);
   const [lastReadChatTime, setLastReadChatTime] = useState<Date>(new Date());
+  const [pinnedViewIds, setPinnedViewIds] = useState<string[]>([]);
+  const [pinnedViews, setPinnedViews] = useState<SavedView[]>([]);
 
   // Real-time notifications listener
   useEffect(() => {
@@ -106,6 +116,30 @@ export const Layout = ({ children }: LayoutProps) => {
     return () => unsubscribe();
   }, [currentUser, lastReadChatTime]);
 
+  // Saved task views the user pinned from the Tasks page
+  useEffect(() => {
+    if (!currentUser?.uid) return;
+
+    const unsubscribe = onSnapshot(doc(db, 'userPreferences', currentUser.uid), (snapshot) => {
+      setPinnedViewIds(snapshot.data()?.pinnedViewIds || []);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (pinnedViewIds.length === 0) return;
+
+    // Firestore caps "in" queries at 30 values.
+    const q = query(collection(db, 'savedViews'), where(documentId(), 'in', pinnedViewIds.slice(0, 30)));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const views = snapshot.docs.map(d => mapSavedViewDoc(d.id, d.data()));
+      setPinnedViews(views.sort((a, b) => a.name.localeCompare(b.name)));
+    });
+
+    return () => unsubscribe();
+  }, [pinnedViewIds]);
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -184,10 +218,13 @@ export const Layout = ({ children }: LayoutProps) => {
   // Navigation items with Clients
   const navItems = [
     { path: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
+    { path: '/my-day', icon: Sun, label: 'My Day' },
     { path: '/tasks', icon: CheckSquare, label: 'Tasks' },
     { path: '/team', icon: Users, label: 'Team' },
     { path: '/clients', icon: Building2, label: 'Clients' },
     { path: '/meetings', icon: Calendar, label: 'Meetings' },
+    { path: '/timesheets', icon: ClipboardCheck, label: 'Timesheets' },
+    { path: '/playbooks', icon: Layers, label: 'Playbooks' },
     { path: '/reports', icon: Star, label: 'Reports' },
     { path: 'chat', icon: MessageCircle, label: 'Team Chat', isChat: true },
     { path: '/settings', icon: Settings, label: 'Settings' },
@@ -276,6 +313,36 @@ export const Layout = ({ children }: LayoutProps) => {
                 );
               })}
             </div>
+
+            {pinnedViewIds.length > 0 && pinnedViews.length > 0 && (
+              <div className="mt-6">
+                <p className="px-4 mb-2 text-xs font-semibold text-gray-400 uppercase tracking-wide">Saved Views</p>
+                <div className="space-y-1">
+                  {pinnedViews.filter(v => pinnedViewIds.includes(v.id)).map((view) => {
+                    const link = getSavedViewLink(view.filters);
+                    const isActive = `${location.pathname}${location.search}` === link;
+
+                    return (
+                      <Link
+                        key={view.id}
+                        to={link}
+                        onClick={closeMobileMenu}
+                        className={`
+                          flex items-center space-x-3 px-4 py-2 rounded-lg text-sm transition-all
+                          ${isActive
+                            ? 'bg-primary-50 text-primary-600 font-medium'
+                            : 'text-gray-600 hover:bg-gray-50'
+                          }
+                        `}
+                      >
+                        <Bookmark className="h-4 w-4 flex-shrink-0" />
+                        <span className="truncate">{view.name}</span>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </nav>
 
           <div className="border-t border-gray-200 p-4 flex-shrink-0">
@@ -433,6 +500,10 @@ export const Layout = ({ children }: LayoutProps) => {
                         if (!notification.read) {
                           markAsRead(notification.id);
                         }
+                        if (notification.link) {
+                          setIsNotificationOpen(false);
+                          navigate(notification.link);
+                        }
                       }}
                     >
                       <div className="flex items-start space-x-3">
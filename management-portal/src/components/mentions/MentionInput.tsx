@@ -0,0 +1,116 @@
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { getMentionQuery } from '../../utils/mentions';
+import type { User } from '../../types';
+
+interface MentionInputProps {
+  value: string;
+  users: Pick<User, 'uid' | 'displayName' | 'role'>[];
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const MentionInput = ({
+  value,
+  users,
+  onChange,
+  onSubmit,
+  placeholder,
+  disabled,
+  className = ''
+}: MentionInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = mention
+    ? users
+      .filter(u => u.displayName?.toLowerCase().includes(mention.query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text.slice(0, caret)));
+    setActiveIndex(0);
+  };
+
+  const selectUser = (user: Pick<User, 'displayName'>) => {
+    if (!mention) return;
+    const caret = inputRef.current?.selectionStart ?? value.length;
+    const inserted = `@${user.displayName} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret);
+    onChange(next);
+    setMention(null);
+
+    const nextCaret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectUser(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) onSubmit();
+  };
+
+  return (
+    <div className="relative flex-1">
+      {suggestions.length > 0 && (
+        <ul className="absolute bottom-full left-0 mb-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
+          {suggestions.map((user, index) => (
+            <li key={user.uid}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectUser(user);
+                }}
+                className={`w-full flex items-center justify-between px-3 py-2 text-sm text-left ${
+                  index === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{user.displayName}</span>
+                <span className="text-xs text-gray-400 ml-2">{user.role}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart ?? e.target.value.length);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        placeholder={placeholder}
+        className={className}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
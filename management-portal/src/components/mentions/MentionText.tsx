@@ -0,0 +1,30 @@
+import { parseMentions } from '../../utils/mentions';
+
+interface MentionTextProps {
+  text: string;
+  currentUserId?: string;
+  chipClassName?: string;
+}
+
+export const MentionText = ({
+  text,
+  currentUserId,
+  chipClassName = 'bg-primary-100 text-primary-700'
+}: MentionTextProps) => (
+  <>
+    {parseMentions(text).map((segment, index) =>
+      segment.type === 'mention' ? (
+        <span
+          key={index}
+          className={`inline-block px-1.5 rounded-md font-medium ${chipClassName} ${
+            segment.userId === currentUserId ? 'ring-1 ring-current' : ''
+          }`}
+        >
+          @{segment.name}
+        </span>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </>
+);
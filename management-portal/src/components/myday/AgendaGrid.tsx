@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Calendar, CheckCircle, CornerDownRight, X } from 'lucide-react';
+import { BLOCK_DURATIONS, getAgendaSlots, getBlockEnd, SLOT_MINUTES } from '../../utils/dayPlans';
+import type { Meeting, PlanBlock } from '../../types';
+
+interface AgendaGridProps {
+  blocks: PlanBlock[];
+  meetings: Meeting[];
+  isFinished: (block: PlanBlock) => boolean;
+  onDropAt: (slot: string) => void; // whatever is being dragged lands on this slot
+  onDragBlock: (blockId: string | null) => void;
+  onChangeDuration: (blockId: string, minutes: number) => void;
+  onRemove: (blockId: string) => void;
+  onComplete: (block: PlanBlock) => void;
+}
+
+const SLOT_HEIGHT = 48; // px, matches h-12 on each row
+
+export const AgendaGrid = ({
+  blocks,
+  meetings,
+  isFinished,
+  onDropAt,
+  onDragBlock,
+  onChangeDuration,
+  onRemove,
+  onComplete,
+}: AgendaGridProps) => {
+  const [dropSlot, setDropSlot] = useState<string | null>(null);
+  const slots = getAgendaSlots();
+
+  // Items outside the agenda hours are pinned to the nearest edge.
+  const getTop = (time: string) => {
+    const index = slots.findIndex(slot => slot > time);
+    const row = index === -1 ? slots.length - 1 : Math.max(0, index - 1);
+    return row * SLOT_HEIGHT;
+  };
+
+  return (
+    <div className="relative">
+      {slots.map(slot => (
+        <div
+          key={slot}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropSlot(slot);
+          }}
+          onDragLeave={() => setDropSlot(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDropSlot(null);
+            onDropAt(slot);
+          }}
+          className={`h-12 flex border-t border-gray-100 ${dropSlot === slot ? 'bg-primary-50' : ''}`}
+        >
+          <span className={`w-14 flex-shrink-0 -mt-2 text-xs ${slot.endsWith(':00') ? 'text-gray-500' : 'text-transparent'}`}>
+            {slot}
+          </span>
+        </div>
+      ))}
+
+      {meetings.map(meeting => (
+        <div
+          key={meeting.id}
+          style={{ top: getTop(format(meeting.date, 'HH:mm')), height: SLOT_HEIGHT - 4 }}
+          className="absolute right-2 w-1/3 mt-0.5 px-2 py-1 bg-purple-50 border border-purple-200 rounded-lg text-xs text-purple-800 overflow-hidden pointer-events-none"
+        >
+          <p className="font-medium truncate flex items-center">
+            <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
+            {meeting.title}
+          </p>
+          <p className="text-purple-600">{format(meeting.date, 'HH:mm')}{meeting.location && ` · ${meeting.location}`}</p>
+        </div>
+      ))}
+
+      {blocks.map(block => {
+        const finished = isFinished(block);
+        return (
+          <div
+            key={block.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              onDragBlock(block.id);
+            }}
+            onDragEnd={() => onDragBlock(null)}
+            style={{
+              top: getTop(block.start),
+              height: Math.max(1, block.durationMinutes / SLOT_MINUTES) * SLOT_HEIGHT - 4,
+            }}
+            className={`absolute left-16 right-[36%] mt-0.5 px-3 py-1.5 rounded-lg border text-sm overflow-hidden cursor-move ${
+              finished ? 'bg-green-50 border-green-200' : 'bg-white border-primary-200 shadow-sm'
+            }`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className={`font-medium truncate ${finished ? 'text-green-800 line-through' : 'text-gray-900'}`}>
+                  {block.title}
+                </p>
+                <p className="text-xs text-gray-500 flex items-center">
+                  {block.start}–{getBlockEnd(block)}
+                  {block.carriedFrom && (
+                    <span className="ml-2 flex items-center text-amber-700" title={`Carried over from ${block.carriedFrom}`}>
+                      <CornerDownRight className="h-3 w-3 mr-0.5" />
+                      carried
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <select
+                  value={block.durationMinutes}
+                  onChange={(e) => onChangeDuration(block.id, Number(e.target.value))}
+                  className="text-xs border border-gray-200 rounded px-1 py-0.5"
+                  title="Duration"
+                >
+                  {BLOCK_DURATIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}</option>
+                  ))}
+                </select>
+                {!finished && (
+                  <button onClick={() => onComplete(block)} className="p-1 text-green-600 hover:bg-green-50 rounded" title="Mark done">
+                    <CheckCircle className="h-4 w-4" />
+                  </button>
+                )}
+                <button onClick={() => onRemove(block.id)} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Remove from agenda">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
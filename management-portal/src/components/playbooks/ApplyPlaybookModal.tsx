@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { Layers, X } from 'lucide-react';
+import { db } from '../../config/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  applyPlaybook,
+  getDefaultAssignee,
+  getPlaybooks,
+  getPlaybookTemplates,
+  getTemplateDueDate,
+  getTemplates
+} from '../../utils/templates';
+import type { Playbook, TaskTemplate, User } from '../../types';
+
+interface ApplyPlaybookModalProps {
+  // When set the playbook is applied to this client; otherwise the user picks one.
+  client?: { id: string; name: string } | null;
+  clients?: { id: string; name: string }[];
+  onClose: () => void;
+  onApplied: (count: number) => void;
+}
+
+export const ApplyPlaybookModal = ({ client, clients = [], onClose, onApplied }: ApplyPlaybookModalProps) => {
+  const { currentUser, userData } = useAuth();
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [playbookId, setPlaybookId] = useState('');
+  const [clientId, setClientId] = useState(client?.id || '');
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [assigneeIds, setAssigneeIds] = useState<Record<string, string>>({});
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [playbookList, templateList, usersSnapshot] = await Promise.all([
+          getPlaybooks(),
+          getTemplates(),
+          getDocs(collection(db, 'users')),
+        ]);
+        setPlaybooks(playbookList);
+        setTemplates(templateList);
+        setUsers(usersSnapshot.docs.map(d => ({ uid: d.id, ...d.data() })) as User[]);
+      } catch (error) {
+        console.error('Error loading playbooks:', error);
+        setError('Failed to load playbooks');
+      }
+    };
+    load();
+  }, []);
+
+  const playbook = playbooks.find(p => p.id === playbookId) || null;
+  const playbookTemplates = playbook ? getPlaybookTemplates(playbook, templates) : [];
+  const start = new Date(startDate);
+
+  const selectPlaybook = (id: string) => {
+    setPlaybookId(id);
+    const selected = playbooks.find(p => p.id === id);
+    if (!selected) return;
+
+    const defaults: Record<string, string> = {};
+    getPlaybookTemplates(selected, templates).forEach((template) => {
+      const assignee = getDefaultAssignee(template, users);
+      if (assignee) defaults[template.id] = assignee.uid;
+    });
+    setAssigneeIds(defaults);
+  };
+
+  const handleApply = async () => {
+    if (!currentUser || !playbook) return;
+    if (!startDate) {
+      setError('Please pick a start date');
+      return;
+    }
+    if (playbookTemplates.some(t => !assigneeIds[t.id])) {
+      setError('Please choose an assignee for every task');
+      return;
+    }
+
+    const selectedClient = client || clients.find(c => c.id === clientId) || null;
+    const assignees: Record<string, User> = {};
+    playbookTemplates.forEach((t) => {
+      const user = users.find(u => u.uid === assigneeIds[t.id]);
+      if (user) assignees[t.id] = user;
+    });
+
+    setApplying(true);
+    setError('');
+    try {
+      const count = await applyPlaybook({
+        playbook,
+        templates,
+        assignees,
+        client: selectedClient ? { id: selectedClient.id, name: selectedClient.name } : null,
+        startDate: start,
+        creator: { uid: currentUser.uid, displayName: userData?.displayName },
+      });
+      onApplied(count);
+    } catch (error) {
+      console.error('Error applying playbook:', error);
+      setError('Failed to apply playbook');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center">
+              <Layers className="w-5 h-5 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Apply Playbook</h2>
+              {client && <p className="text-sm text-gray-500">{client.name}</p>}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">{error}</div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Playbook *</label>
+              <select value={playbookId} onChange={(e) => selectPlaybook(e.target.value)} className={inputClass}>
+                <option value="">Select a playbook</option>
+                {playbooks.map(p => (
+                  <option key={p.id} value={p.id}>{p.name} ({p.templateIds.length})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start Date *</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {!client && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Client</label>
+              <select value={clientId} onChange={(e) => setClientId(e.target.value)} className={inputClass}>
+                <option value="">No client</option>
+                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          {playbook && (
+            <div>
+              {playbook.description && <p className="text-sm text-gray-600 mb-3">{playbook.description}</p>}
+              {playbookTemplates.length === 0 ? (
+                <p className="text-sm text-gray-500">This playbook has no templates yet.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {playbookTemplates.map((template) => (
+                    <div key={template.id} className="p-3 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{template.title}</p>
+                        <p className="text-xs text-gray-500">
+                          Due {startDate ? format(getTemplateDueDate(template, start), 'MMM d, yyyy') : '—'}
+                          {' • '}
+                          <span className="capitalize">{template.priority}</span> priority
+                        </p>
+                      </div>
+                      <select
+                        value={assigneeIds[template.id] || ''}
+                        onChange={(e) => setAssigneeIds({ ...assigneeIds, [template.id]: e.target.value })}
+                        className="w-48 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="">Assign to...</option>
+                        {users.map(u => (
+                          <option key={u.uid} value={u.uid}>{u.displayName} ({u.role})</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-gray-700 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={applying || !playbook || playbookTemplates.length === 0}
+              className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {applying ? 'Creating...' : `Create ${playbookTemplates.length} Task${playbookTemplates.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { CUSTOM_FIELD_TYPES, getCustomFields, saveCustomFields } from '../../utils/taskFields';
+import { createItemId } from '../../utils/subtasks';
+import type { CustomFieldDefinition, CustomFieldType } from '../../types';
+
+interface CustomFieldManagerProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export const CustomFieldManager = ({ onSuccess, onError }: CustomFieldManagerProps) => {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getCustomFields().then(setFields);
+  }, []);
+
+  const parseOptions = (text: string) => [...new Set(text.split(',').map(o => o.trim()).filter(Boolean))];
+
+  const addField = () => {
+    const name = newName.trim();
+    if (!name || fields.some(f => f.name.toLowerCase() === name.toLowerCase())) return;
+    if (newType === 'dropdown' && parseOptions(newOptions).length === 0) {
+      onError('Dropdown fields need at least one option');
+      return;
+    }
+
+    setFields([...fields, {
+      id: createItemId(),
+      name,
+      type: newType,
+      ...(newType === 'dropdown' && { options: parseOptions(newOptions) }),
+    }]);
+    setNewName('');
+    setNewOptions('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveCustomFields(fields);
+      onSuccess('Custom fields saved');
+    } catch (error) {
+      console.error('Error saving custom fields:', error);
+      onError('Failed to save custom fields');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Custom Task Fields</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Extra fields shown on every task. Values already saved on tasks are kept if a field is removed, but they are no longer shown.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-4">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Field name"
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as CustomFieldType)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          {CUSTOM_FIELD_TYPES.map(t => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={newOptions}
+          onChange={(e) => setNewOptions(e.target.value)}
+          placeholder="Options, comma separated"
+          disabled={newType !== 'dropdown'}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+        />
+        <button onClick={addField} disabled={!newName.trim()} className="btn-primary flex items-center justify-center disabled:opacity-50">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No custom fields yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {fields.map((field) => (
+            <li key={field.id} className="flex items-center justify-between py-2">
+              <div>
+                <span className="text-sm font-medium text-gray-900">{field.name}</span>
+                <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">
+                  {CUSTOM_FIELD_TYPES.find(t => t.value === field.type)?.label}
+                </span>
+                {field.options && (
+                  <span className="ml-2 text-xs text-gray-500">{field.options.join(', ')}</span>
+                )}
+              </div>
+              <button
+                onClick={() => setFields(fields.filter(f => f.id !== field.id))}
+                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+                title="Remove field"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={handleSave} disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Fields'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { getHolidays, saveHolidays } from '../../utils/recurrence';
+
+interface HolidayCalendarProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export const HolidayCalendar = ({ onSuccess, onError }: HolidayCalendarProps) => {
+  const [dates, setDates] = useState<string[]>([]);
+  const [newDate, setNewDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getHolidays().then((holidays) => setDates([...holidays].sort()));
+  }, []);
+
+  const addDate = () => {
+    if (!newDate || dates.includes(newDate)) return;
+    setDates([...dates, newDate].sort());
+    setNewDate('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveHolidays(dates);
+      onSuccess('Holiday calendar saved');
+    } catch (error) {
+      console.error('Error saving holidays:', error);
+      onError('Failed to save holiday calendar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Company Holidays</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Recurring tasks set to skip holidays move to the next matching day. Holidays also count as non-business days for "last business day" schedules.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="date"
+          value={newDate}
+          onChange={(e) => setNewDate(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button onClick={addDate} disabled={!newDate} className="btn-primary flex items-center disabled:opacity-50">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </div>
+
+      {dates.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No holidays added yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {dates.map((date) => (
+            <li key={date} className="flex items-center justify-between py-2">
+              <span className="text-sm text-gray-900">{format(parseISO(date), 'EEEE, MMM d, yyyy')}</span>
+              <button
+                onClick={() => setDates(dates.filter(d => d !== date))}
+                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+                title="Remove holiday"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={handleSave} disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Holidays'}
+        </button>
+      </div>
+    </div>
+  );
+};
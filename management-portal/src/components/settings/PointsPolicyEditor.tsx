@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react';
+import { addHours, format } from 'date-fns';
+import { Calculator, History, Plus, Save, Trash2 } from 'lucide-react';
+import type { PointsPolicy, PointsTier, TaskPriority } from '../../types';
+import {
+  calculatePoints,
+  DEFAULT_POINTS_POLICY,
+  getPointsPolicyHistory,
+  publishPointsPolicy,
+  sortTiers,
+  validatePointsPolicy,
+  type PointsPolicyDraft
+} from '../../utils/pointsPolicy';
+
+interface PointsPolicyEditorProps {
+  currentUserId: string;
+  currentUserName: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+
+const toDraft = (policy: PointsPolicy): PointsPolicyDraft => ({
+  tiers: policy.tiers.map(t => ({ ...t })),
+  fallbackPoints: policy.fallbackPoints,
+  priorityMultipliers: { ...policy.priorityMultipliers },
+  recurringMultiplier: policy.recurringMultiplier,
+  recurringFirstOccurrenceFull: policy.recurringFirstOccurrenceFull,
+  notes: '',
+});
+
+export const PointsPolicyEditor = ({ currentUserId, currentUserName, onSuccess, onError }: PointsPolicyEditorProps) => {
+  const [history, setHistory] = useState<PointsPolicy[]>([]);
+  const [draft, setDraft] = useState<PointsPolicyDraft>(toDraft(DEFAULT_POINTS_POLICY));
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState({
+    hoursBeforeDue: 24,
+    priority: 'medium' as TaskPriority,
+    isRecurring: false,
+    occurrenceNumber: 1,
+  });
+
+  const activePolicy = history[0] || DEFAULT_POINTS_POLICY;
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const fetchHistory = async () => {
+    try {
+      const policies = await getPointsPolicyHistory();
+      setHistory(policies);
+      setDraft(toDraft(policies[0] || DEFAULT_POINTS_POLICY));
+    } catch (error) {
+      console.error('Error fetching points policies:', error);
+    }
+  };
+
+  const updateTier = (index: number, changes: Partial<PointsTier>) => {
+    setDraft({
+      ...draft,
+      tiers: draft.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+    });
+  };
+
+  const addTier = () => {
+    const lowest = Math.min(...draft.tiers.map(t => t.minHoursBeforeDue), 0);
+    setDraft({ ...draft, tiers: [...draft.tiers, { minHoursBeforeDue: lowest - 12, points: 0, isEarly: false }] });
+  };
+
+  const removeTier = (index: number) => {
+    setDraft({ ...draft, tiers: draft.tiers.filter((_, i) => i !== index) });
+  };
+
+  const handlePublish = async () => {
+    const validationError = validatePointsPolicy(draft);
+    if (validationError) {
+      onError(validationError);
+      return;
+    }
+    if (!confirm('Publish this as a new points policy? It applies to all completions from now on.')) return;
+
+    setSaving(true);
+    try {
+      const version = await publishPointsPolicy(
+        { ...draft, tiers: sortTiers(draft.tiers), notes: draft.notes?.trim() || '' },
+        currentUserId,
+        currentUserName
+      );
+      await fetchHistory();
+      onSuccess(`Points policy v${version} published`);
+    } catch (error) {
+      console.error('Error publishing points policy:', error);
+      onError('Failed to publish points policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewInput = {
+    completedAt: new Date(),
+    dueDate: addHours(new Date(), preview.hoursBeforeDue),
+    priority: preview.priority,
+    isRecurring: preview.isRecurring,
+    occurrenceNumber: preview.occurrenceNumber,
+  };
+  const draftPolicy: PointsPolicy = { ...activePolicy, ...draft, version: activePolicy.version + 1 };
+  const draftResult = calculatePoints(draftPolicy, previewInput);
+  const activeResult = calculatePoints(activePolicy, previewInput);
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-semibold text-gray-900">Points Policy</h2>
+          <span className="px-2 py-1 text-xs font-medium bg-primary-50 text-primary-700 rounded-full">
+            Active: v{activePolicy.version}
+          </span>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">
+          Points are awarded by how many hours before the due date a task is completed. Publishing creates a new version; past completions keep the version they were scored with.
+        </p>
+
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Scoring Tiers</h3>
+        <div className="space-y-2 mb-3">
+          <div className="grid grid-cols-12 gap-2 text-xs text-gray-500">
+            <span className="col-span-5">Completed at least (hours before due)</span>
+            <span className="col-span-3">Points</span>
+            <span className="col-span-3">Counts as early</span>
+          </div>
+          {draft.tiers.map((tier, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="number"
+                value={tier.minHoursBeforeDue}
+                onChange={(e) => updateTier(index, { minHoursBeforeDue: parseFloat(e.target.value) || 0 })}
+                className={`col-span-5 ${inputClass}`}
+              />
+              <input
+                type="number"
+                min="0"
+                value={tier.points}
+                onChange={(e) => updateTier(index, { points: parseInt(e.target.value) || 0 })}
+                className={`col-span-3 ${inputClass}`}
+              />
+              <label className="col-span-3 flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={tier.isEarly}
+                  onChange={(e) => updateTier(index, { isEarly: e.target.checked })}
+                  className="h-4 w-4 text-primary-600 rounded"
+                />
+                Early
+              </label>
+              <button
+                onClick={() => removeTier(index)}
+                className="col-span-1 p-2 text-red-600 hover:bg-red-50 rounded"
+                title="Remove tier"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={addTier}
+          className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700 mb-6"
+        >
+          <Plus className="h-4 w-4" />
+          Add tier
+        </button>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Points when no tier matches</label>
+            <input
+              type="number"
+              min="0"
+              value={draft.fallbackPoints}
+              onChange={(e) => setDraft({ ...draft, fallbackPoints: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Usually 0 for tasks finished well past the due date.</p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Priority Multipliers</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {PRIORITIES.map(priority => (
+                <div key={priority}>
+                  <label className="block text-xs text-gray-500 capitalize mb-1">{priority}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={draft.priorityMultipliers[priority]}
+                    onChange={(e) => setDraft({
+                      ...draft,
+                      priorityMultipliers: { ...draft.priorityMultipliers, [priority]: parseFloat(e.target.value) || 0 },
+                    })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Recurring Tasks</h3>
+            <label className="block text-xs text-gray-500 mb-1">Multiplier per occurrence</label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={draft.recurringMultiplier}
+              onChange={(e) => setDraft({ ...draft, recurringMultiplier: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-2">
+              <input
+                type="checkbox"
+                checked={draft.recurringFirstOccurrenceFull}
+                onChange={(e) => setDraft({ ...draft, recurringFirstOccurrenceFull: e.target.checked })}
+                className="h-4 w-4 text-primary-600 rounded"
+              />
+              First occurrence earns full points
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Change Notes</label>
+            <textarea
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              rows={3}
+              placeholder="Why is the policy changing?"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={handlePublish}
+            disabled={saving}
+            className="btn-primary flex items-center disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Publishing...' : `Publish as v${activePolicy.version + 1}`}
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Calculator className="h-5 w-5 mr-2" />
+          Preview Calculator
+        </h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Hours before due (negative = late)</label>
+            <input
+              type="number"
+              value={preview.hoursBeforeDue}
+              onChange={(e) => setPreview({ ...preview, hoursBeforeDue: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Priority</label>
+            <select
+              value={preview.priority}
+              onChange={(e) => setPreview({ ...preview, priority: e.target.value as TaskPriority })}
+              className={inputClass}
+            >
+              {PRIORITIES.map(p => <option key={p} value={p} className="capitalize">{p}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 mt-5">
+            <input
+              type="checkbox"
+              checked={preview.isRecurring}
+              onChange={(e) => setPreview({ ...preview, isRecurring: e.target.checked })}
+              className="h-4 w-4 text-primary-600 rounded"
+            />
+            Recurring task
+          </label>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Occurrence #</label>
+            <input
+              type="number"
+              min="1"
+              value={preview.occurrenceNumber}
+              disabled={!preview.isRecurring}
+              onChange={(e) => setPreview({ ...preview, occurrenceNumber: Math.max(parseInt(e.target.value) || 1, 1) })}
+              className={`${inputClass} disabled:bg-gray-100`}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            { label: `Current (v${activePolicy.version})`, result: activeResult },
+            { label: 'Draft', result: draftResult },
+          ].map(({ label, result }) => (
+            <div key={label} className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500 mb-1">{label}</p>
+              <p className="text-2xl font-bold text-gray-900">{result.points} pts</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {result.basePoints} base × {result.multiplier.toFixed(2)}
+                {result.isEarly && ' · early'}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Version History
+          </h3>
+          <div className="space-y-2">
+            {history.map(policy => (
+              <div key={policy.version} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    v{policy.version}
+                    <span className="ml-2 font-normal text-gray-500">
+                      {policy.tiers.map(t => `${t.minHoursBeforeDue}h→${t.points}`).join(', ')}
+                    </span>
+                  </p>
+                  {policy.notes && <p className="text-gray-600 mt-1">{policy.notes}</p>}
+                </div>
+                <p className="text-xs text-gray-500 text-right whitespace-nowrap ml-4">
+                  {policy.createdByName}
+                  <br />
+                  {format(policy.createdAt, 'MMM d, yyyy')}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
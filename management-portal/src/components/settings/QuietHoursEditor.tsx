@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Moon, Save } from 'lucide-react';
+import { getUserPreferences, saveUserPreferences } from '../../utils/preferences';
+
+interface QuietHoursEditorProps {
+  userId: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export const QuietHoursEditor = ({ userId, onSuccess, onError }: QuietHoursEditorProps) => {
+  const [enabled, setEnabled] = useState(false);
+  const [start, setStart] = useState('22:00');
+  const [end, setEnd] = useState('07:00');
+  const [saving, setSaving] = useState(false);
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    getUserPreferences(userId).then(prefs => {
+      if (!prefs.quietHours) return;
+      setEnabled(true);
+      setStart(prefs.quietHours.start);
+      setEnd(prefs.quietHours.end);
+    });
+  }, [userId]);
+
+  const handleSave = async () => {
+    if (enabled && start === end) {
+      onError('Quiet hours must start and end at different times');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveUserPreferences(userId, { quietHours: enabled ? { start, end, timeZone } : null });
+      onSuccess('Quiet hours saved');
+    } catch (error) {
+      console.error('Error saving quiet hours:', error);
+      onError('Failed to save quiet hours');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Quiet Hours</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Due-date and meeting reminders that fall in this window are held and sent once it ends.
+        Other notifications still arrive as usual.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+        />
+        <Moon className="h-4 w-4 text-gray-400" />
+        Hold reminders during quiet hours
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 mb-6">
+        From
+        <input type="time" value={start} onChange={(e) => setStart(e.target.value)} disabled={!enabled} className={inputClass} />
+        to
+        <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} disabled={!enabled} className={inputClass} />
+        <span className="text-xs text-gray-500">({timeZone})</span>
+      </div>
+
+      <button onClick={handleSave} disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Saving...' : 'Save Quiet Hours'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Plus, Save, X } from 'lucide-react';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  formatReminderOffset,
+  getReminderSettings,
+  saveReminderSettings,
+  type ReminderSettings
+} from '../../utils/reminders';
+
+interface ReminderSettingsEditorProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const UNITS = [
+  { label: 'minutes', minutes: 1 },
+  { label: 'hours', minutes: 60 },
+  { label: 'days', minutes: 24 * 60 },
+];
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export const ReminderSettingsEditor = ({ onSuccess, onError }: ReminderSettingsEditorProps) => {
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [amount, setAmount] = useState('');
+  const [unitMinutes, setUnitMinutes] = useState(60);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getReminderSettings().then(setSettings);
+  }, []);
+
+  const addOffset = () => {
+    const minutes = Math.round(parseFloat(amount) * unitMinutes);
+    if (!(minutes > 0)) {
+      onError('Enter how long before the deadline to remind');
+      return;
+    }
+    if (settings.offsetsMinutes.includes(minutes)) {
+      onError('That reminder is already set');
+      return;
+    }
+
+    setSettings({ ...settings, offsetsMinutes: [...settings.offsetsMinutes, minutes].sort((a, b) => b - a) });
+    setAmount('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveReminderSettings(settings);
+      onSuccess('Reminder settings saved');
+    } catch (error) {
+      console.error('Error saving reminder settings:', error);
+      onError('Failed to save reminder settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Reminders</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Assignees are reminded before a task is due and meeting attendees before a meeting starts.
+        Reminders go out every 15 minutes.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {settings.offsetsMinutes.map(minutes => (
+          <span key={minutes} className="inline-flex items-center gap-1 px-3 py-1 bg-primary-50 text-primary-700 rounded-full text-sm">
+            {formatReminderOffset(minutes)} before
+            <button
+              onClick={() => setSettings({ ...settings, offsetsMinutes: settings.offsetsMinutes.filter(m => m !== minutes) })}
+              className="hover:text-primary-900"
+              title="Remove reminder"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ))}
+        {settings.offsetsMinutes.length === 0 && (
+          <span className="text-sm text-gray-500">No reminders before the deadline.</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          type="number"
+          min="1"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Amount"
+          className={`${inputClass} w-28`}
+        />
+        <select value={unitMinutes} onChange={(e) => setUnitMinutes(Number(e.target.value))} className={inputClass}>
+          {UNITS.map(unit => <option key={unit.label} value={unit.minutes}>{unit.label} before</option>)}
+        </select>
+        <button onClick={addOffset} className="btn-primary flex items-center">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-6">
+        <input
+          type="checkbox"
+          checked={settings.overdue}
+          onChange={(e) => setSettings({ ...settings, overdue: e.target.checked })}
+          className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+        />
+        Remind assignees again when a task becomes overdue
+      </label>
+
+      <button onClick={handleSave} disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Saving...' : 'Save Reminders'}
+      </button>
+    </div>
+  );
+};
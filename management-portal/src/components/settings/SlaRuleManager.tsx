@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { db } from '../../config/firebase';
+import { createItemId } from '../../utils/subtasks';
+import { DEFAULT_ESCALATE_AFTER_HOURS, describeSlaRule, getSlaSettings, saveSlaSettings } from '../../utils/sla';
+import type { SlaRule, TaskPriority } from '../../types';
+
+interface SlaRuleManagerProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const parseHours = (value: string) => {
+  const hours = parseFloat(value);
+  return hours > 0 ? hours : null;
+};
+
+export const SlaRuleManager = ({ onSuccess, onError }: SlaRuleManagerProps) => {
+  const [rules, setRules] = useState<SlaRule[]>([]);
+  const [escalateAfterHours, setEscalateAfterHours] = useState(String(DEFAULT_ESCALATE_AFTER_HOURS));
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [priority, setPriority] = useState<TaskPriority | 'all'>('all');
+  const [clientId, setClientId] = useState('');
+  const [startHours, setStartHours] = useState('');
+  const [resolveHours, setResolveHours] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const [settings, clientsSnapshot] = await Promise.all([
+        getSlaSettings(),
+        getDocs(collection(db, 'clients')),
+      ]);
+      setRules(settings.rules);
+      setEscalateAfterHours(String(settings.escalateAfterHours));
+      setClients(clientsSnapshot.docs.map(d => ({ id: d.id, name: d.data().name })));
+    };
+    load();
+  }, []);
+
+  const addRule = () => {
+    if (!parseHours(startHours) && !parseHours(resolveHours)) {
+      onError('Set a start or a finish time for the rule');
+      return;
+    }
+    if (rules.some(r => r.priority === priority && (r.clientId || '') === clientId)) {
+      onError('There is already a rule for this priority and client');
+      return;
+    }
+
+    setRules([...rules, {
+      id: createItemId(),
+      priority,
+      clientId: clientId || null,
+      clientName: clients.find(c => c.id === clientId)?.name || null,
+      startWithinHours: parseHours(startHours),
+      resolveWithinHours: parseHours(resolveHours),
+    }]);
+    setStartHours('');
+    setResolveHours('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSlaSettings({
+        rules,
+        escalateAfterHours: parseHours(escalateAfterHours) || DEFAULT_ESCALATE_AFTER_HOURS,
+      });
+      onSuccess('SLA rules saved');
+    } catch (error) {
+      console.error('Error saving SLA rules:', error);
+      onError('Failed to save SLA rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">SLA Rules</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Time limits counted from when a task is assigned. The most specific rule wins: client and priority,
+        then client, then priority. Breaches are checked every 30 minutes and reported to the creator and assignees.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-2 mb-4">
+        <select value={priority} onChange={(e) => setPriority(e.target.value as TaskPriority | 'all')} className={inputClass}>
+          <option value="all">Any priority</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+        <select value={clientId} onChange={(e) => setClientId(e.target.value)} className={inputClass}>
+          <option value="">Any client</option>
+          {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <input
+          type="number"
+          min="0"
+          value={startHours}
+          onChange={(e) => setStartHours(e.target.value)}
+          placeholder="Start within (h)"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0"
+          value={resolveHours}
+          onChange={(e) => setResolveHours(e.target.value)}
+          placeholder="Finish within (h)"
+          className={inputClass}
+        />
+        <button onClick={addRule} className="btn-primary flex items-center justify-center">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No SLA rules yet. Tasks are not tracked.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between py-2">
+              <div>
+                <span className="text-sm font-medium text-gray-900">
+                  {rule.priority === 'all' ? 'Any priority' : <span className="capitalize">{rule.priority} priority</span>}
+                  {' • '}
+                  {rule.clientName || 'Any client'}
+                </span>
+                <span className="ml-2 text-xs text-gray-500">{describeSlaRule(rule)}</span>
+              </div>
+              <button
+                onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+                title="Remove rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-gray-200">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Escalate to admins after
+          <input
+            type="number"
+            min="1"
+            value={escalateAfterHours}
+            onChange={(e) => setEscalateAfterHours(e.target.value)}
+            className={`${inputClass} w-20`}
+          />
+          hours still open
+        </label>
+        <button onClick={handleSave} disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  );
+};
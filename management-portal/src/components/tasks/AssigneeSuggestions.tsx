@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import {
+  getLoadColor,
+  getLoadRatio,
+  getOverloadWarnings,
+  getPeakRatio,
+  getWorkloadWeek,
+  suggestAssignees,
+  type MemberWorkload
+} from '../../utils/workload';
+import type { TaskPriority } from '../../types';
+
+interface AssigneeSuggestionsProps {
+  workloads: MemberWorkload[];
+  dueDate: Date | null;
+  priority: TaskPriority;
+  assigneeIds: string[];
+  shared: boolean;
+  onSelect?: (userId: string) => void; // leave out to show only the overload warnings
+}
+
+export const AssigneeSuggestions = ({ workloads, dueDate, priority, assigneeIds, shared, onSelect }: AssigneeSuggestionsProps) => {
+  const [skill, setSkill] = useState('');
+
+  if (workloads.length === 0) return null;
+
+  const week = dueDate ? getWorkloadWeek(dueDate) : null;
+  const skillOptions = [...new Set(workloads.flatMap(w => [w.department, ...w.skills]).filter(Boolean))].sort();
+  const suggestions = suggestAssignees(workloads, { dueDate, skill });
+  const warnings = getOverloadWarnings(workloads, { priority, dueDate, assigneeIds, shared });
+
+  return (
+    <div className="space-y-2">
+      {onSelect && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <p className="text-xs font-medium text-gray-700 flex items-center">
+              <Gauge className="h-4 w-4 mr-1.5 text-gray-400" />
+              Least loaded {week === null ? 'over the next two weeks' : 'in the week it is due'}
+            </p>
+            <select
+              value={skill}
+              onChange={(e) => setSkill(e.target.value)}
+              className="px-2 py-1 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">Any department or skill</option>
+              {skillOptions.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(workload => {
+              const ratio = week === null ? getPeakRatio(workload) : getLoadRatio(workload, week);
+              const selected = assigneeIds.includes(workload.userId);
+              return (
+                <button
+                  key={workload.userId}
+                  type="button"
+                  onClick={() => !selected && onSelect(workload.userId)}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded-full border transition-colors ${
+                    selected ? 'bg-primary-50 border-primary-200 text-primary-700' : 'bg-white border-gray-200 text-gray-700 hover:border-primary-300'
+                  }`}
+                  title={[workload.department, ...workload.skills].filter(Boolean).join(' · ')}
+                >
+                  <span className={`h-2 w-2 rounded-full ${getLoadColor(ratio)}`} />
+                  {workload.name}
+                  <span className="text-gray-500">{Math.round(ratio * 100)}%</span>
+                </button>
+              );
+            })}
+            {suggestions.length === 0 && (
+              <span className="text-xs text-gray-500">Nobody has this department or skill</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {warnings.map(warning => (
+        <p key={warning.userId} className="text-xs text-amber-700 flex items-center">
+          <AlertTriangle className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />
+          {warning.name} would be at {Math.round(warning.ratio * 100)}% of capacity for the week from {format(warning.weekStart, 'MMM d')}
+        </p>
+      ))}
+    </div>
+  );
+};
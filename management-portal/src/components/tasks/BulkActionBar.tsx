@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { AlertCircle, Archive, CalendarClock, CheckCircle, RotateCcw, Trash2, X } from 'lucide-react';
+import { TASK_STATUSES } from '../../utils/taskStatus';
+import { TRASH_RETENTION_DAYS } from '../../utils/tasks';
+import type { BulkAction, BulkResult } from '../../utils/bulkTasks';
+import type { TaskLabel, TaskPriority, TaskStatus, User } from '../../types';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  users: Pick<User, 'uid' | 'displayName'>[];
+  labels: TaskLabel[];
+  // The trash only offers restore; everything else applies to live tasks.
+  inTrash?: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onRun: (action: BulkAction, description: string) => Promise<BulkResult>;
+}
+
+const selectClass = 'px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export const BulkActionBar = ({
+  selectedCount,
+  totalCount,
+  users,
+  labels,
+  inTrash = false,
+  onSelectAll,
+  onClear,
+  onRun
+}: BulkActionBarProps) => {
+  const [shiftDays, setShiftDays] = useState('');
+  const [reassignTo, setReassignTo] = useState<Pick<User, 'uid' | 'displayName'> | null>(null);
+  const [handoffNote, setHandoffNote] = useState('');
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<{ description: string; result: BulkResult } | null>(null);
+
+  const run = async (action: BulkAction, description: string) => {
+    setRunning(true);
+    try {
+      setSummary({ description, result: await onRun(action, description) });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-5xl bg-white border border-gray-200 rounded-xl shadow-xl px-4 py-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold text-gray-900 mr-1">{selectedCount} selected</span>
+          {selectedCount < totalCount && (
+            <button onClick={onSelectAll} className="text-xs text-primary-600 hover:underline mr-2">
+              Select all {totalCount}
+            </button>
+          )}
+
+          {inTrash ? (
+            <button
+              onClick={() => run({ type: 'restore' }, 'Restore')}
+              disabled={running || selectedCount === 0}
+              className="flex items-center px-3 py-1.5 text-sm text-green-700 hover:bg-green-50 rounded-lg disabled:opacity-40"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Restore
+            </button>
+          ) : (
+            <>
+              <select
+                value=""
+                disabled={running || selectedCount === 0}
+                onChange={(e) => e.target.value && run(
+                  { type: 'status', status: e.target.value as TaskStatus },
+                  `Status → ${TASK_STATUSES.find(s => s.value === e.target.value)?.label}`
+                )}
+                className={selectClass}
+              >
+                <option value="">Status...</option>
+                {TASK_STATUSES.map(s => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+
+              <select
+                value=""
+                disabled={running || selectedCount === 0}
+                onChange={(e) => e.target.value && run(
+                  { type: 'priority', priority: e.target.value as TaskPriority },
+                  `Priority → ${e.target.value}`
+                )}
+                className={selectClass}
+              >
+                <option value="">Priority...</option>
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+
+              <select
+                value={reassignTo?.uid || ''}
+                disabled={running || selectedCount === 0}
+                onChange={(e) => setReassignTo(users.find(u => u.uid === e.target.value) || null)}
+                className={selectClass}
+              >
+                <option value="">Reassign...</option>
+                {users.map(u => (
+                  <option key={u.uid} value={u.uid}>{u.displayName}</option>
+                ))}
+              </select>
+
+              {reassignTo && (
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    value={handoffNote}
+                    onChange={(e) => setHandoffNote(e.target.value)}
+                    placeholder="Handoff note *"
+                    className={`${selectClass} w-56`}
+                  />
+                  <button
+                    onClick={async () => {
+                      await run(
+                        { type: 'reassign', assignee: reassignTo, note: handoffNote.trim() },
+                        `Reassign → ${reassignTo.displayName}`
+                      );
+                      setReassignTo(null);
+                      setHandoffNote('');
+                    }}
+                    disabled={running || selectedCount === 0 || !handoffNote.trim()}
+                    className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-40"
+                  >
+                    Reassign
+                  </button>
+                  <button
+                    onClick={() => {
+                      setReassignTo(null);
+                      setHandoffNote('');
+                    }}
+                    className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg"
+                    title="Cancel reassign"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
+              {labels.length > 0 && (
+                <select
+                  value=""
+                  disabled={running || selectedCount === 0}
+                  onChange={(e) => e.target.value && run({ type: 'label', label: e.target.value }, `Add label "${e.target.value}"`)}
+                  className={selectClass}
+                >
+                  <option value="">Add label...</option>
+                  {labels.map(l => (
+                    <option key={l.name} value={l.name}>{l.name}</option>
+                  ))}
+                </select>
+              )}
+
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  value={shiftDays}
+                  onChange={(e) => setShiftDays(e.target.value)}
+                  placeholder="± days"
+                  className={`${selectClass} w-24`}
+                />
+                <button
+                  onClick={() => {
+                    const days = parseInt(shiftDays, 10);
+                    if (days) run({ type: 'reschedule', days }, `Shift due dates by ${days > 0 ? '+' : ''}${days} day(s)`);
+                  }}
+                  disabled={running || selectedCount === 0 || !parseInt(shiftDays, 10)}
+                  className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-40"
+                  title="Shift due dates"
+                >
+                  <CalendarClock className="h-4 w-4" />
+                </button>
+              </div>
+
+              <button
+                onClick={() => run({ type: 'archive' }, 'Archive')}
+                disabled={running || selectedCount === 0}
+                className="flex items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-40"
+              >
+                <Archive className="h-4 w-4 mr-1" />
+                Archive
+              </button>
+
+              <button
+                onClick={() => {
+                  if (window.confirm(`Move ${selectedCount} task${selectedCount > 1 ? 's' : ''} to the trash? They can be restored for ${TRASH_RETENTION_DAYS} days.`)) {
+                    run({ type: 'trash' }, 'Move to trash');
+                  }
+                }}
+                disabled={running || selectedCount === 0}
+                className="flex items-center px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-40"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+            </>
+          )}
+
+          <div className="ml-auto flex items-center gap-2">
+            {running && <span className="text-xs text-gray-500">Working...</span>}
+            <button onClick={onClear} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg" title="Clear selection">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-bold text-gray-900">Bulk update finished</h2>
+                <p className="text-sm text-gray-600">{summary.description}</p>
+              </div>
+              <button onClick={() => setSummary(null)} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="h-5 w-5 text-gray-600" />
+              </button>
+            </div>
+            <div className="px-6 py-4 overflow-y-auto space-y-3">
+              <p className="flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {summary.result.succeeded.length} task{summary.result.succeeded.length === 1 ? '' : 's'} updated
+              </p>
+              {summary.result.failed.length > 0 && (
+                <div>
+                  <p className="flex items-center text-sm text-red-700 mb-2">
+                    <AlertCircle className="h-4 w-4 mr-2" />
+                    {summary.result.failed.length} failed
+                  </p>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {summary.result.failed.map(f => (
+                      <li key={f.taskId} className="px-3 py-2 text-sm">
+                        <p className="font-medium text-gray-900">{f.title}</p>
+                        <p className="text-xs text-gray-500">{f.reason}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+            <div className="px-6 py-3 border-t border-gray-200 flex justify-end">
+              <button onClick={() => setSummary(null)} className="btn-primary">Done</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
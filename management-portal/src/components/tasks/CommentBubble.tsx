@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FileText, History, Pencil, SmilePlus } from 'lucide-react';
+import { MentionText } from '../mentions/MentionText';
+import { COMMENT_REACTIONS, formatFileSize, hasReacted, isImageAttachment } from '../../utils/comments';
+import { mentionsToPlainText } from '../../utils/mentions';
+import type { TaskComment } from '../../types';
+
+interface CommentBubbleProps {
+  comment: TaskComment;
+  currentUserId?: string;
+  roleBadgeClass: string;
+  userNames: Record<string, string>;
+  onEdit: (comment: TaskComment, text: string) => Promise<void>;
+  onReact: (comment: TaskComment, emoji: string) => Promise<void>;
+}
+
+export const CommentBubble = ({
+  comment,
+  currentUserId,
+  roleBadgeClass,
+  userNames,
+  onEdit,
+  onReact
+}: CommentBubbleProps) => {
+  const isOwn = comment.sentBy === currentUserId;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+
+  const reactions = Object.entries(comment.reactions || {}).filter(([, uids]) => uids.length > 0);
+  const history = comment.editHistory || [];
+
+  const startEditing = () => {
+    setDraft(mentionsToPlainText(comment.message));
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!draft.trim() || draft.trim() === mentionsToPlainText(comment.message)) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onEdit(comment, draft.trim());
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const react = async (emoji: string) => {
+    setShowPicker(false);
+    await onReact(comment, emoji);
+  };
+
+  return (
+    <div className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+      <div
+        className={`group max-w-[70%] rounded-lg p-3 ${
+          isOwn ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-900'
+        }`}
+      >
+        <div className="flex items-center gap-2 mb-1">
+          <p className="text-xs font-semibold">{comment.sentByName}</p>
+          <span
+            className={`text-xs px-2 py-0.5 rounded ${
+              isOwn ? 'bg-primary-700 text-primary-100' : roleBadgeClass
+            }`}
+          >
+            {comment.sentByRole}
+          </span>
+          {isOwn && !editing && (
+            <button
+              onClick={startEditing}
+              className="ml-auto p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-primary-700 transition-opacity"
+              title="Edit comment"
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+
+        {editing ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  saveEdit();
+                }
+                if (e.key === 'Escape') setEditing(false);
+              }}
+              rows={2}
+              autoFocus
+              className="w-full px-2 py-1 text-sm text-gray-900 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-300"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setEditing(false)}
+                className="px-2 py-1 text-xs rounded hover:bg-primary-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveEdit}
+                disabled={saving || !draft.trim()}
+                className="px-2 py-1 text-xs rounded bg-white text-primary-700 font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        ) : comment.message && (
+          <p className="text-sm whitespace-pre-wrap break-words">
+            <MentionText
+              text={comment.message}
+              currentUserId={currentUserId}
+              chipClassName={isOwn ? 'bg-primary-500 text-white' : 'bg-primary-100 text-primary-700'}
+            />
+          </p>
+        )}
+
+        {(comment.attachments || []).length > 0 && (
+          <div className="mt-2 space-y-2">
+            {comment.attachments!.map(attachment => isImageAttachment(attachment) ? (
+              <a key={attachment.path} href={attachment.url} target="_blank" rel="noreferrer" className="block">
+                <img
+                  src={attachment.url}
+                  alt={attachment.name}
+                  className="max-h-48 rounded-md border border-black/10 object-contain bg-white"
+                />
+              </a>
+            ) : (
+              <a
+                key={attachment.path}
+                href={attachment.url}
+                target="_blank"
+                rel="noreferrer"
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-md text-xs ${
+                  isOwn ? 'bg-primary-700 hover:bg-primary-800' : 'bg-white hover:bg-gray-50 border border-gray-200'
+                }`}
+              >
+                <FileText className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">{attachment.name}</span>
+                <span className={isOwn ? 'text-primary-200' : 'text-gray-400'}>{formatFileSize(attachment.size)}</span>
+              </a>
+            ))}
+          </div>
+        )}
+
+        <div className={`flex items-center gap-2 text-xs mt-2 ${isOwn ? 'text-primary-200' : 'text-gray-500'}`}>
+          <span>{format(comment.timestamp, 'MMM d, h:mm a')}</span>
+          {comment.editedAt && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex items-center gap-1 hover:underline"
+              title={`Edited ${format(comment.editedAt, 'MMM d, h:mm a')}`}
+            >
+              <History className="h-3 w-3" />
+              edited
+            </button>
+          )}
+        </div>
+
+        {showHistory && history.length > 0 && (
+          <div className={`mt-2 pt-2 border-t space-y-1 ${isOwn ? 'border-primary-500' : 'border-gray-200'}`}>
+            {[...history].reverse().map((entry, index) => (
+              <div key={index} className="text-xs">
+                <span className={isOwn ? 'text-primary-200' : 'text-gray-400'}>
+                  {format(entry.editedAt, 'MMM d, h:mm a')}:
+                </span>{' '}
+                <span className="line-through opacity-80">{mentionsToPlainText(entry.message)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="relative flex flex-wrap items-center gap-1 mt-1">
+        {reactions.map(([emoji, uids]) => (
+          <button
+            key={emoji}
+            onClick={() => react(emoji)}
+            title={uids.map(uid => userNames[uid] || 'Unknown').join(', ')}
+            className={`px-1.5 py-0.5 rounded-full text-xs border ${
+              currentUserId && hasReacted(comment, emoji, currentUserId)
+                ? 'bg-primary-50 border-primary-300 text-primary-700'
+                : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {emoji} {uids.length}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowPicker(!showPicker)}
+          className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+          title="Add reaction"
+        >
+          <SmilePlus className="h-3.5 w-3.5" />
+        </button>
+        {showPicker && (
+          <div className={`absolute top-full mt-1 flex gap-1 p-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10 ${
+            isOwn ? 'right-0' : 'left-0'
+          }`}>
+            {COMMENT_REACTIONS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => react(emoji)}
+                className="px-1.5 py-0.5 rounded hover:bg-gray-100"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import type { CustomFieldDefinition, CustomFieldValue, User } from '../../types';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: Record<string, CustomFieldValue>;
+  users: Pick<User, 'uid' | 'displayName'>[];
+  onChange: (values: Record<string, CustomFieldValue>) => void;
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export const CustomFieldInputs = ({ fields, values, users, onChange }: CustomFieldInputsProps) => {
+  const setValue = (fieldId: string, value: CustomFieldValue) => onChange({ ...values, [fieldId]: value });
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const value = values[field.id] ?? '';
+
+    switch (field.type) {
+      case 'number':
+        return (
+          <input
+            type="number"
+            value={value}
+            onChange={(e) => setValue(field.id, e.target.value === '' ? '' : Number(e.target.value))}
+            className={inputClass}
+          />
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={value}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+      case 'dropdown':
+        return (
+          <select value={value} onChange={(e) => setValue(field.id, e.target.value)} className={inputClass}>
+            <option value="">—</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'user':
+        return (
+          <select value={value} onChange={(e) => setValue(field.id, e.target.value)} className={inputClass}>
+            <option value="">—</option>
+            {users.map(user => (
+              <option key={user.uid} value={user.uid}>{user.displayName}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+    }
+  };
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field.id}>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{field.name}</label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Link2, Lock, Plus, X } from 'lucide-react';
+import type { DependencyInfo, Task } from '../../types';
+import { isBlockerResolved, wouldCreateCycle } from '../../utils/dependencies';
+
+interface DependencyListProps {
+  task: Task;
+  lookup: Record<string, DependencyInfo>;
+  candidates: Task[];
+  canEdit: boolean;
+  onAdd: (blockerId: string) => Promise<void>;
+  onRemove: (blockerId: string) => Promise<void>;
+}
+
+export const DependencyList = ({ task, lookup, candidates, canEdit, onAdd, onRemove }: DependencyListProps) => {
+  const [blockerId, setBlockerId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const blockedBy = task.blockedBy || [];
+  const blocks = task.blocks || [];
+
+  const selectable = candidates.filter(
+    c => c.id !== task.id && !blockedBy.includes(c.id) && !wouldCreateCycle(task.id, c.id, lookup)
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderLink = (id: string, removable: boolean) => {
+    const linked = lookup[id];
+    const resolved = linked ? isBlockerResolved(linked) : true;
+
+    return (
+      <div key={id} className="flex items-center justify-between gap-2 p-2 border border-gray-200 rounded-lg">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+            resolved ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'
+          }`}>
+            {linked ? linked.status : 'removed'}
+          </span>
+          <span className="text-sm text-gray-900 truncate">{linked?.title || 'Unknown task'}</span>
+          {linked?.assignedToName && (
+            <span className="text-xs text-gray-500 truncate">· {linked.assignedToName}</span>
+          )}
+        </div>
+        {removable && canEdit && (
+          <button
+            onClick={() => run(() => onRemove(id))}
+            disabled={saving}
+            className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded"
+            title="Remove dependency"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  if (!canEdit && blockedBy.length === 0 && blocks.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+          <Lock className="h-4 w-4 mr-1" />
+          Blocked by
+        </h3>
+        <div className="space-y-2">
+          {blockedBy.length === 0 && <p className="text-xs text-gray-500">No blockers</p>}
+          {blockedBy.map(id => renderLink(id, true))}
+        </div>
+
+        {canEdit && (
+          <div className="flex gap-2 mt-2">
+            <select
+              value={blockerId}
+              onChange={(e) => setBlockerId(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">Select a blocking task...</option>
+              {selectable.map(c => (
+                <option key={c.id} value={c.id}>
+                  {c.title}{c.clientName ? ` (${c.clientName})` : ''} – {c.assignedToName}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => run(async () => {
+                await onAdd(blockerId);
+                setBlockerId('');
+              })}
+              disabled={!blockerId || saving}
+              className="px-3 py-2 text-sm text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {blocks.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+            <Link2 className="h-4 w-4 mr-1" />
+            Blocks
+          </h3>
+          <div className="space-y-2">
+            {blocks.map(id => renderLink(id, false))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { describeRecurrence } from '../../utils/recurrence';
+import {
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  importTasks,
+  readSpreadsheet,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportResult,
+  type ParsedSheet
+} from '../../utils/taskImport';
+import type { User } from '../../types';
+
+interface ImportTasksModalProps {
+  users: Pick<User, 'uid' | 'email' | 'displayName'>[];
+  clients: { id: string; name: string }[];
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+export const ImportTasksModal = ({ users, clients, onClose, onImported }: ImportTasksModalProps) => {
+  const { currentUser, userData } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+
+  const rows = sheet && mapping ? validateImportRows(sheet, mapping, users, clients) : [];
+  const validRows = rows.filter(r => r.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping && mapping[f.key] < 0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      setError('Please choose a .csv or .xlsx file');
+      return;
+    }
+
+    setError('');
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        setError('The file has a header row but no tasks');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setError('Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!currentUser || validRows.length === 0) return;
+
+    setImporting(true);
+    setProgress(0);
+    setError('');
+    try {
+      const importResult = await importTasks(
+        validRows,
+        { uid: currentUser.uid, displayName: userData?.displayName },
+        setProgress
+      );
+      setResult(importResult);
+      setStep('done');
+      if (importResult.created > 0) onImported(importResult.created);
+    } catch (error) {
+      console.error('Error importing tasks:', error);
+      setError('Failed to import tasks');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center">
+              <Upload className="w-5 h-5 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Import Tasks</h2>
+              {fileName && <p className="text-sm text-gray-500">{fileName}</p>}
+            </div>
+          </div>
+          <button onClick={onClose} disabled={importing} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">{error}</div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-xl py-12 cursor-pointer hover:border-primary-400 hover:bg-primary-50/40 transition-colors">
+              <FileSpreadsheet className="h-10 w-10 text-gray-400 mb-3" />
+              <span className="text-sm font-medium text-gray-900">Choose a CSV or Excel (.xlsx) file</span>
+              <span className="text-xs text-gray-500 mt-1">The first row must contain column headers</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {step === 'map' && sheet && mapping && (
+            <>
+              <p className="text-sm text-gray-600">
+                Match each task field to a column in your file. {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'} found.
+              </p>
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.key} className="p-3 grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {field.label}{field.required && ' *'}
+                      </p>
+                      {field.hint && <p className="text-xs text-gray-500">{field.hint}</p>}
+                    </div>
+                    <select
+                      value={mapping[field.key]}
+                      onChange={(e) => setMapping({ ...mapping, [field.key]: parseInt(e.target.value, 10) })}
+                      className={selectClass}
+                    >
+                      <option value={-1}>{field.required ? 'Select a column...' : "Don't import"}</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                          {sheet.rows[0]?.[index] ? ` (e.g. ${sheet.rows[0][index].slice(0, 30)})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-4 text-sm">
+                  <span className="flex items-center text-green-700">
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    {validRows.length} ready
+                  </span>
+                  {invalidCount > 0 && (
+                    <span className="flex items-center text-red-700">
+                      <AlertCircle className="h-4 w-4 mr-1" />
+                      {invalidCount} with errors (skipped)
+                    </span>
+                  )}
+                </div>
+                {invalidCount > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={showErrorsOnly}
+                      onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Show errors only
+                  </label>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Title</th>
+                      <th className="px-3 py-2">Assignee</th>
+                      <th className="px-3 py-2">Client</th>
+                      <th className="px-3 py-2">Priority</th>
+                      <th className="px-3 py-2">Due</th>
+                      <th className="px-3 py-2">Repeats</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.filter(r => !showErrorsOnly || r.errors.length > 0).map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500 align-top">{row.rowNumber}</td>
+                        <td className="px-3 py-2 align-top">
+                          <p className="font-medium text-gray-900">{row.title || '—'}</p>
+                          {row.errors.map(message => (
+                            <p key={message} className="text-xs text-red-600">{message}</p>
+                          ))}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700 align-top">{row.assignee?.displayName || '—'}</td>
+                        <td className="px-3 py-2 text-gray-700 align-top">{row.client?.name || '—'}</td>
+                        <td className="px-3 py-2 text-gray-700 align-top capitalize">{row.priority}</td>
+                        <td className="px-3 py-2 text-gray-700 align-top whitespace-nowrap">
+                          {row.dueDate ? format(row.dueDate, 'MMM d, yyyy') : '—'}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700 align-top">
+                          {row.recurrence ? describeRecurrence(row.recurrence) : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {importing && (
+                <p className="text-sm text-gray-600">Creating tasks... {progress} / {validRows.length}</p>
+              )}
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-3">
+              <p className="flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {result.created} task{result.created === 1 ? '' : 's'} created
+                {invalidCount > 0 && `, ${invalidCount} row${invalidCount === 1 ? '' : 's'} skipped`}
+              </p>
+              {result.failed.length > 0 && (
+                <div>
+                  <p className="flex items-center text-sm text-red-700 mb-2">
+                    <AlertCircle className="h-4 w-4 mr-2" />
+                    {result.failed.length} failed
+                  </p>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {result.failed.map(f => (
+                      <li key={f.rowNumber} className="px-3 py-2 text-sm">
+                        <p className="font-medium text-gray-900">Row {f.rowNumber}: {f.title}</p>
+                        <p className="text-xs text-gray-500">{f.reason}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 p-6 flex gap-3">
+          {step === 'done' ? (
+            <button onClick={onClose} className="flex-1 btn-primary">Done</button>
+          ) : (
+            <>
+              <button
+                onClick={() => (step === 'preview' ? setStep('map') : step === 'map' ? setStep('upload') : onClose())}
+                disabled={importing}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-gray-700 font-medium"
+              >
+                {step === 'upload' ? 'Cancel' : 'Back'}
+              </button>
+              {step === 'map' && (
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={missingRequired.length > 0}
+                  className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                  title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(', ')} first` : undefined}
+                >
+                  Preview
+                </button>
+              )}
+              {step === 'preview' && (
+                <button
+                  onClick={handleImport}
+                  disabled={importing || validRows.length === 0}
+                  className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {importing ? 'Importing...' : `Import ${validRows.length} Task${validRows.length === 1 ? '' : 's'}`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
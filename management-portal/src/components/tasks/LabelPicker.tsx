@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Plus, Tag, X } from 'lucide-react';
+import { getLabelClass, LABEL_COLORS } from '../../utils/taskFields';
+import type { LabelColor, TaskLabel } from '../../types';
+
+interface LabelPickerProps {
+  value: string[];
+  labels: TaskLabel[];
+  onChange: (names: string[]) => void;
+  onCreate: (label: TaskLabel) => Promise<void>;
+}
+
+export const LabelPicker = ({ value, labels, onChange, onCreate }: LabelPickerProps) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<LabelColor>('blue');
+  const [creating, setCreating] = useState(false);
+
+  const available = labels.filter(l => !value.includes(l.name));
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    try {
+      if (!labels.some(l => l.name.toLowerCase() === name.toLowerCase())) {
+        await onCreate({ name, color: newColor });
+      }
+      const existing = labels.find(l => l.name.toLowerCase() === name.toLowerCase());
+      const label = existing?.name || name;
+      if (!value.includes(label)) onChange([...value, label]);
+      setNewName('');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(name => (
+            <span
+              key={name}
+              className={`flex items-center px-2 py-0.5 rounded-md text-xs font-medium ${getLabelClass(name, labels)}`}
+            >
+              <Tag className="h-3 w-3 mr-1" />
+              {name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(n => n !== name))}
+                className="ml-1 hover:opacity-70"
+                title="Remove label"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChange([...value, e.target.value])}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Add a label...</option>
+            {available.map(l => (
+              <option key={l.name} value={l.name}>{l.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="New label"
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <select
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value as LabelColor)}
+          className={`px-2 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 ${LABEL_COLORS[newColor]}`}
+          title="Label color"
+        >
+          {(Object.keys(LABEL_COLORS) as LabelColor[]).map(color => (
+            <option key={color} value={color}>{color}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={!newName.trim() || creating}
+          className="px-3 py-2 bg-primary-50 text-primary-600 rounded-lg hover:bg-primary-100 disabled:opacity-50"
+          title="Create label"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
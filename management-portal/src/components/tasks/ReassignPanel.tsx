@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, UserRoundPen } from 'lucide-react';
+import type { Task } from '../../types';
+
+interface ReassignPanelProps {
+  task: Task;
+  users: { uid: string; displayName: string }[];
+  canReassign: boolean;
+  onReassign: (to: { uid: string; displayName: string }, note: string) => Promise<void>;
+}
+
+export const ReassignPanel = ({ task, users, canReassign, onReassign }: ReassignPanelProps) => {
+  const [showForm, setShowForm] = useState(false);
+  const [toId, setToId] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const history = task.assignmentHistory || [];
+  if (history.length === 0 && !canReassign) return null;
+
+  const handleSubmit = async () => {
+    const to = users.find(u => u.uid === toId);
+    if (!to) return;
+
+    setBusy(true);
+    try {
+      await onReassign(to, note.trim());
+      setShowForm(false);
+      setToId('');
+      setNote('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center">
+          <UserRoundPen className="h-4 w-4 mr-2 text-gray-400" />
+          Handoffs
+        </h3>
+        {canReassign && !showForm && (
+          <button onClick={() => setShowForm(true)} className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+            Reassign
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Hand over to...</option>
+            {users.filter(u => u.uid !== task.assignedTo).map(u => (
+              <option key={u.uid} value={u.uid}>{u.displayName}</option>
+            ))}
+          </select>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Handoff note: where things stand and what is left"
+            rows={3}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={busy || !toId || !note.trim()}
+              className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {busy ? 'Reassigning...' : 'Reassign'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 ? (
+        <ul className="space-y-2">
+          {[...history].reverse().map((handoff, index) => (
+            <li key={index} className="text-sm">
+              <p className="flex items-center gap-1.5 text-gray-900">
+                <span className="font-medium">{handoff.fromName || 'Unassigned'}</span>
+                <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                <span className="font-medium">{handoff.toName}</span>
+                <span className="text-xs text-gray-500">
+                  by {handoff.handedOverByName || 'someone'} on {format(handoff.timestamp, 'MMM d, h:mm a')}
+                </span>
+              </p>
+              {handoff.note && <p className="text-gray-600 mt-0.5 whitespace-pre-wrap">{handoff.note}</p>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Still with the original assignee.</p>
+      )}
+    </div>
+  );
+};
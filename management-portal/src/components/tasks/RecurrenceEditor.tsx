@@ -0,0 +1,177 @@
+import { format, parseISO } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import type { RecurrenceRule } from '../../types';
+import { describeRecurrence, getUpcomingOccurrences, WEEKDAY_LABELS } from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule;
+  endDate?: Date | null;
+  holidays: Set<string>;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+const UNIT_LABELS: Record<RecurrenceRule['freq'], string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const SET_POS_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+const WEEKDAYS_ONLY = [1, 2, 3, 4, 5];
+
+export const RecurrenceEditor = ({ rule, endDate, holidays, onChange }: RecurrenceEditorProps) => {
+  const anchor = parseISO(rule.anchorDate);
+  const weekdays = rule.byWeekday || [];
+  const upcoming = getUpcomingOccurrences(rule, anchor, 4, holidays, endDate);
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...rule, ...changes });
+
+  const changeFreq = (freq: RecurrenceRule['freq']) => {
+    update({
+      freq,
+      byWeekday: freq === 'weekly' ? [anchor.getDay()] : [],
+      monthlyBy: 'monthday',
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+    if (next.length > 0) update({ byWeekday: next });
+  };
+
+  const selectClass = 'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>Every</span>
+        <input
+          type="number"
+          min="1"
+          max="12"
+          value={rule.interval}
+          onChange={(e) => update({ interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+          className={`w-16 ${selectClass}`}
+        />
+        <select
+          value={rule.freq}
+          onChange={(e) => changeFreq(e.target.value as RecurrenceRule['freq'])}
+          className={selectClass}
+        >
+          <option value="daily">{UNIT_LABELS.daily}</option>
+          <option value="weekly">{UNIT_LABELS.weekly}</option>
+          <option value="monthly">{UNIT_LABELS.monthly}</option>
+        </select>
+      </div>
+
+      {rule.freq === 'daily' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={weekdays.length > 0}
+            onChange={(e) => update({ byWeekday: e.target.checked ? WEEKDAYS_ONLY : [] })}
+            className="h-4 w-4 text-primary-600 rounded"
+          />
+          Weekdays only
+        </label>
+      )}
+
+      {rule.freq === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`w-10 py-1.5 text-xs font-medium rounded-md border ${
+                weekdays.includes(day)
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rule.freq === 'monthly' && (
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={!rule.monthlyBy || rule.monthlyBy === 'monthday'}
+              onChange={() => update({ monthlyBy: 'monthday', byWeekday: [] })}
+            />
+            On day {anchor.getDate()}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rule.monthlyBy === 'weekday'}
+              onChange={() => update({
+                monthlyBy: 'weekday',
+                byWeekday: [anchor.getDay()],
+                setPos: Math.min(Math.ceil(anchor.getDate() / 7), 4),
+              })}
+            />
+            On the
+            <select
+              value={rule.setPos ?? 1}
+              disabled={rule.monthlyBy !== 'weekday'}
+              onChange={(e) => update({ setPos: parseInt(e.target.value) })}
+              className={selectClass}
+            >
+              {SET_POS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <select
+              value={weekdays[0] ?? anchor.getDay()}
+              disabled={rule.monthlyBy !== 'weekday'}
+              onChange={(e) => update({ byWeekday: [parseInt(e.target.value)] })}
+              className={selectClass}
+            >
+              {WEEKDAY_LABELS.map((label, day) => <option key={label} value={day}>{label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rule.monthlyBy === 'lastBusinessDay'}
+              onChange={() => update({ monthlyBy: 'lastBusinessDay', byWeekday: [] })}
+            />
+            On the last business day
+          </label>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={rule.skipHolidays || false}
+          onChange={(e) => update({ skipHolidays: e.target.checked })}
+          className="h-4 w-4 text-primary-600 rounded"
+        />
+        Skip company holidays
+      </label>
+
+      <div className="p-3 bg-white border border-indigo-200 rounded-lg">
+        <p className="text-sm font-medium text-indigo-700 flex items-center">
+          <CalendarClock className="h-4 w-4 mr-1" />
+          {describeRecurrence(rule, endDate)}
+        </p>
+        {upcoming.length > 0 && (
+          <p className="text-xs text-gray-600 mt-1">
+            Next: {upcoming.map(d => format(d, 'EEE, MMM d')).join(' · ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
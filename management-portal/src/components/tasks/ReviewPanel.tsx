@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, ClipboardCheck, Undo2 } from 'lucide-react';
+import type { Task } from '../../types';
+
+interface ReviewPanelProps {
+  task: Task;
+  canReview: boolean;
+  onApprove: () => Promise<void>;
+  onRequestChanges: (note: string) => Promise<void>;
+}
+
+export const ReviewPanel = ({ task, canReview, onApprove, onRequestChanges }: ReviewPanelProps) => {
+  const [showChangesForm, setShowChangesForm] = useState(false);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const reviewers = [task.createdByName || 'the creator', task.reviewerName].filter(Boolean).join(' or ');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setNote('');
+      setShowChangesForm(false);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (task.status !== 'in-review') {
+    return (
+      <p className="flex items-center text-sm text-gray-600">
+        <ClipboardCheck className="h-4 w-4 mr-2 text-amber-600" />
+        Needs sign-off from {reviewers} before it counts as done.
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+      <div className="flex items-start">
+        <ClipboardCheck className="h-5 w-5 mr-2 text-amber-600 flex-shrink-0" />
+        <div>
+          <p className="text-sm font-medium text-gray-900">Waiting for review</p>
+          <p className="text-xs text-gray-600">
+            Submitted by {task.submittedByName || 'the assignee'}
+            {task.submittedAt && ` on ${format(task.submittedAt, 'MMM d, yyyy h:mm a')}`}.
+            Points count from the submission. Reviewer: {reviewers}.
+          </p>
+        </div>
+      </div>
+
+      {canReview && (showChangesForm ? (
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What needs to change?"
+            rows={3}
+            autoFocus
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowChangesForm(false)}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => run(() => onRequestChanges(note.trim()))}
+              disabled={busy || !note.trim()}
+              className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50"
+            >
+              {busy ? 'Sending...' : 'Send back'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(onApprove)}
+            disabled={busy}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            <CheckCircle className="h-4 w-4" />
+            {busy ? 'Approving...' : 'Approve'}
+          </button>
+          <button
+            onClick={() => setShowChangesForm(true)}
+            disabled={busy}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm border border-amber-600 text-amber-700 rounded-lg hover:bg-amber-100 disabled:opacity-50"
+          >
+            <Undo2 className="h-4 w-4" />
+            Request changes
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
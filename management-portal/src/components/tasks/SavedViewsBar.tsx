@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Bookmark, BookmarkPlus, Globe, Link, Lock, Pin, PinOff, Trash2, X } from 'lucide-react';
+import type { SavedView } from '../../types';
+
+interface SavedViewsBarProps {
+  views: SavedView[];
+  activeViewId?: string;
+  pinnedIds: string[];
+  currentUserId?: string;
+  hasFilters: boolean;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string, shared: boolean) => Promise<void>;
+  onTogglePin: (view: SavedView) => Promise<void>;
+  onToggleShare: (view: SavedView) => Promise<void>;
+  onDelete: (view: SavedView) => Promise<void>;
+}
+
+export const SavedViewsBar = ({
+  views,
+  activeViewId,
+  pinnedIds,
+  currentUserId,
+  hasFilters,
+  onApply,
+  onSave,
+  onTogglePin,
+  onToggleShare,
+  onDelete
+}: SavedViewsBarProps) => {
+  const [showMenu, setShowMenu] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const activeView = views.find(v => v.id === activeViewId);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      await onSave(name.trim(), shared);
+      setName('');
+      setShared(false);
+      setShowSaveForm(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <div className="relative">
+        <button
+          onClick={() => setShowMenu(!showMenu)}
+          className="flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <Bookmark className="h-4 w-4 mr-1.5 text-gray-500" />
+          {activeView ? activeView.name : 'Saved views'}
+          {views.length > 0 && <span className="ml-1.5 text-xs text-gray-400">({views.length})</span>}
+        </button>
+
+        {showMenu && (
+          <>
+            <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
+            <div className="absolute left-0 mt-1 w-80 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-20">
+              {views.length === 0 && (
+                <p className="px-3 py-2 text-sm text-gray-500">No saved views yet. Set some filters and save them.</p>
+              )}
+              {views.map(view => {
+                const isOwner = view.ownerId === currentUserId;
+                const isPinned = pinnedIds.includes(view.id);
+
+                return (
+                  <div key={view.id} className="flex items-center gap-1 px-2 hover:bg-gray-50">
+                    <button
+                      onClick={() => {
+                        onApply(view);
+                        setShowMenu(false);
+                      }}
+                      className="flex-1 min-w-0 text-left px-1 py-2"
+                    >
+                      <p className={`text-sm truncate ${view.id === activeViewId ? 'font-semibold text-primary-600' : 'text-gray-900'}`}>
+                        {view.name}
+                      </p>
+                      {!isOwner && <p className="text-xs text-gray-500 truncate">Shared by {view.ownerName}</p>}
+                    </button>
+                    <button
+                      onClick={() => onTogglePin(view)}
+                      className="p-1.5 text-gray-400 hover:text-primary-600 rounded"
+                      title={isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                    >
+                      {isPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                    </button>
+                    {isOwner && (
+                      <>
+                        <button
+                          onClick={() => onToggleShare(view)}
+                          className={`p-1.5 rounded ${view.shared ? 'text-green-600' : 'text-gray-400 hover:text-gray-600'}`}
+                          title={view.shared ? 'Shared with the team. Click to make private' : 'Private. Click to share with the team'}
+                        >
+                          {view.shared ? <Globe className="h-3.5 w-3.5" /> : <Lock className="h-3.5 w-3.5" />}
+                        </button>
+                        <button
+                          onClick={() => onDelete(view)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 rounded"
+                          title="Delete view"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      {showSaveForm ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="View name"
+            autoFocus
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Share with team
+          </label>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || saving}
+            className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button onClick={() => setShowSaveForm(false)} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowSaveForm(true)}
+          disabled={!hasFilters}
+          className="flex items-center px-3 py-1.5 text-sm text-primary-600 hover:bg-primary-50 rounded-lg disabled:opacity-40 disabled:hover:bg-transparent"
+          title={hasFilters ? 'Save the current filters as a view' : 'Set some filters first'}
+        >
+          <BookmarkPlus className="h-4 w-4 mr-1.5" />
+          Save view
+        </button>
+      )}
+
+      {hasFilters && (
+        <button
+          onClick={copyLink}
+          className="flex items-center px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+          title="Copy a link to this exact view"
+        >
+          <Link className="h-4 w-4 mr-1.5" />
+          {copied ? 'Copied!' : 'Copy link'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { format, isPast } from 'date-fns';
+import { CheckSquare, ListChecks, Plus, Trash2, Users, Calendar } from 'lucide-react';
+import type { ChecklistItem, Subtask, Task, User } from '../../types';
+import { createItemId, getTaskProgress } from '../../utils/subtasks';
+
+interface SubtaskListProps {
+  task: Task;
+  users: Pick<User, 'uid' | 'displayName'>[];
+  currentUserId: string;
+  canEdit: boolean;
+  onSave: (subtasks: Subtask[], checklist: ChecklistItem[]) => Promise<void>;
+}
+
+export const SubtaskList = ({ task, users, currentUserId, canEdit, onSave }: SubtaskListProps) => {
+  const subtasks = task.subtasks || [];
+  const checklist = task.checklist || [];
+  const progress = getTaskProgress(task);
+  const [saving, setSaving] = useState(false);
+  const [newSubtask, setNewSubtask] = useState({ title: '', assignedTo: '', dueDate: '' });
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+
+  const save = async (nextSubtasks: Subtask[], nextChecklist: ChecklistItem[]) => {
+    setSaving(true);
+    try {
+      await onSave(nextSubtasks, nextChecklist);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSubtask = (subtaskId: string) => {
+    const next = subtasks.map((s) =>
+      s.id === subtaskId
+        ? {
+            ...s,
+            done: !s.done,
+            completedAt: !s.done ? new Date() : null,
+            completedBy: !s.done ? currentUserId : null,
+          }
+        : s
+    );
+    save(next, checklist);
+  };
+
+  const addSubtask = () => {
+    if (!newSubtask.title.trim()) return;
+    const assignee = users.find(u => u.uid === newSubtask.assignedTo);
+
+    const subtask: Subtask = {
+      id: createItemId(),
+      title: newSubtask.title.trim(),
+      assignedTo: newSubtask.assignedTo,
+      assignedToName: assignee?.displayName || '',
+      dueDate: newSubtask.dueDate ? new Date(newSubtask.dueDate) : null,
+      done: false,
+      completedAt: null,
+      completedBy: null,
+    };
+
+    save([...subtasks, subtask], checklist);
+    setNewSubtask({ title: '', assignedTo: '', dueDate: '' });
+  };
+
+  const removeSubtask = (subtaskId: string) => {
+    save(subtasks.filter(s => s.id !== subtaskId), checklist);
+  };
+
+  const toggleChecklistItem = (itemId: string) => {
+    save(subtasks, checklist.map(c => (c.id === itemId ? { ...c, done: !c.done } : c)));
+  };
+
+  const addChecklistItem = () => {
+    if (!newChecklistItem.trim()) return;
+    save(subtasks, [...checklist, { id: createItemId(), text: newChecklistItem.trim(), done: false }]);
+    setNewChecklistItem('');
+  };
+
+  const removeChecklistItem = (itemId: string) => {
+    save(subtasks, checklist.filter(c => c.id !== itemId));
+  };
+
+  return (
+    <div className="space-y-5">
+      {progress.total > 0 && (
+        <div>
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+            <span>Progress</span>
+            <span>{progress.completed}/{progress.total} done</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-all"
+              style={{ width: `${Math.round(progress.ratio * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Subtasks */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+          <CheckSquare className="h-4 w-4 mr-1" />
+          Subtasks ({progress.subtasksCompleted}/{progress.subtasksTotal})
+        </h3>
+
+        <div className="space-y-2">
+          {subtasks.map((subtask) => {
+            const canToggle = canEdit || subtask.assignedTo === currentUserId;
+            const isOverdue = !subtask.done && subtask.dueDate && isPast(subtask.dueDate);
+
+            return (
+              <div key={subtask.id} className="flex items-center gap-3 p-2 border border-gray-200 rounded-lg">
+                <input
+                  type="checkbox"
+                  checked={subtask.done}
+                  onChange={() => toggleSubtask(subtask.id)}
+                  disabled={!canToggle || saving}
+                  className="h-4 w-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${subtask.done ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                    {subtask.title}
+                  </p>
+                  <div className="flex items-center gap-3 text-xs text-gray-500 mt-0.5">
+                    {subtask.assignedToName && (
+                      <span className="flex items-center">
+                        <Users className="h-3 w-3 mr-1" />
+                        {subtask.assignedToName}
+                      </span>
+                    )}
+                    {subtask.dueDate && (
+                      <span className={`flex items-center ${isOverdue ? 'text-red-600 font-medium' : ''}`}>
+                        <Calendar className="h-3 w-3 mr-1" />
+                        {format(subtask.dueDate, 'MMM d')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => removeSubtask(subtask.id)}
+                    disabled={saving}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    title="Remove subtask"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {canEdit && (
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mt-2">
+            <input
+              type="text"
+              value={newSubtask.title}
+              onChange={(e) => setNewSubtask({ ...newSubtask, title: e.target.value })}
+              placeholder="Subtask title"
+              className="sm:col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <select
+              value={newSubtask.assignedTo}
+              onChange={(e) => setNewSubtask({ ...newSubtask, assignedTo: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">Unassigned</option>
+              {users.map((user) => (
+                <option key={user.uid} value={user.uid}>{user.displayName}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={newSubtask.dueDate}
+              onChange={(e) => setNewSubtask({ ...newSubtask, dueDate: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button
+              onClick={addSubtask}
+              disabled={!newSubtask.title.trim() || saving}
+              className="sm:col-span-4 flex items-center justify-center gap-1 px-3 py-2 text-sm text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4" />
+              Add Subtask
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Checklist */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+          <ListChecks className="h-4 w-4 mr-1" />
+          Checklist ({progress.checklistCompleted}/{progress.checklistTotal})
+        </h3>
+
+        <div className="space-y-1">
+          {checklist.map((item) => (
+            <div key={item.id} className="flex items-center gap-3 px-2 py-1 hover:bg-gray-50 rounded">
+              <input
+                type="checkbox"
+                checked={item.done}
+                onChange={() => toggleChecklistItem(item.id)}
+                disabled={!canEdit || saving}
+                className="h-4 w-4 text-primary-600 rounded focus:ring-primary-500"
+              />
+              <span className={`flex-1 text-sm ${item.done ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+                {item.text}
+              </span>
+              {canEdit && (
+                <button
+                  onClick={() => removeChecklistItem(item.id)}
+                  disabled={saving}
+                  className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  title="Remove item"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <div className="flex gap-2 mt-2">
+            <input
+              type="text"
+              value={newChecklistItem}
+              onChange={(e) => setNewChecklistItem(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addChecklistItem()}
+              placeholder="Add checklist item..."
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button
+              onClick={addChecklistItem}
+              disabled={!newChecklistItem.trim() || saving}
+              className="px-3 py-2 text-sm text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
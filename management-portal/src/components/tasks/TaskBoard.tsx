@@ -0,0 +1,80 @@
+import { useState, type ReactNode } from 'react';
+import type { Task, TaskStatus } from '../../types';
+import { TASK_STATUSES } from '../../utils/taskStatus';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  renderCard: (task: Task) => ReactNode;
+  canDrag: (task: Task) => boolean;
+  onStatusChange: (taskId: string, status: TaskStatus) => void;
+}
+
+export const TaskBoard = ({ tasks, renderCard, canDrag, onStatusChange }: TaskBoardProps) => {
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+
+  const handleDrop = (status: TaskStatus) => {
+    const task = tasks.find(t => t.id === draggedTaskId);
+    setDraggedTaskId(null);
+    setDropTarget(null);
+    if (task && task.status !== status) {
+      onStatusChange(task.id, status);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-flow-col md:auto-cols-fr gap-5 items-start">
+      {TASK_STATUSES.map((column) => {
+        const columnTasks = tasks.filter(t => t.status === column.value);
+
+        return (
+          <div
+            key={column.value}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(column.value);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(column.value);
+            }}
+            className={`rounded-xl p-3 min-h-[200px] transition-colors ${
+              dropTarget === column.value ? 'bg-primary-50 ring-2 ring-primary-300' : 'bg-gray-100'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3 px-1">
+              <div className="flex items-center gap-2">
+                <span className={`h-2.5 w-2.5 rounded-full ${column.accent}`} />
+                <h3 className="text-sm font-semibold text-gray-700">{column.label}</h3>
+              </div>
+              <span className="px-2 py-0.5 text-xs bg-white text-gray-600 rounded-full">
+                {columnTasks.length}
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {columnTasks.map((task) => (
+                <div
+                  key={task.id}
+                  draggable={canDrag(task)}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedTaskId(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedTaskId(null);
+                    setDropTarget(null);
+                  }}
+                  className={draggedTaskId === task.id ? 'opacity-50' : ''}
+                >
+                  {renderCard(task)}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
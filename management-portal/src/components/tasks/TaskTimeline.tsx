@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isPast,
+  isWeekend,
+  max,
+  min,
+  startOfDay
+} from 'date-fns';
+import { Building2, ChartGantt, Users } from 'lucide-react';
+import type { Task } from '../../types';
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  defaultGroupBy?: 'client' | 'assignee';
+  canReschedule: boolean;
+  onReschedule: (task: Task, dueDate: Date) => Promise<void>;
+  onTaskClick?: (task: Task) => void;
+}
+
+type TimelineRow =
+  | { type: 'group'; label: string; count: number }
+  | { type: 'task'; task: Task };
+
+const DAY_WIDTH = 36;
+const ROW_HEIGHT = 36;
+const GROUP_HEIGHT = 32;
+const LABEL_WIDTH = 220;
+const HEADER_HEIGHT = 40;
+
+export const TaskTimeline = ({
+  tasks,
+  defaultGroupBy = 'client',
+  canReschedule,
+  onReschedule,
+  onTaskClick,
+}: TaskTimelineProps) => {
+  const [groupBy, setGroupBy] = useState<'client' | 'assignee'>(defaultGroupBy);
+  const [drag, setDrag] = useState<{ taskId: string; startX: number; delta: number } | null>(null);
+
+  if (tasks.length === 0) {
+    return (
+      <div className="card text-center py-12">
+        <ChartGantt className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500">No tasks to plot</p>
+      </div>
+    );
+  }
+
+  const today = startOfDay(new Date());
+  const rangeStart = addDays(startOfDay(min([today, ...tasks.map(t => t.assignedAt)])), -1);
+  const rangeEnd = addDays(startOfDay(max([today, ...tasks.map(t => t.dueDate)])), 2);
+  const days = Array.from(
+    { length: differenceInCalendarDays(rangeEnd, rangeStart) + 1 },
+    (_, i) => addDays(rangeStart, i)
+  );
+
+  const groupLabel = (task: Task) =>
+    groupBy === 'client'
+      ? task.clientName || 'No Client'
+      : task.assignedToName || 'Unassigned';
+
+  const groups = new Map<string, Task[]>();
+  [...tasks]
+    .sort((a, b) => a.assignedAt.getTime() - b.assignedAt.getTime())
+    .forEach(task => {
+      const label = groupLabel(task);
+      groups.set(label, [...(groups.get(label) || []), task]);
+    });
+
+  const rows: TimelineRow[] = [];
+  [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([label, groupTasks]) => {
+      rows.push({ type: 'group', label, count: groupTasks.length });
+      groupTasks.forEach(task => rows.push({ type: 'task', task }));
+    });
+
+  const getDueDate = (task: Task) =>
+    drag?.taskId === task.id ? addDays(task.dueDate, drag.delta) : task.dueDate;
+
+  // Pixel geometry for every bar, used for both the bars and the dependency arrows.
+  const bars = new Map<string, { x1: number; x2: number; y: number }>();
+  let offsetY = 0;
+  rows.forEach(row => {
+    if (row.type === 'group') {
+      offsetY += GROUP_HEIGHT;
+      return;
+    }
+    const dueDate = getDueDate(row.task);
+    const start = min([row.task.assignedAt, dueDate]);
+    bars.set(row.task.id, {
+      x1: differenceInCalendarDays(start, rangeStart) * DAY_WIDTH,
+      x2: (differenceInCalendarDays(dueDate, rangeStart) + 1) * DAY_WIDTH,
+      y: offsetY + ROW_HEIGHT / 2,
+    });
+    offsetY += ROW_HEIGHT;
+  });
+  const chartHeight = offsetY;
+  const chartWidth = days.length * DAY_WIDTH;
+
+  const arrows = tasks.flatMap(task =>
+    (task.blockedBy || [])
+      .filter(blockerId => bars.has(blockerId))
+      .map(blockerId => ({ id: `${blockerId}-${task.id}`, from: bars.get(blockerId)!, to: bars.get(task.id)! }))
+  );
+
+  const getBarColor = (task: Task) => {
+    if (task.status === 'completed') return 'bg-green-500';
+    if (isPast(task.dueDate)) return 'bg-red-500';
+    if (task.status === 'in-progress') return 'bg-blue-500';
+    if (task.status === 'in-review') return 'bg-amber-500';
+    return 'bg-gray-400';
+  };
+
+  const finishDrag = async (task: Task) => {
+    if (!drag) return;
+    const { delta } = drag;
+    setDrag(null);
+
+    if (delta === 0) {
+      onTaskClick?.(task);
+    } else {
+      await onReschedule(task, addDays(task.dueDate, delta));
+    }
+  };
+
+  return (
+    <div className="card p-0 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center gap-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-gray-400" />Pending</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-blue-500" />In Progress</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-green-500" />Completed</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-red-500" />Overdue</span>
+        </div>
+        <div className="flex items-center bg-gray-100 rounded-lg p-1">
+          <button
+            onClick={() => setGroupBy('client')}
+            className={`flex items-center gap-1 px-3 py-1 text-xs rounded-md ${
+              groupBy === 'client' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600'
+            }`}
+          >
+            <Building2 className="h-3.5 w-3.5" />
+            Client
+          </button>
+          <button
+            onClick={() => setGroupBy('assignee')}
+            className={`flex items-center gap-1 px-3 py-1 text-xs rounded-md ${
+              groupBy === 'assignee' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600'
+            }`}
+          >
+            <Users className="h-3.5 w-3.5" />
+            Assignee
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+          {/* Day header */}
+          <div className="flex border-b border-gray-200" style={{ height: HEADER_HEIGHT }}>
+            <div className="sticky left-0 z-20 bg-white border-r border-gray-200 flex-shrink-0" style={{ width: LABEL_WIDTH }} />
+            {days.map(day => (
+              <div
+                key={day.toISOString()}
+                className={`flex-shrink-0 flex flex-col items-center justify-center text-[10px] border-r border-gray-100 ${
+                  isWeekend(day) ? 'bg-gray-50 text-gray-400' : 'text-gray-600'
+                } ${differenceInCalendarDays(day, today) === 0 ? 'text-primary-600 font-bold' : ''}`}
+                style={{ width: DAY_WIDTH }}
+              >
+                <span>{format(day, 'EEE').charAt(0)}</span>
+                <span>{day.getDate() === 1 || day === days[0] ? format(day, 'MMM d') : day.getDate()}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Rows */}
+          <div className="relative">
+            {rows.map(row => row.type === 'group' ? (
+              <div key={`group-${row.label}`} className="flex bg-gray-50 border-b border-gray-200" style={{ height: GROUP_HEIGHT }}>
+                <div
+                  className="sticky left-0 z-20 bg-gray-50 px-4 flex items-center text-xs font-semibold text-gray-700 uppercase tracking-wide"
+                  style={{ width: LABEL_WIDTH }}
+                >
+                  <span className="truncate">{row.label}</span>
+                  <span className="ml-2 text-gray-400">{row.count}</span>
+                </div>
+              </div>
+            ) : (
+              <div key={row.task.id} className="flex border-b border-gray-100" style={{ height: ROW_HEIGHT }}>
+                <div
+                  className="sticky left-0 z-20 bg-white border-r border-gray-200 px-4 flex items-center text-sm text-gray-900 cursor-pointer hover:text-primary-600"
+                  style={{ width: LABEL_WIDTH }}
+                  onClick={() => onTaskClick?.(row.task)}
+                  title={row.task.title}
+                >
+                  <span className="truncate">{row.task.title}</span>
+                </div>
+                <div className="relative flex-shrink-0" style={{ width: chartWidth }}>
+                  {(() => {
+                    const bar = bars.get(row.task.id)!;
+                    return (
+                      <div
+                        onPointerDown={(e) => {
+                          if (!canReschedule) return;
+                          e.currentTarget.setPointerCapture(e.pointerId);
+                          setDrag({ taskId: row.task.id, startX: e.clientX, delta: 0 });
+                        }}
+                        onPointerMove={(e) => {
+                          if (drag?.taskId !== row.task.id) return;
+                          setDrag({ ...drag, delta: Math.round((e.clientX - drag.startX) / DAY_WIDTH) });
+                        }}
+                        onPointerUp={() => finishDrag(row.task)}
+                        onClick={() => !canReschedule && onTaskClick?.(row.task)}
+                        className={`absolute top-1.5 rounded-md text-white text-[11px] px-2 flex items-center overflow-hidden whitespace-nowrap select-none ${getBarColor(row.task)} ${
+                          canReschedule ? 'cursor-ew-resize' : 'cursor-pointer'
+                        } ${drag?.taskId === row.task.id ? 'ring-2 ring-primary-300 opacity-80' : ''}`}
+                        style={{ left: bar.x1, width: Math.max(bar.x2 - bar.x1, DAY_WIDTH), height: ROW_HEIGHT - 12 }}
+                        title={`${row.task.title}: ${format(row.task.assignedAt, 'MMM d')} → ${format(getDueDate(row.task), 'MMM d')}`}
+                      >
+                        {drag?.taskId === row.task.id && drag.delta !== 0
+                          ? `Due ${format(getDueDate(row.task), 'MMM d')}`
+                          : groupBy === 'client' ? row.task.assignedToName : row.task.clientName}
+                      </div>
+                    );
+                  })()}
+                </div>
+              </div>
+            ))}
+
+            {/* Today marker and dependency arrows */}
+            <svg
+              className="absolute top-0 pointer-events-none z-10"
+              style={{ left: LABEL_WIDTH }}
+              width={chartWidth}
+              height={chartHeight}
+            >
+              <defs>
+                <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 Z" fill="#f97316" />
+                </marker>
+              </defs>
+              <line
+                x1={(differenceInCalendarDays(today, rangeStart) + 0.5) * DAY_WIDTH}
+                x2={(differenceInCalendarDays(today, rangeStart) + 0.5) * DAY_WIDTH}
+                y1={0}
+                y2={chartHeight}
+                stroke="#7c3aed"
+                strokeDasharray="4 3"
+              />
+              {arrows.map(({ id, from, to }) => {
+                const elbowX = Math.max(from.x2 + 8, to.x1 - 8);
+                return (
+                  <path
+                    key={id}
+                    d={`M${from.x2},${from.y} H${elbowX} V${to.y} H${to.x1 - 2}`}
+                    fill="none"
+                    stroke="#f97316"
+                    strokeWidth={1.5}
+                    markerEnd="url(#timeline-arrow)"
+                  />
+                );
+              })}
+            </svg>
+          </div>
+        </div>
+      </div>
+
+      {canReschedule && (
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-200">
+          Drag a bar left or right to move its due date.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { differenceInMinutes, format } from 'date-fns';
+import { Play, Plus, Square, Timer, Trash2 } from 'lucide-react';
+import { db } from '../../config/firebase';
+import type { Task, TimeEntry } from '../../types';
+import {
+  addManualEntry,
+  deleteTimeEntry,
+  formatDuration,
+  mapTimeEntryDoc,
+  startTimer,
+  stopTimer
+} from '../../utils/timeTracking';
+
+interface TimeTrackerProps {
+  task: Task;
+  currentUserId: string;
+  currentUserName: string;
+  canManageAll: boolean;
+  onChange: () => void;
+}
+
+export const TimeTracker = ({ task, currentUserId, currentUserName, canManageAll, onChange }: TimeTrackerProps) => {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [now, setNow] = useState(new Date());
+  const [busy, setBusy] = useState(false);
+  const [showManual, setShowManual] = useState(false);
+  const [manual, setManual] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    hours: '',
+    minutes: '',
+    note: '',
+  });
+
+  useEffect(() => {
+    const q = query(collection(db, 'timeEntries'), where('taskId', '==', task.id));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const data = snapshot.docs
+        .map(d => mapTimeEntryDoc(d.id, d.data()))
+        .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+      setEntries(data);
+    });
+
+    return () => unsubscribe();
+  }, [task.id]);
+
+  const runningEntry = entries.find(e => e.userId === currentUserId && !e.endedAt);
+
+  useEffect(() => {
+    if (!runningEntry) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [runningEntry]);
+
+  const totalMinutes = entries.reduce((sum, e) => sum + e.durationMinutes, 0);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error('Error updating time entries:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddManual = () => {
+    const durationMinutes = (parseInt(manual.hours) || 0) * 60 + (parseInt(manual.minutes) || 0);
+    if (durationMinutes <= 0) return;
+
+    run(async () => {
+      await addManualEntry(task, currentUserId, currentUserName, new Date(manual.date), durationMinutes, manual.note.trim());
+      setManual({ date: format(new Date(), 'yyyy-MM-dd'), hours: '', minutes: '', note: '' });
+      setShowManual(false);
+    });
+  };
+
+  const elapsedSeconds = runningEntry
+    ? Math.max(Math.floor((now.getTime() - runningEntry.startedAt.getTime()) / 1000), 0)
+    : 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center">
+          <Timer className="h-4 w-4 mr-1" />
+          Time Logged
+          <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+            {formatDuration(totalMinutes)}
+          </span>
+        </h3>
+
+        <div className="flex items-center gap-2">
+          {runningEntry ? (
+            <button
+              onClick={() => run(() => stopTimer(runningEntry))}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              <Square className="h-3.5 w-3.5" />
+              Stop {Math.floor(elapsedSeconds / 3600)}:{String(Math.floor(elapsedSeconds / 60) % 60).padStart(2, '0')}:{String(elapsedSeconds % 60).padStart(2, '0')}
+            </button>
+          ) : (
+            <button
+              onClick={() => run(() => startTimer(task, currentUserId, currentUserName))}
+              disabled={busy || task.status === 'completed'}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              <Play className="h-3.5 w-3.5" />
+              Start Timer
+            </button>
+          )}
+          <button
+            onClick={() => setShowManual(!showManual)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Log Time
+          </button>
+        </div>
+      </div>
+
+      {showManual && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3 p-3 bg-gray-50 rounded-lg">
+          <input
+            type="date"
+            value={manual.date}
+            onChange={(e) => setManual({ ...manual, date: e.target.value })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="number"
+            min="0"
+            value={manual.hours}
+            onChange={(e) => setManual({ ...manual, hours: e.target.value })}
+            placeholder="Hours"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="number"
+            min="0"
+            max="59"
+            value={manual.minutes}
+            onChange={(e) => setManual({ ...manual, minutes: e.target.value })}
+            placeholder="Minutes"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="text"
+            value={manual.note}
+            onChange={(e) => setManual({ ...manual, note: e.target.value })}
+            placeholder="Note (optional)"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            onClick={handleAddManual}
+            disabled={busy}
+            className="col-span-2 sm:col-span-4 px-3 py-2 text-sm text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            Save Entry
+          </button>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between text-xs text-gray-600 px-2 py-1.5 hover:bg-gray-50 rounded">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium text-gray-900">{entry.userName}</span>
+                <span>{format(entry.startedAt, 'MMM d, h:mm a')}</span>
+                {entry.source === 'manual' && (
+                  <span className="px-1.5 py-0.5 bg-gray-100 rounded">manual</span>
+                )}
+                {entry.note && <span className="truncate text-gray-500">· {entry.note}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  {entry.endedAt
+                    ? formatDuration(entry.durationMinutes)
+                    : `running ${formatDuration(differenceInMinutes(now, entry.startedAt))}`}
+                </span>
+                {(entry.userId === currentUserId || canManageAll) && entry.endedAt && (
+                  <button
+                    onClick={() => run(() => deleteTimeEntry(entry))}
+                    disabled={busy}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    title="Delete entry"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import {
+  buildWorkloads,
+  getLoadColor,
+  getLoadRatio,
+  getOpenTasks,
+  getWorkloadWeekStart,
+  matchesSkill,
+  PRIORITY_WEIGHTS,
+  WORKLOAD_WEEKS,
+  type MemberWorkload
+} from '../../utils/workload';
+import type { User } from '../../types';
+
+interface WorkloadViewProps {
+  users: User[];
+}
+
+export const WorkloadView = ({ users }: WorkloadViewProps) => {
+  const [workloads, setWorkloads] = useState<MemberWorkload[]>([]);
+  const [skill, setSkill] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setWorkloads(buildWorkloads(users, await getOpenTasks()));
+      } catch (error) {
+        console.error('Error fetching workload:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [users]);
+
+  const skillOptions = [...new Set(workloads.flatMap(w => [w.department, ...w.skills]).filter(Boolean))].sort();
+  const visible = workloads
+    .filter(w => matchesSkill(w, skill))
+    .sort((a, b) => getLoadRatio(b, 0) - getLoadRatio(a, 0));
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Gauge className="h-5 w-5 mr-2 text-gray-400" />
+            Workload
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">
+            Open tasks due in the next {WORKLOAD_WEEKS * 7} days, weighted by priority
+            (high {PRIORITY_WEIGHTS.high}, medium {PRIORITY_WEIGHTS.medium}, low {PRIORITY_WEIGHTS.low}).
+            Overdue tasks count towards the first week.
+          </p>
+        </div>
+        <select
+          value={skill}
+          onChange={(e) => setSkill(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          <option value="">All departments and skills</option>
+          {skillOptions.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="text-left py-3 px-4 text-xs font-medium text-gray-600">Member</th>
+                {Array.from({ length: WORKLOAD_WEEKS }, (_, week) => (
+                  <th key={week} className="text-left py-3 px-4 text-xs font-medium text-gray-600">
+                    {format(getWorkloadWeekStart(week), 'MMM d')} – {format(addDays(getWorkloadWeekStart(week), 6), 'MMM d')}
+                  </th>
+                ))}
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Open</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Overdue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(workload => (
+                <tr key={workload.userId} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <p className="text-sm font-medium text-gray-900">{workload.name}</p>
+                    <p className="text-xs text-gray-500 truncate max-w-[14rem]">
+                      {[workload.department, ...workload.skills].filter(Boolean).join(' · ') || 'No department'}
+                    </p>
+                  </td>
+                  {workload.weeks.map((load, week) => {
+                    const ratio = getLoadRatio(workload, week);
+                    return (
+                      <td key={week} className="py-3 px-4 min-w-[10rem]">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div className={`h-full ${getLoadColor(ratio)}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+                          </div>
+                          <span className="text-xs text-gray-600 whitespace-nowrap">
+                            {Math.round(load * 10) / 10}/{workload.capacity}
+                          </span>
+                        </div>
+                      </td>
+                    );
+                  })}
+                  <td className="py-3 px-4 text-center text-sm text-gray-600">{workload.openTasks}</td>
+                  <td className="py-3 px-4 text-center">
+                    {workload.overdueTasks > 0 ? (
+                      <span className="inline-flex items-center px-2 py-0.5 bg-red-50 text-red-700 rounded text-xs font-medium">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        {workload.overdueTasks}
+                      </span>
+                    ) : (
+                      <span className="text-sm text-gray-400">0</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {visible.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-8">No members match this filter</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
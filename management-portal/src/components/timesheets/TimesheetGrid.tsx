@@ -0,0 +1,112 @@
+import { format, isToday } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import type { TimesheetRow } from '../../types';
+import { getDayTotal, getRowTotal, getTimesheetTotal, getWeekDays } from '../../utils/timesheets';
+
+interface TimesheetGridProps {
+  weekStart: Date;
+  rows: TimesheetRow[];
+  editable: boolean;
+  onChange?: (rows: TimesheetRow[]) => void;
+}
+
+const formatHours = (hours: number) => (hours === 0 ? '–' : hours.toFixed(2).replace(/\.?0+$/, ''));
+
+export const TimesheetGrid = ({ weekStart, rows, editable, onChange }: TimesheetGridProps) => {
+  const days = getWeekDays(weekStart);
+
+  const updateHours = (rowKey: string, dayIndex: number, value: string) => {
+    const hours = Math.min(Math.max(parseFloat(value) || 0, 0), 24);
+    onChange?.(rows.map(row =>
+      row.key === rowKey
+        ? { ...row, hours: row.hours.map((h, i) => (i === dayIndex ? hours : h)) }
+        : row
+    ));
+  };
+
+  const removeRow = (rowKey: string) => {
+    onChange?.(rows.filter(row => row.key !== rowKey));
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-xs text-gray-500">
+            <th className="text-left font-medium py-2 pr-4 min-w-[200px]">Task / Client</th>
+            {days.map(day => (
+              <th
+                key={day.toISOString()}
+                className={`font-medium py-2 px-1 text-center w-20 ${isToday(day) ? 'text-primary-600' : ''}`}
+              >
+                <div>{format(day, 'EEE')}</div>
+                <div className="font-normal">{format(day, 'MMM d')}</div>
+              </th>
+            ))}
+            <th className="font-medium py-2 px-2 text-right w-16">Total</th>
+            {editable && <th className="w-8" />}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={editable ? 10 : 9} className="py-8 text-center text-gray-500">
+                No hours recorded for this week
+              </td>
+            </tr>
+          ) : rows.map(row => (
+            <tr key={row.key} className="border-b border-gray-100">
+              <td className="py-2 pr-4">
+                <p className="font-medium text-gray-900 truncate">{row.taskTitle}</p>
+                <p className="text-xs text-gray-500">{row.clientName || 'No Client'}</p>
+              </td>
+              {row.hours.map((hours, dayIndex) => (
+                <td key={dayIndex} className="py-2 px-1 text-center">
+                  {editable ? (
+                    <input
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.25"
+                      value={hours || ''}
+                      onChange={(e) => updateHours(row.key, dayIndex, e.target.value)}
+                      className="w-16 px-2 py-1 text-sm text-center border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  ) : (
+                    <span className="text-gray-700">{formatHours(hours)}</span>
+                  )}
+                </td>
+              ))}
+              <td className="py-2 px-2 text-right font-semibold text-gray-900">
+                {formatHours(getRowTotal(row))}
+              </td>
+              {editable && (
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => removeRow(row.key)}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    title="Remove row"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="text-xs font-semibold text-gray-700">
+            <td className="py-2 pr-4">Daily Total</td>
+            {days.map((day, dayIndex) => (
+              <td key={day.toISOString()} className="py-2 px-1 text-center">
+                {formatHours(getDayTotal(rows, dayIndex))}
+              </td>
+            ))}
+            <td className="py-2 px-2 text-right text-primary-600">{formatHours(getTimesheetTotal(rows))}</td>
+            {editable && <td />}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
@@ -26,9 +26,17 @@ import {
   Globe,
   MapPin,
   Edit2,
-  X
+  X,
+  List,
+  ChartGantt,
+  Layers
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { isTaskInTrash, mapTaskDoc, rescheduleTask } from '../utils/tasks';
+import { TaskTimeline } from '../components/tasks/TaskTimeline';
+import { ApplyPlaybookModal } from '../components/playbooks/ApplyPlaybookModal';
+import { getRowTotal, mapTimesheetDoc, sumApprovedHoursForClient } from '../utils/timesheets';
+import type { Task, Timesheet } from '../types';
 
 interface Client {
   id: string;
@@ -43,17 +51,6 @@ interface Client {
   notes?: string;
 }
 
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  status: string;
-  priority: string;
-  deadline?: any;
-  assignedTo?: string;
-  assignedToName?: string;
-}
-
 interface Meeting {
   id: string;
   title: string;
@@ -75,15 +72,18 @@ interface Note {
 export const ClientDetail = () => {
   const { clientId } = useParams<{ clientId: string }>();
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, userRole } = useAuth();
   const [client, setClient] = useState<Client | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'meetings' | 'notes'>('overview');
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasksView, setTasksView] = useState<'list' | 'timeline'>('list');
   const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [newNote, setNewNote] = useState('');
   const [loading, setLoading] = useState(true);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showPlaybookModal, setShowPlaybookModal] = useState(false);
   const [editFormData, setEditFormData] = useState({
     name: '',
     email: '',
@@ -138,16 +138,28 @@ export const ClientDetail = () => {
     const q = query(tasksRef, where('clientId', '==', clientId));
 
     const unsubscribe = onSnapshot(q, (snapshot) => {
-      const taskData = snapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...doc.data() 
-      })) as Task[];
+      const taskData = snapshot.docs
+        .map(doc => mapTaskDoc(doc.id, doc.data()))
+        .filter(task => !isTaskInTrash(task));
       setTasks(taskData);
     });
 
     return () => unsubscribe();
   }, [clientId]);
 
+  // Fetch timesheets with hours booked against this client
+  useEffect(() => {
+    if (!clientId) return;
+
+    const q = query(collection(db, 'timesheets'), where('clientIds', 'array-contains', clientId));
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setTimesheets(snapshot.docs.map(doc => mapTimesheetDoc(doc.id, doc.data())));
+    });
+
+    return () => unsubscribe();
+  }, [clientId]);
+
   // Fetch client-specific meetings
   useEffect(() => {
     if (!clientId) return;
@@ -242,6 +254,15 @@ export const ClientDetail = () => {
     }
   };
 
+  const handleRescheduleTask = async (task: Task, dueDate: Date) => {
+    try {
+      await rescheduleTask(task, dueDate, currentUser?.uid || '');
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      alert('Failed to reschedule task');
+    }
+  };
+
   const handleDeleteMeeting = async (meetingId: string) => {
     if (!confirm('Delete this meeting?')) return;
 
@@ -278,6 +299,18 @@ export const ClientDetail = () => {
     }
   };
 
+  const approvedHours = clientId ? sumApprovedHoursForClient(timesheets, clientId) : 0;
+
+  const approvedHoursByMember = timesheets
+    .filter(sheet => sheet.status === 'approved')
+    .reduce<Record<string, number>>((totals, sheet) => {
+      const hours = sheet.rows
+        .filter(row => row.clientId === clientId)
+        .reduce((sum, row) => sum + getRowTotal(row), 0);
+      if (hours > 0) totals[sheet.userName] = (totals[sheet.userName] || 0) + hours;
+      return totals;
+    }, {});
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -426,7 +459,7 @@ export const ClientDetail = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2 space-y-6">
               {/* Quick Stats */}
-              <div className="grid grid-cols-3 gap-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                 <div className="bg-white border border-gray-200 rounded-lg p-4">
                   <div className="text-sm text-gray-500">Tasks</div>
                   <div className="text-2xl font-bold text-gray-900 mt-1">{tasks.length}</div>
@@ -439,6 +472,10 @@ export const ClientDetail = () => {
                   <div className="text-sm text-gray-500">Notes</div>
                   <div className="text-2xl font-bold text-gray-900 mt-1">{notes.length}</div>
                 </div>
+                <div className="bg-white border border-gray-200 rounded-lg p-4">
+                  <div className="text-sm text-gray-500">Approved Hours</div>
+                  <div className="text-2xl font-bold text-gray-900 mt-1">{approvedHours}</div>
+                </div>
               </div>
 
               {/* Recent Activity */}
@@ -473,6 +510,23 @@ export const ClientDetail = () => {
                 </div>
               )}
 
+              {Object.keys(approvedHoursByMember).length > 0 && (
+                <div className="bg-white border border-gray-200 rounded-lg p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Hours by Team Member</h3>
+                  <div className="space-y-2">
+                    {Object.entries(approvedHoursByMember)
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([name, hours]) => (
+                        <div key={name} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-700">{name}</span>
+                          <span className="font-medium text-gray-900">{hours}h</span>
+                        </div>
+                      ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">From approved timesheets</p>
+                </div>
+              )}
+
               <div className="bg-white border border-gray-200 rounded-lg p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Quick Actions</h3>
                 <div className="space-y-2">
@@ -483,6 +537,15 @@ export const ClientDetail = () => {
                     <Plus className="w-4 h-4" />
                     Create Task
                   </button>
+                  {(userRole === 'superadmin' || userRole === 'admin') && (
+                    <button
+                      onClick={() => setShowPlaybookModal(true)}
+                      className="w-full flex items-center gap-2 px-4 py-2 bg-green-50 text-green-600 rounded-lg hover:bg-green-100 transition-colors"
+                    >
+                      <Layers className="w-4 h-4" />
+                      Apply Playbook
+                    </button>
+                  )}
                   <button
                     onClick={() => navigate(`/meetings?clientId=${clientId}`)}
                     className="w-full flex items-center gap-2 px-4 py-2 bg-purple-50 text-purple-600 rounded-lg hover:bg-purple-100 transition-colors"
@@ -499,7 +562,39 @@ export const ClientDetail = () => {
         {/* Tasks Tab */}
         {activeTab === 'tasks' && (
           <div className="space-y-4">
-            {tasks.length > 0 ? (
+            {tasks.length > 0 && (
+              <div className="flex justify-end">
+                <div className="flex items-center bg-gray-100 rounded-lg p-1">
+                  <button
+                    onClick={() => setTasksView('list')}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                      tasksView === 'list' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <List className="w-4 h-4" />
+                    List
+                  </button>
+                  <button
+                    onClick={() => setTasksView('timeline')}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                      tasksView === 'timeline' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <ChartGantt className="w-4 h-4" />
+                    Timeline
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {tasks.length > 0 && tasksView === 'timeline' ? (
+              <TaskTimeline
+                tasks={tasks}
+                defaultGroupBy="assignee"
+                canReschedule={userRole === 'superadmin' || userRole === 'admin'}
+                onReschedule={handleRescheduleTask}
+              />
+            ) : tasks.length > 0 ? (
               tasks.map((task) => (
                 <div key={task.id} className="bg-white border border-gray-200 rounded-lg p-6">
                   <div className="flex items-start justify-between mb-3">
@@ -640,6 +735,17 @@ export const ClientDetail = () => {
         )}
       </div>
 
+      {showPlaybookModal && client && (
+        <ApplyPlaybookModal
+          client={{ id: client.id, name: client.name }}
+          onClose={() => setShowPlaybookModal(false)}
+          onApplied={(count) => {
+            setShowPlaybookModal(false);
+            alert(`${count} task${count > 1 ? 's' : ''} created from playbook`);
+          }}
+        />
+      )}
+
       {/* Edit Client Modal */}
       {showEditModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
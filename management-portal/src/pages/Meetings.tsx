@@ -10,9 +10,6 @@ import {
   orderBy,
   where,
   Timestamp,
-  getDoc,
-  setDoc,
-  increment,
   onSnapshot
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
@@ -564,27 +561,9 @@ export const Meetings = () => {
                 completedAt: null,
               };
 
+              // userStats and client counters are updated by the taskCreated function.
               await addDoc(collection(db, 'tasks'), taskData);
 
-              const userStatsRef = doc(db, 'userStats', assignment.memberId);
-              const userStatsDoc = await getDoc(userStatsRef);
-
-              if (userStatsDoc.exists()) {
-                await updateDoc(userStatsRef, {
-                  totalTasksAssigned: increment(1)
-                });
-              } else {
-                await setDoc(userStatsRef, {
-                  userId: assignment.memberId,
-                  totalTasksAssigned: 1,
-                  tasksCompleted: 0,
-                  totalPoints: 0,
-                  totalCompletionTime: 0,
-                  averageCompletionTime: 0,
-                  lastUpdated: Timestamp.now()
-                });
-              }
-
               await createNotification(
                 assignment.memberId,
                 'New Task from Meeting 📋',
@@ -0,0 +1,302 @@
+import { useEffect, useState } from 'react';
+import { collection, getDocs, query, Timestamp, where } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { addDays, endOfDay, format, isToday, startOfDay } from 'date-fns';
+import { AlertCircle, Award, CalendarCheck, ChevronLeft, ChevronRight, CornerDownRight, GripVertical, Sun } from 'lucide-react';
+import { db } from '../config/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { AgendaGrid } from '../components/myday/AgendaGrid';
+import { carryOverToNextDay, createPlanBlock, getDayCompletions, getDayPlan, saveDayPlan, toDateKey } from '../utils/dayPlans';
+import { completeTask, getAssignedTaskDocs, isTaskArchived, isTaskInTrash, mapTaskDoc } from '../utils/tasks';
+import { getTaskProgress } from '../utils/subtasks';
+import { getRunningTimers, stopTimer } from '../utils/timeTracking';
+import type { DayPlan, Meeting, PlanBlock, Task, TaskCompletion } from '../types';
+
+export const MyDay = () => {
+  const { currentUser } = useAuth();
+  const [day, setDay] = useState(() => startOfDay(new Date()));
+  const [plan, setPlan] = useState<DayPlan | null>(null);
+  const [openTasks, setOpenTasks] = useState<Task[]>([]);
+  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [completions, setCompletions] = useState<TaskCompletion[]>([]);
+  const [dragged, setDragged] = useState<{ taskId?: string; blockId?: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [success, setSuccess] = useState('');
+  const [error, setError] = useState('');
+
+  const dateKey = toDateKey(day);
+
+  useEffect(() => {
+    if (currentUser) fetchDay();
+  }, [currentUser, dateKey]);
+
+  const fetchDay = async () => {
+    if (!currentUser) return;
+    setLoading(true);
+    try {
+      const [dayPlan, taskDocs, meetingsSnapshot, dayCompletions] = await Promise.all([
+        getDayPlan(currentUser.uid, dateKey),
+        getAssignedTaskDocs(currentUser.uid),
+        getDocs(query(
+          collection(db, 'meetings'),
+          where('date', '>=', Timestamp.fromDate(startOfDay(day))),
+          where('date', '<=', Timestamp.fromDate(endOfDay(day)))
+        )),
+        getDayCompletions(currentUser.uid, dateKey),
+      ]);
+
+      setPlan(dayPlan);
+      setOpenTasks(taskDocs
+        .map(d => mapTaskDoc(d.id, d.data()))
+        .filter(t => (t.status === 'pending' || t.status === 'in-progress') && !isTaskInTrash(t) && !isTaskArchived(t))
+        // A shared task stays open until every assignee is done; our part may already be.
+        .filter(t => !t.assigneeCompletions?.[currentUser.uid])
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime()));
+      setMeetings(meetingsSnapshot.docs
+        .map(d => ({ id: d.id, ...d.data(), date: d.data().date?.toDate() || new Date() }) as Meeting)
+        .filter(m => m.status !== 'cancelled' && (m.attendees.includes(currentUser.uid) || m.createdBy === currentUser.uid)));
+      setCompletions(dayCompletions);
+    } catch (error) {
+      console.error('Error fetching day plan:', error);
+      setError('Failed to load your day');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateBlocks = async (blocks: PlanBlock[]) => {
+    if (!plan) return;
+    const updated = { ...plan, blocks };
+    setPlan(updated);
+    try {
+      await saveDayPlan(updated);
+    } catch (error) {
+      console.error('Error saving day plan:', error);
+      setError('Failed to save your plan');
+    }
+  };
+
+  const handleDropAt = (slot: string) => {
+    if (!plan || !dragged) return;
+
+    if (dragged.blockId) {
+      updateBlocks(plan.blocks.map(b => (b.id === dragged.blockId ? { ...b, start: slot } : b)));
+    } else {
+      const task = openTasks.find(t => t.id === dragged.taskId);
+      if (task) updateBlocks([...plan.blocks, createPlanBlock(task, slot)]);
+    }
+    setDragged(null);
+  };
+
+  const completedTaskIds = new Set(completions.map(c => c.taskId));
+  const openTaskIds = new Set(openTasks.map(t => t.id));
+  // Done today, or no longer open (submitted for review, completed elsewhere).
+  const isFinished = (block: PlanBlock) => completedTaskIds.has(block.taskId) || !openTaskIds.has(block.taskId);
+
+  const handleComplete = async (block: PlanBlock) => {
+    const task = openTasks.find(t => t.id === block.taskId);
+    if (!task || !currentUser) return;
+
+    const progress = getTaskProgress(task);
+    if (progress.open > 0 && !window.confirm(
+      `${progress.open} subtask/checklist item(s) are still open. Complete anyway? Points will be scaled to ${Math.round(progress.ratio * 100)}%.`
+    )) return;
+
+    try {
+      const runningTimers = await getRunningTimers(currentUser.uid);
+      await Promise.all(runningTimers.filter(e => e.taskId === task.id).map(stopTimer));
+
+      // The function refuses tasks that are still blocked.
+      const result = await completeTask(task);
+      if (result.inReview) {
+        setSuccess(`${task.title} submitted for review`);
+      } else if (result.remainingAssignees > 0) {
+        setSuccess(`Your part of ${task.title} is done. Waiting on ${result.remainingAssignees} teammate${result.remainingAssignees > 1 ? 's' : ''}.`);
+      } else {
+        setSuccess(`${task.title} done! ${result.points} points`);
+      }
+      fetchDay();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error completing task:', error);
+      setError(error instanceof FirebaseError && error.code.startsWith('functions/')
+        ? error.message
+        : 'Failed to complete task');
+    }
+  };
+
+  const handleCarryOver = async () => {
+    if (!plan) return;
+    try {
+      const count = await carryOverToNextDay(plan, isFinished);
+      setPlan({ ...plan, carriedOver: true });
+      setSuccess(count > 0 ? `${count} unfinished item${count > 1 ? 's' : ''} moved to tomorrow` : 'Nothing left to carry over');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error carrying over plan:', error);
+      setError('Failed to carry items over');
+    }
+  };
+
+  const plannedIds = new Set(plan?.blocks.map(b => b.taskId));
+  const unplanned = openTasks.filter(t => !plannedIds.has(t.id));
+  const unfinished = (plan?.blocks || []).filter(b => !isFinished(b));
+  const pointsEarned = completions.reduce((sum, c) => sum + (c.points || 0), 0);
+  const isPast = day < startOfDay(new Date());
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <Sun className="h-7 w-7 mr-2 text-amber-500" />
+            My Day
+          </h1>
+          <p className="text-gray-600 mt-1">Drag your tasks onto the agenda to plan the day</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setDay(addDays(day, -1))} className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50" title="Previous day">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="px-3 text-sm font-medium text-gray-900 min-w-[9rem] text-center">
+            {isToday(day) ? 'Today' : format(day, 'EEE, MMM d')}
+          </span>
+          <button onClick={() => setDay(addDays(day, 1))} className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50" title="Next day">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          {!isToday(day) && (
+            <button onClick={() => setDay(startOfDay(new Date()))} className="px-3 py-2 text-sm text-primary-600 hover:bg-primary-50 rounded-lg">
+              Today
+            </button>
+          )}
+        </div>
+      </div>
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 text-green-600 mr-3" />
+          <p className="text-sm text-green-600">{success}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-3" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading || !plan ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+            <div className="card">
+              <h2 className="text-sm font-semibold text-gray-700 mb-3">Open tasks ({unplanned.length})</h2>
+              <div className="space-y-2 max-h-[36rem] overflow-y-auto">
+                {unplanned.map(task => (
+                  <div
+                    key={task.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragged({ taskId: task.id });
+                    }}
+                    onDragEnd={() => setDragged(null)}
+                    className="flex items-start gap-2 p-3 border border-gray-200 rounded-lg bg-white hover:border-primary-300 cursor-move"
+                  >
+                    <GripVertical className="h-4 w-4 text-gray-300 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{task.title}</p>
+                      <p className={`text-xs ${task.dueDate < startOfDay(new Date()) ? 'text-red-600' : 'text-gray-500'}`}>
+                        <span className="capitalize">{task.priority}</span> · due {format(task.dueDate, 'MMM d')}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+                {unplanned.length === 0 && (
+                  <p className="text-sm text-gray-500 py-6 text-center">Everything open is on the agenda</p>
+                )}
+              </div>
+            </div>
+
+            <div className="card lg:col-span-2">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-700">Agenda</h2>
+                <span className="text-xs text-gray-500">
+                  {plan.blocks.length} planned · {meetings.length} meeting{meetings.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <AgendaGrid
+                blocks={plan.blocks}
+                meetings={meetings}
+                isFinished={isFinished}
+                onDropAt={handleDropAt}
+                onDragBlock={(blockId) => setDragged(blockId ? { blockId } : null)}
+                onChangeDuration={(blockId, minutes) =>
+                  updateBlocks(plan.blocks.map(b => (b.id === blockId ? { ...b, durationMinutes: minutes } : b)))}
+                onRemove={(blockId) => updateBlocks(plan.blocks.filter(b => b.id !== blockId))}
+                onComplete={handleComplete}
+              />
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <CalendarCheck className="h-5 w-5 mr-2 text-gray-400" />
+                {isToday(day) ? 'End of day summary' : `Summary for ${format(day, 'MMM d')}`}
+              </h2>
+              {(isToday(day) || isPast) && (
+                <button
+                  onClick={handleCarryOver}
+                  disabled={plan.carriedOver || unfinished.length === 0}
+                  className="flex items-center px-3 py-2 text-sm border border-amber-500 text-amber-700 rounded-lg hover:bg-amber-50 disabled:opacity-50"
+                >
+                  <CornerDownRight className="h-4 w-4 mr-1.5" />
+                  {plan.carriedOver ? 'Carried over' : `Carry ${unfinished.length} unfinished to tomorrow`}
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-500">Planned</p>
+                <p className="text-2xl font-semibold text-gray-900">{plan.blocks.length}</p>
+              </div>
+              <div className="p-3 bg-green-50 rounded-lg">
+                <p className="text-xs text-green-700">Completed</p>
+                <p className="text-2xl font-semibold text-green-700">{completions.length}</p>
+              </div>
+              <div className="p-3 bg-amber-50 rounded-lg">
+                <p className="text-xs text-amber-700">Points earned</p>
+                <p className="text-2xl font-semibold text-amber-700">{pointsEarned}</p>
+              </div>
+            </div>
+
+            {completions.length > 0 ? (
+              <ul className="divide-y divide-gray-100">
+                {completions.map(completion => (
+                  <li key={completion.id} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-900">{completion.taskTitle}</span>
+                    <span className="flex items-center gap-3 text-gray-500">
+                      {format(completion.completedAt, 'h:mm a')}
+                      <span className="flex items-center text-amber-700 font-medium">
+                        <Award className="h-3.5 w-3.5 mr-1" />
+                        {completion.points}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Nothing completed {isToday(day) ? 'yet today' : 'on this day'}.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
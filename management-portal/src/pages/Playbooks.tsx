@@ -0,0 +1,491 @@
+import { useEffect, useState } from 'react';
+import { Edit2, FileText, Layers, Plus, Trash2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Playbook, TaskTemplate, UserRole } from '../types';
+import {
+  deletePlaybook,
+  deleteTemplate,
+  getPlaybooks,
+  getPlaybookTemplates,
+  getTemplates,
+  savePlaybook,
+  saveTemplate,
+  type PlaybookDraft,
+  type TaskTemplateDraft
+} from '../utils/templates';
+
+const EMPTY_TEMPLATE: TaskTemplateDraft = {
+  title: '',
+  description: '',
+  priority: 'medium',
+  dueOffsetDays: 0,
+  defaultAssigneeRole: null,
+};
+
+const EMPTY_PLAYBOOK: PlaybookDraft = {
+  name: '',
+  description: '',
+  templateIds: [],
+};
+
+const formatOffset = (days: number) => {
+  if (days === 0) return 'Due on start day';
+  return `Due ${days} day${days === 1 ? '' : 's'} after start`;
+};
+
+export const Playbooks = () => {
+  const { currentUser, userData } = useAuth();
+  const [activeTab, setActiveTab] = useState<'playbooks' | 'templates'>('playbooks');
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [templateForm, setTemplateForm] = useState<TaskTemplateDraft>(EMPTY_TEMPLATE);
+  const [playbookForm, setPlaybookForm] = useState<PlaybookDraft>(EMPTY_PLAYBOOK);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [showPlaybookModal, setShowPlaybookModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [templateList, playbookList] = await Promise.all([getTemplates(), getPlaybooks()]);
+      setTemplates(templateList);
+      setPlaybooks(playbookList);
+    } catch (error) {
+      console.error('Error fetching playbooks:', error);
+      setError('Failed to load playbooks');
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const openTemplateModal = (template?: TaskTemplate) => {
+    setEditingId(template?.id || null);
+    setTemplateForm(template ? {
+      title: template.title,
+      description: template.description,
+      priority: template.priority,
+      dueOffsetDays: template.dueOffsetDays,
+      defaultAssigneeRole: template.defaultAssigneeRole || null,
+    } : EMPTY_TEMPLATE);
+    setShowTemplateModal(true);
+  };
+
+  const openPlaybookModal = (playbook?: Playbook) => {
+    setEditingId(playbook?.id || null);
+    setPlaybookForm(playbook ? {
+      name: playbook.name,
+      description: playbook.description,
+      templateIds: [...playbook.templateIds],
+    } : EMPTY_PLAYBOOK);
+    setShowPlaybookModal(true);
+  };
+
+  const closeModals = () => {
+    setShowTemplateModal(false);
+    setShowPlaybookModal(false);
+    setEditingId(null);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!currentUser || !templateForm.title.trim()) {
+      setError('Template title is required');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await saveTemplate(
+        { ...templateForm, title: templateForm.title.trim(), dueOffsetDays: Math.max(templateForm.dueOffsetDays, 0) },
+        editingId,
+        currentUser.uid,
+        userData?.displayName || ''
+      );
+      closeModals();
+      await fetchData();
+      showSuccess(editingId ? 'Template updated' : 'Template created');
+    } catch (error) {
+      console.error('Error saving template:', error);
+      setError('Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: TaskTemplate) => {
+    if (!confirm(`Delete "${template.title}"? It will be removed from every playbook.`)) return;
+    try {
+      await deleteTemplate(template.id);
+      await fetchData();
+      showSuccess('Template deleted');
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      setError('Failed to delete template');
+    }
+  };
+
+  const handleSavePlaybook = async () => {
+    if (!currentUser || !playbookForm.name.trim()) {
+      setError('Playbook name is required');
+      return;
+    }
+    if (playbookForm.templateIds.length === 0) {
+      setError('Select at least one template');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await savePlaybook(
+        { ...playbookForm, name: playbookForm.name.trim() },
+        editingId,
+        currentUser.uid,
+        userData?.displayName || ''
+      );
+      closeModals();
+      await fetchData();
+      showSuccess(editingId ? 'Playbook updated' : 'Playbook created');
+    } catch (error) {
+      console.error('Error saving playbook:', error);
+      setError('Failed to save playbook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePlaybook = async (playbook: Playbook) => {
+    if (!confirm(`Delete playbook "${playbook.name}"? Its templates are kept.`)) return;
+    try {
+      await deletePlaybook(playbook.id);
+      await fetchData();
+      showSuccess('Playbook deleted');
+    } catch (error) {
+      console.error('Error deleting playbook:', error);
+      setError('Failed to delete playbook');
+    }
+  };
+
+  const togglePlaybookTemplate = (templateId: string) => {
+    const { templateIds } = playbookForm;
+    setPlaybookForm({
+      ...playbookForm,
+      templateIds: templateIds.includes(templateId)
+        ? templateIds.filter(id => id !== templateId)
+        : [...templateIds, templateId],
+    });
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Playbooks</h1>
+          <p className="text-gray-600 mt-1">Reusable task templates and the playbooks that bundle them</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center bg-gray-100 rounded-lg p-1">
+            <button
+              onClick={() => setActiveTab('playbooks')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                activeTab === 'playbooks' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Layers className="h-4 w-4" />
+              Playbooks
+            </button>
+            <button
+              onClick={() => setActiveTab('templates')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                activeTab === 'templates' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <FileText className="h-4 w-4" />
+              Templates
+            </button>
+          </div>
+          <button
+            onClick={() => (activeTab === 'playbooks' ? openPlaybookModal() : openTemplateModal())}
+            className="btn-primary flex items-center"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            {activeTab === 'playbooks' ? 'New Playbook' : 'New Template'}
+          </button>
+        </div>
+      </div>
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-600">{success}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {activeTab === 'playbooks' ? (
+        playbooks.length === 0 ? (
+          <div className="card text-center py-12">
+            <Layers className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No playbooks yet. Create templates first, then bundle them into a playbook.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {playbooks.map((playbook) => {
+              const items = getPlaybookTemplates(playbook, templates);
+              return (
+                <div key={playbook.id} className="card">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{playbook.name}</h3>
+                      {playbook.description && <p className="text-sm text-gray-500 mt-1">{playbook.description}</p>}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => openPlaybookModal(playbook)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                        title="Edit playbook"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeletePlaybook(playbook)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete playbook"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <ul className="space-y-1.5">
+                    {items.map((template) => (
+                      <li key={template.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-800">{template.title}</span>
+                        <span className="text-xs text-gray-500">Day +{template.dueOffsetDays}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )
+      ) : templates.length === 0 ? (
+        <div className="card text-center py-12">
+          <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No templates yet</p>
+        </div>
+      ) : (
+        <div className="card divide-y divide-gray-100">
+          {templates.map((template) => (
+            <div key={template.id} className="py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">{template.title}</p>
+                {template.description && <p className="text-sm text-gray-500 mt-0.5">{template.description}</p>}
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                  <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-md capitalize">{template.priority}</span>
+                  <span className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-md">{formatOffset(template.dueOffsetDays)}</span>
+                  {template.defaultAssigneeRole && (
+                    <span className="px-2 py-0.5 bg-purple-50 text-purple-700 rounded-md capitalize">
+                      Default: {template.defaultAssigneeRole}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => openTemplateModal(template)}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                  title="Edit template"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDeleteTemplate(template)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  title="Delete template"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showTemplateModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+          <div className="bg-white rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900">{editingId ? 'Edit Template' : 'New Template'}</h2>
+              <button onClick={closeModals} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Title *</label>
+                <input
+                  type="text"
+                  value={templateForm.title}
+                  onChange={(e) => setTemplateForm({ ...templateForm, title: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                  value={templateForm.description}
+                  onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+                  rows={3}
+                  className={`${inputClass} resize-none`}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
+                  <select
+                    value={templateForm.priority}
+                    onChange={(e) => setTemplateForm({ ...templateForm, priority: e.target.value as TaskTemplate['priority'] })}
+                    className={inputClass}
+                  >
+                    <option value="low">Low</option>
+                    <option value="medium">Medium</option>
+                    <option value="high">High</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Due after (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={templateForm.dueOffsetDays}
+                    onChange={(e) => setTemplateForm({ ...templateForm, dueOffsetDays: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Default assignee</label>
+                  <select
+                    value={templateForm.defaultAssigneeRole || ''}
+                    onChange={(e) => setTemplateForm({
+                      ...templateForm,
+                      defaultAssigneeRole: (e.target.value || null) as UserRole | null,
+                    })}
+                    className={inputClass}
+                  >
+                    <option value="">Choose when applying</option>
+                    <option value="member">Member</option>
+                    <option value="admin">Admin</option>
+                    <option value="superadmin">Super Admin</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={closeModals}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-gray-700 font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveTemplate}
+                  disabled={saving}
+                  className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showPlaybookModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+          <div className="bg-white rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900">{editingId ? 'Edit Playbook' : 'New Playbook'}</h2>
+              <button onClick={closeModals} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={playbookForm.name}
+                  onChange={(e) => setPlaybookForm({ ...playbookForm, name: e.target.value })}
+                  placeholder="e.g. New client onboarding"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                  value={playbookForm.description}
+                  onChange={(e) => setPlaybookForm({ ...playbookForm, description: e.target.value })}
+                  rows={2}
+                  className={`${inputClass} resize-none`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Templates ({playbookForm.templateIds.length} selected)
+                </label>
+                {templates.length === 0 ? (
+                  <p className="text-sm text-gray-500">Create a template first.</p>
+                ) : (
+                  <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto divide-y divide-gray-100">
+                    {templates.map((template) => (
+                      <label key={template.id} className="flex items-center gap-3 p-3 hover:bg-gray-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={playbookForm.templateIds.includes(template.id)}
+                          onChange={() => togglePlaybookTemplate(template.id)}
+                          className="h-4 w-4 text-primary-600 rounded"
+                        />
+                        <span className="flex-1 text-sm text-gray-900">{template.title}</span>
+                        <span className="text-xs text-gray-500">Day +{template.dueOffsetDays}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={closeModals}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-gray-700 font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSavePlaybook}
+                  disabled={saving}
+                  className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Playbook'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -8,9 +8,15 @@ import {
 } from 'recharts';
 import { 
   Award, Clock, CheckCircle, AlertCircle, 
-  Users, Target, Download, TrendingUp
+  Users, Target, Download, TrendingUp, Timer, ClipboardCheck, Tag, Siren
 } from 'lucide-react';
-import { format, differenceInDays } from 'date-fns';
+import { format, differenceInDays, addDays } from 'date-fns';
+import { formatDuration, mapTimeEntryDoc, sumMinutesBy } from '../utils/timeTracking';
+import { getRowTotal, mapTimesheetDoc } from '../utils/timesheets';
+import { formatCustomFieldValue, getCustomFields, NO_VALUE } from '../utils/taskFields';
+import { getSlaBreaches, getSlaCompliance, getSlaSettings } from '../utils/sla';
+import { getAssignedTaskDocs } from '../utils/tasks';
+import type { CustomFieldDefinition, CustomFieldValue, SlaBreach, SlaRule, TimeEntry, Timesheet } from '../types';
 
 interface UserStats {
   userId: string;
@@ -27,8 +33,10 @@ interface Task {
   title: string;
   status: string;
   priority: string;
-  assignedTo: string;
+  assignedTo: string | string[];
   assignedToName: string;
+  clientId?: string;
+  clientName?: string;
   createdAt: Date;
   assignedAt: Date;
   dueDate: Date;
@@ -36,6 +44,17 @@ interface Task {
   completionTimeHours?: number;
   points?: number;
   isEarlyComplete?: boolean;
+  loggedMinutes?: number;
+  labels?: string[];
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+interface GroupStats {
+  group: string;
+  total: number;
+  completed: number;
+  points: number;
+  loggedMinutes: number;
 }
 
 // ✅ Minimal Color Palette
@@ -50,6 +69,7 @@ const COLORS = {
 const STATUS_COLORS = {
   completed: COLORS.success,
   'in-progress': COLORS.primary,
+  'in-review': COLORS.gray,
   pending: COLORS.warning,
 };
 
@@ -64,15 +84,22 @@ export const Reports = () => {
   const [loading, setLoading] = useState(true);
   const [selectedUser, setSelectedUser] = useState<string>('all');
   const [dateRange, setDateRange] = useState<'week' | 'month' | 'all'>('month');
+  const [groupBy, setGroupBy] = useState<string>('label'); // 'label' or a custom field id
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
   
   const [users, setUsers] = useState<any[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [userStats, setUserStats] = useState<UserStats[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [approvedTimesheets, setApprovedTimesheets] = useState<Timesheet[]>([]);
+  const [slaRules, setSlaRules] = useState<SlaRule[]>([]);
+  const [slaBreaches, setSlaBreaches] = useState<SlaBreach[]>([]);
   
   const [totalTasks, setTotalTasks] = useState(0);
   const [completedTasks, setCompletedTasks] = useState(0);
   const [pendingTasks, setPendingTasks] = useState(0);
   const [inProgressTasks, setInProgressTasks] = useState(0);
+  const [inReviewTasks, setInReviewTasks] = useState(0);
   const [totalPoints, setTotalPoints] = useState(0);
   const [averageCompletionTime, setAverageCompletionTime] = useState(0);
 
@@ -88,6 +115,10 @@ export const Reports = () => {
       await fetchUsers();
       await fetchTasks();
       await fetchUserStats();
+      await fetchTimeEntries();
+      await fetchTimesheets();
+      setCustomFields(await getCustomFields());
+      await fetchSlaData();
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -105,18 +136,12 @@ export const Reports = () => {
   };
 
   const fetchTasks = async () => {
-    let q = query(collection(db, 'tasks'), orderBy('createdAt', 'desc'));
-    
-    if (selectedUser !== 'all') {
-      q = query(
-        collection(db, 'tasks'),
-        where('assignedTo', '==', selectedUser),
-        orderBy('createdAt', 'desc')
-      );
-    }
+    const taskDocs = selectedUser === 'all'
+      ? (await getDocs(query(collection(db, 'tasks'), orderBy('createdAt', 'desc')))).docs
+      : await getAssignedTaskDocs(selectedUser);
 
-    const snapshot = await getDocs(q);
-    const tasksData = snapshot.docs.map(doc => ({
+    // Archived tasks are still real work; only the trash is left out.
+    const tasksData = taskDocs.filter(doc => !doc.data().deletedAt).map(doc => ({
       id: doc.id,
       ...doc.data(),
       createdAt: doc.data().createdAt?.toDate() || new Date(),
@@ -124,12 +149,19 @@ export const Reports = () => {
       dueDate: doc.data().dueDate?.toDate() || new Date(),
       completedAt: doc.data().completedAt?.toDate() || null,
     })) as Task[];
+    tasksData.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
     const filteredTasks = filterTasksByDateRange(tasksData);
     setTasks(filteredTasks);
     calculateSummaryStats(filteredTasks);
   };
 
+  const fetchSlaData = async () => {
+    const [settings, breaches] = await Promise.all([getSlaSettings(), getSlaBreaches()]);
+    setSlaRules(settings.rules);
+    setSlaBreaches(breaches);
+  };
+
   const fetchUserStats = async () => {
     const snapshot = await getDocs(collection(db, 'userStats'));
     const statsData = snapshot.docs.map(doc => {
@@ -153,6 +185,50 @@ export const Reports = () => {
     setUserStats(sortedStats);
   };
 
+  const fetchTimeEntries = async () => {
+    let q = query(collection(db, 'timeEntries'));
+
+    if (selectedUser !== 'all') {
+      q = query(collection(db, 'timeEntries'), where('userId', '==', selectedUser));
+    }
+
+    const snapshot = await getDocs(q);
+    const now = new Date();
+    const entries = snapshot.docs
+      .map(doc => mapTimeEntryDoc(doc.id, doc.data()))
+      .filter(entry => entry.endedAt)
+      .filter(entry => {
+        switch (dateRange) {
+          case 'week': return differenceInDays(now, entry.startedAt) <= 7;
+          case 'month': return differenceInDays(now, entry.startedAt) <= 30;
+          default: return true;
+        }
+      });
+
+    setTimeEntries(entries);
+  };
+
+  const fetchTimesheets = async () => {
+    const snapshot = await getDocs(
+      query(collection(db, 'timesheets'), where('status', '==', 'approved'))
+    );
+    const now = new Date();
+    const sheets = snapshot.docs
+      .map(doc => mapTimesheetDoc(doc.id, doc.data()))
+      .filter(sheet => selectedUser === 'all' || sheet.userId === selectedUser)
+      .filter(sheet => {
+        const weekEnd = addDays(sheet.weekStart, 6);
+        switch (dateRange) {
+          case 'week': return differenceInDays(now, weekEnd) <= 7;
+          case 'month': return differenceInDays(now, weekEnd) <= 30;
+          default: return true;
+        }
+      })
+      .sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+
+    setApprovedTimesheets(sheets);
+  };
+
   const filterTasksByDateRange = (tasksData: Task[]) => {
     const now = new Date();
     
@@ -171,6 +247,7 @@ export const Reports = () => {
     setCompletedTasks(tasksData.filter(t => t.status === 'completed').length);
     setPendingTasks(tasksData.filter(t => t.status === 'pending').length);
     setInProgressTasks(tasksData.filter(t => t.status === 'in-progress').length);
+    setInReviewTasks(tasksData.filter(t => t.status === 'in-review').length);
     
     const completedTasksData = tasksData.filter(t => t.status === 'completed');
     const points = completedTasksData.reduce((sum, t) => sum + (t.points || 0), 0);
@@ -186,6 +263,7 @@ export const Reports = () => {
     return [
       { name: 'Completed', value: completedTasks, color: STATUS_COLORS.completed },
       { name: 'In Progress', value: inProgressTasks, color: STATUS_COLORS['in-progress'] },
+      { name: 'In Review', value: inReviewTasks, color: STATUS_COLORS['in-review'] },
       { name: 'Pending', value: pendingTasks, color: STATUS_COLORS.pending }
     ].filter(item => item.value > 0);
   };
@@ -222,6 +300,41 @@ export const Reports = () => {
     return last7Days;
   };
 
+  // A task with several labels counts towards each of them.
+  const getGroupStats = (): GroupStats[] => {
+    const field = customFields.find(f => f.id === groupBy);
+    const userNames = Object.fromEntries(users.map(u => [u.uid, u.displayName]));
+    const groups: Record<string, GroupStats> = {};
+
+    for (const task of tasks) {
+      const keys = field
+        ? [formatCustomFieldValue(field, task.customFields?.[field.id], userNames) || NO_VALUE]
+        : (task.labels || []).length > 0 ? task.labels! : ['No label'];
+
+      for (const key of keys) {
+        const stats = groups[key] ||= { group: key, total: 0, completed: 0, points: 0, loggedMinutes: 0 };
+        stats.total++;
+        stats.loggedMinutes += task.loggedMinutes || 0;
+        if (task.status === 'completed') {
+          stats.completed++;
+          stats.points += task.points || 0;
+        }
+      }
+    }
+
+    return Object.values(groups).sort((a, b) => b.total - a.total);
+  };
+
+  const getSlaComplianceByUser = () => getSlaCompliance(tasks, slaRules, slaBreaches, task => {
+    const ids: string[] = Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+    return ids.map(id => ({ key: id, label: users.find(u => u.uid === id)?.displayName || task.assignedToName || 'Unknown' }));
+  });
+
+  const getSlaComplianceByClient = () => getSlaCompliance(tasks, slaRules, slaBreaches, task => [{
+    key: task.clientId || 'none',
+    label: task.clientName || 'No client',
+  }]);
+
   const getTopPerformers = () => {
     return userStats.slice(0, 5);
   };
@@ -250,6 +363,7 @@ export const Reports = () => {
       'Tasks Completed': stat.tasksCompleted,
       'Total Points': stat.totalPoints,
       'Avg Completion Time (hrs)': stat.averageCompletionTime.toFixed(2),
+      'Logged Effort (hrs)': ((loggedMinutesByUser[stat.userId] || 0) / 60).toFixed(2),
       'Completion Rate (%)': stat.onTimeDeliveryRate
     }));
 
@@ -266,6 +380,40 @@ export const Reports = () => {
     window.URL.revokeObjectURL(url);
   };
 
+  // One line per timesheet row so the file can be pivoted by client, user or week.
+  const exportTimesheetsToCSV = () => {
+    if (approvedTimesheets.length === 0) {
+      alert('No approved timesheets to export');
+      return;
+    }
+
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const headers = ['Week Starting', 'User', 'Client', 'Task', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun', 'Total Hours', 'Approved By'];
+
+    const rows = approvedTimesheets.flatMap(sheet =>
+      sheet.rows.map(row => [
+        format(sheet.weekStart, 'yyyy-MM-dd'),
+        escape(sheet.userName),
+        escape(row.clientName || 'No Client'),
+        escape(row.taskTitle),
+        ...row.hours.map(h => h.toString()),
+        getRowTotal(row).toString(),
+        escape(sheet.reviewedByName || ''),
+      ].join(','))
+    );
+    const csv = [headers.join(','), ...rows].join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `timesheets-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const loggedMinutesByUser = sumMinutesBy(timeEntries, 'userId');
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -306,14 +454,24 @@ export const Reports = () => {
           <h1 className="text-2xl font-semibold text-gray-900">Reports</h1>
           <p className="text-sm text-gray-500 mt-1">Team analytics and performance</p>
         </div>
-        <button
-          onClick={exportToCSV}
-          disabled={userStats.length === 0}
-          className="inline-flex items-center px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-        >
-          <Download className="h-4 w-4 mr-2" />
-          Export
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportTimesheetsToCSV}
+            disabled={approvedTimesheets.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            Export Timesheets
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={userStats.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -351,7 +509,7 @@ export const Reports = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
         <div className="bg-white rounded-lg border border-gray-200 p-4">
           <div className="flex items-center justify-between mb-2">
             <p className="text-xs font-medium text-gray-500">Total Tasks</p>
@@ -388,6 +546,17 @@ export const Reports = () => {
             {formatTime(averageCompletionTime)}
           </p>
         </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-medium text-gray-500">Logged Effort</p>
+            <Timer className="h-4 w-4 text-gray-400" />
+          </div>
+          <p className="text-2xl font-semibold text-gray-900">
+            {formatDuration(timeEntries.reduce((sum, e) => sum + e.durationMinutes, 0))}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">{timeEntries.length} entries</p>
+        </div>
       </div>
 
       {/* Charts */}
@@ -440,6 +609,125 @@ export const Reports = () => {
         </div>
       </div>
 
+      {/* Breakdown by label or custom field */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="p-5 border-b border-gray-200 flex items-center justify-between gap-4">
+          <h3 className="text-sm font-medium text-gray-900 flex items-center">
+            <Tag className="h-4 w-4 mr-2 text-gray-400" />
+            Breakdown
+          </h3>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="label">By Label</option>
+            {customFields.map(f => (
+              <option key={f.id} value={f.id}>By {f.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="text-left py-3 px-4 text-xs font-medium text-gray-600">Group</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Tasks</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Completed</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Points</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Logged</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {getGroupStats().map(stat => (
+                <tr key={stat.group} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900">{stat.group}</td>
+                  <td className="py-3 px-4 text-center text-sm text-gray-600">{stat.total}</td>
+                  <td className="py-3 px-4 text-center">
+                    <span className="inline-flex items-center px-2 py-0.5 bg-green-50 text-green-700 rounded text-xs font-medium">
+                      {stat.completed}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-center">
+                    <span className="inline-flex items-center px-2 py-0.5 bg-amber-50 text-amber-700 rounded text-xs font-medium">
+                      {stat.points}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-center text-sm text-gray-600">{formatDuration(stat.loggedMinutes)}</td>
+                  <td className="py-3 px-4 text-center text-sm text-gray-600">
+                    {((stat.completed / stat.total) * 100).toFixed(0)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {tasks.length === 0 && (
+            <div className="text-center py-12">
+              <Tag className="h-10 w-10 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No tasks in this period</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* SLA compliance */}
+      {slaRules.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {([
+            ['Per User', getSlaComplianceByUser()],
+            ['Per Client', getSlaComplianceByClient()],
+          ] as const).map(([title, rows]) => (
+            <div key={title} className="bg-white rounded-lg border border-gray-200">
+              <div className="p-5 border-b border-gray-200">
+                <h3 className="text-sm font-medium text-gray-900 flex items-center">
+                  <Siren className="h-4 w-4 mr-2 text-gray-400" />
+                  SLA Compliance {title}
+                </h3>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4 text-xs font-medium text-gray-600">Name</th>
+                      <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Tracked</th>
+                      <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Breached</th>
+                      <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Compliance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.key} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 text-sm font-medium text-gray-900">{row.label}</td>
+                        <td className="py-3 px-4 text-center text-sm text-gray-600">{row.tracked}</td>
+                        <td className="py-3 px-4 text-center">
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                            row.breached > 0 ? 'bg-red-50 text-red-700' : 'bg-gray-50 text-gray-600'
+                          }`}>
+                            {row.breached}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-center text-sm text-gray-600">{row.rate}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {rows.length === 0 && (
+                  <div className="text-center py-12">
+                    <Siren className="h-10 w-10 text-gray-300 mx-auto mb-2" />
+                    <p className="text-sm text-gray-500">No tasks covered by an SLA rule in this period</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Leaderboard */}
       <div className="bg-white rounded-lg border border-gray-200">
         <div className="p-5 border-b border-gray-200">
@@ -456,6 +744,7 @@ export const Reports = () => {
                 <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Completed</th>
                 <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Points</th>
                 <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Avg Time</th>
+                <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Logged</th>
                 <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Rate</th>
               </tr>
             </thead>
@@ -486,6 +775,9 @@ export const Reports = () => {
                   <td className="py-3 px-4 text-center text-sm text-gray-600">
                     {formatTime(stat.averageCompletionTime)}
                   </td>
+                  <td className="py-3 px-4 text-center text-sm text-gray-600">
+                    {formatDuration(loggedMinutesByUser[stat.userId] || 0)}
+                  </td>
                   <td className="py-3 px-4 text-center">
                     <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
                       stat.onTimeDeliveryRate >= 80 
@@ -528,6 +820,7 @@ export const Reports = () => {
                   <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Assigned</th>
                   <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Completed</th>
                   <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Time</th>
+                  <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Logged</th>
                   <th className="text-center py-3 px-4 text-xs font-medium text-gray-600">Points</th>
                 </tr>
               </thead>
@@ -541,6 +834,8 @@ export const Reports = () => {
                           ? 'bg-green-50 text-green-700'
                           : task.status === 'in-progress'
                           ? 'bg-blue-50 text-blue-700'
+                          : task.status === 'in-review'
+                          ? 'bg-gray-100 text-gray-700'
                           : 'bg-amber-50 text-amber-700'
                       }`}>
                         {task.status}
@@ -566,6 +861,9 @@ export const Reports = () => {
                     <td className="py-3 px-4 text-center text-xs text-gray-600">
                       {task.completionTimeHours ? formatTime(task.completionTimeHours) : '-'}
                     </td>
+                    <td className="py-3 px-4 text-center text-xs text-gray-600">
+                      {task.loggedMinutes ? formatDuration(task.loggedMinutes) : '-'}
+                    </td>
                     <td className="py-3 px-4 text-center text-xs text-gray-600">
                       {task.points ? (
                         <span className="font-medium">
@@ -3,11 +3,17 @@ import { useAuth } from '../contexts/AuthContext';
 import { doc, updateDoc } from 'firebase/firestore';
 import { updatePassword, EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth';
 import { db } from '../config/firebase';
-import { User, Mail, Briefcase, Shield, Save, Key, AlertCircle } from 'lucide-react';
+import { PointsPolicyEditor } from '../components/settings/PointsPolicyEditor';
+import { HolidayCalendar } from '../components/settings/HolidayCalendar';
+import { CustomFieldManager } from '../components/settings/CustomFieldManager';
+import { SlaRuleManager } from '../components/settings/SlaRuleManager';
+import { QuietHoursEditor } from '../components/settings/QuietHoursEditor';
+import { ReminderSettingsEditor } from '../components/settings/ReminderSettingsEditor';
+import { User, Mail, Briefcase, Shield, Save, Key, AlertCircle, Award, CalendarOff, SlidersHorizontal, Siren, Bell } from 'lucide-react';
 
 export const Settings = () => {
-  const { currentUser, userData } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'security'>('profile');
+  const { currentUser, userData, userRole } = useAuth();
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'notifications' | 'scoring' | 'holidays' | 'fields' | 'sla'>('profile');
   const [success, setSuccess] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
@@ -135,6 +141,69 @@ export const Settings = () => {
             <Key className="h-5 w-5 mr-3" />
             <span className="font-medium">Security</span>
           </button>
+          <button
+            onClick={() => setActiveTab('notifications')}
+            className={`w-full flex items-center px-4 py-3 rounded-lg text-left transition-colors ${
+              activeTab === 'notifications'
+                ? 'bg-primary-50 text-primary-600'
+                : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <Bell className="h-5 w-5 mr-3" />
+            <span className="font-medium">Notifications</span>
+          </button>
+          {userRole === 'superadmin' && (
+            <button
+              onClick={() => setActiveTab('scoring')}
+              className={`w-full flex items-center px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === 'scoring'
+                  ? 'bg-primary-50 text-primary-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Award className="h-5 w-5 mr-3" />
+              <span className="font-medium">Scoring</span>
+            </button>
+          )}
+          {userRole === 'superadmin' && (
+            <button
+              onClick={() => setActiveTab('holidays')}
+              className={`w-full flex items-center px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === 'holidays'
+                  ? 'bg-primary-50 text-primary-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <CalendarOff className="h-5 w-5 mr-3" />
+              <span className="font-medium">Holidays</span>
+            </button>
+          )}
+          {userRole === 'superadmin' && (
+            <button
+              onClick={() => setActiveTab('fields')}
+              className={`w-full flex items-center px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === 'fields'
+                  ? 'bg-primary-50 text-primary-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <SlidersHorizontal className="h-5 w-5 mr-3" />
+              <span className="font-medium">Task Fields</span>
+            </button>
+          )}
+          {userRole === 'superadmin' && (
+            <button
+              onClick={() => setActiveTab('sla')}
+              className={`w-full flex items-center px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === 'sla'
+                  ? 'bg-primary-50 text-primary-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Siren className="h-5 w-5 mr-3" />
+              <span className="font-medium">SLA Rules</span>
+            </button>
+          )}
         </div>
 
         <div className="lg:col-span-3">
@@ -310,6 +379,94 @@ export const Settings = () => {
               </div>
             </div>
           )}
+
+          {activeTab === 'scoring' && userRole === 'superadmin' && currentUser && (
+            <PointsPolicyEditor
+              currentUserId={currentUser.uid}
+              currentUserName={userData?.displayName || ''}
+              onSuccess={(message) => {
+                setError('');
+                setSuccess(message);
+                setTimeout(() => setSuccess(''), 3000);
+              }}
+              onError={(message) => {
+                setSuccess('');
+                setError(message);
+              }}
+            />
+          )}
+
+          {activeTab === 'holidays' && userRole === 'superadmin' && (
+            <HolidayCalendar
+              onSuccess={(message) => {
+                setError('');
+                setSuccess(message);
+                setTimeout(() => setSuccess(''), 3000);
+              }}
+              onError={(message) => {
+                setSuccess('');
+                setError(message);
+              }}
+            />
+          )}
+
+          {activeTab === 'fields' && userRole === 'superadmin' && (
+            <CustomFieldManager
+              onSuccess={(message) => {
+                setError('');
+                setSuccess(message);
+                setTimeout(() => setSuccess(''), 3000);
+              }}
+              onError={(message) => {
+                setSuccess('');
+                setError(message);
+              }}
+            />
+          )}
+
+          {activeTab === 'notifications' && currentUser && (
+            <div className="space-y-6">
+              <QuietHoursEditor
+                userId={currentUser.uid}
+                onSuccess={(message) => {
+                  setError('');
+                  setSuccess(message);
+                  setTimeout(() => setSuccess(''), 3000);
+                }}
+                onError={(message) => {
+                  setSuccess('');
+                  setError(message);
+                }}
+              />
+              {userRole === 'superadmin' && (
+                <ReminderSettingsEditor
+                  onSuccess={(message) => {
+                    setError('');
+                    setSuccess(message);
+                    setTimeout(() => setSuccess(''), 3000);
+                  }}
+                  onError={(message) => {
+                    setSuccess('');
+                    setError(message);
+                  }}
+                />
+              )}
+            </div>
+          )}
+
+          {activeTab === 'sla' && userRole === 'superadmin' && (
+            <SlaRuleManager
+              onSuccess={(message) => {
+                setError('');
+                setSuccess(message);
+                setTimeout(() => setSuccess(''), 3000);
+              }}
+              onError={(message) => {
+                setSuccess('');
+                setError(message);
+              }}
+            />
+          )}
         </div>
       </div>
     </div>
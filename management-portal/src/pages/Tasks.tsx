@@ -1,23 +1,126 @@
 import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { 
   collection, 
   query, 
   getDocs, 
   addDoc, 
   updateDoc,
-  deleteDoc,
   doc,
   orderBy,
   where,
   Timestamp,
   onSnapshot,
-  setDoc,
-  getDoc,
-  increment
+  getDoc
 } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
 import { db } from '../config/firebase';
 import { useAuth } from '../contexts/AuthContext';
-import { createNotification } from '../utils/notifications';
+import { createNotification, getTaskChatLink } from '../utils/notifications';
+import { getTaskProgress, serializeSubtasks } from '../utils/subtasks';
+import { describeRecurrence, getHolidays, getTaskRecurrence, moveRuleAnchor, ruleFromPattern } from '../utils/recurrence';
+import {
+  addDependency,
+  getOpenBlockers,
+  removeDependency
+} from '../utils/dependencies';
+import {
+  archiveTask,
+  canReviewTask,
+  completeTask,
+  createTask,
+  followTask,
+  getAssignedTaskDocs,
+  getAssigneeIds,
+  getReassignmentFields,
+  getTrashPurgeDate,
+  isFollowingTask,
+  isSharedTask,
+  isTaskArchived,
+  isTaskAssignee,
+  isTaskInTrash,
+  mapTaskDoc,
+  moveTaskToTrash,
+  notifyReassignment,
+  notifyTaskAudience,
+  purgeTask,
+  reassignTask,
+  requestTaskChanges,
+  rescheduleTask,
+  restoreTask,
+  TRASH_RETENTION_DAYS,
+  unarchiveTask,
+  unfollowTask
+} from '../utils/tasks';
+import { encodeMentions, extractMentionIds, mentionsToPlainText } from '../utils/mentions';
+import { MentionInput } from '../components/mentions/MentionInput';
+import {
+  editComment,
+  mapCommentDoc,
+  MAX_ATTACHMENT_SIZE,
+  toggleReaction,
+  uploadCommentAttachment
+} from '../utils/comments';
+import { POINTS_SPLIT_LABELS } from '../utils/pointsPolicy';
+import { TASK_STATUSES } from '../utils/taskStatus';
+import { formatDuration, getRunningTimers, stopTimer } from '../utils/timeTracking';
+import { SLA_BREACH_LABELS } from '../utils/sla';
+import { getUserPreferences, saveUserPreferences } from '../utils/preferences';
+import { buildWorkloads, getOpenTasks, type MemberWorkload } from '../utils/workload';
+import { SubtaskList } from '../components/tasks/SubtaskList';
+import { DependencyList } from '../components/tasks/DependencyList';
+import { TaskBoard } from '../components/tasks/TaskBoard';
+import { TaskTimeline } from '../components/tasks/TaskTimeline';
+import { TimeTracker } from '../components/tasks/TimeTracker';
+import { RecurrenceEditor } from '../components/tasks/RecurrenceEditor';
+import { CommentBubble } from '../components/tasks/CommentBubble';
+import { ApplyPlaybookModal } from '../components/playbooks/ApplyPlaybookModal';
+import { LabelPicker } from '../components/tasks/LabelPicker';
+import { CustomFieldInputs } from '../components/tasks/CustomFieldInputs';
+import { SavedViewsBar } from '../components/tasks/SavedViewsBar';
+import { BulkActionBar } from '../components/tasks/BulkActionBar';
+import { ReviewPanel } from '../components/tasks/ReviewPanel';
+import { ReassignPanel } from '../components/tasks/ReassignPanel';
+import { ImportTasksModal } from '../components/tasks/ImportTasksModal';
+import { AssigneeSuggestions } from '../components/tasks/AssigneeSuggestions';
+import { runBulkTaskAction, type BulkAction } from '../utils/bulkTasks';
+import {
+  createSavedView,
+  DEFAULT_TASK_FILTERS,
+  deleteSavedView,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  getSavedViewLink,
+  getSavedViews,
+  pinSavedView,
+  setSavedViewShared,
+  unpinSavedView
+} from '../utils/savedViews';
+import {
+  cleanCustomFieldValues,
+  createTaskLabel,
+  formatCustomFieldValue,
+  getCustomFields,
+  getLabelClass,
+  getTaskLabels,
+  matchesCustomFieldFilter
+} from '../utils/taskFields';
+import type {
+  ChecklistItem,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  DependencyInfo,
+  PointsSplitRule,
+  SavedView,
+  StatusUpdate,
+  Subtask,
+  Task,
+  TaskComment,
+  TaskCompletion,
+  TaskFilters,
+  TaskLabel,
+  TaskStatus
+} from '../types';
 import { 
   Plus, 
   Search, 
@@ -35,92 +138,37 @@ import {
   Calendar, 
   Users, 
   History,
-  TrendingUp
+  TrendingUp,
+  ListChecks,
+  Lock,
+  LayoutGrid,
+  Kanban,
+  ChartGantt,
+  Timer,
+  Layers,
+  Eye,
+  EyeOff,
+  Paperclip,
+  FileText,
+  Tag,
+  Download,
+  SquareCheck,
+  Square,
+  Upload,
+  Archive,
+  ArchiveRestore,
+  RotateCcw,
+  ClipboardCheck
 } from 'lucide-react';
 import { 
   format, 
-  differenceInHours, 
-  addDays, 
-  addWeeks, 
-  addMonths, 
-  isBefore, 
+  startOfDay,
   startOfWeek, 
   startOfMonth, 
   endOfWeek, 
   endOfMonth 
 } from 'date-fns';
 
-interface StatusUpdate {
-  status: 'pending' | 'in-progress' | 'completed';
-  timestamp: Date;
-  updatedBy: string;
-  updatedByName: string;
-}
-
-interface TaskComment {
-  id: string;
-  taskId: string;
-  message: string;
-  sentBy: string;
-  sentByName: string;
-  sentByRole: string;
-  timestamp: Date;
-}
-
-interface TaskCompletion {
-  id: string;
-  taskId: string;
-  taskTitle: string;
-  taskDescription: string;
-  assignedTo: string;
-  assignedToName: string;
-  clientId?: string;
-  clientName?: string;
-  createdBy: string;
-  createdByName: string;
-  priority: 'low' | 'medium' | 'high';
-  assignedAt: Date;
-  dueDate: Date;
-  completedAt: Date;
-  completionTimeHours: number;
-  points: number;
-  isEarlyComplete: boolean;
-  isRecurringCompletion: boolean;
-  recurringPattern?: 'daily' | 'weekly' | 'monthly';
-  occurrenceNumber: number;
-}
-
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  status: 'pending' | 'in-progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
-  assignedTo: string | string[];
-  assignedToName?: string;
-  createdBy: string;
-  createdByName?: string;
-  createdAt: Date;
-  assignedAt: Date;
-  dueDate: Date;
-  completedAt?: Date;
-  completionTimeHours?: number;
-  points?: number;
-  isEarlyComplete?: boolean;
-  statusHistory?: StatusUpdate[];
-  commentsCount?: number;
-  clientId?: string;
-  clientName?: string;
-  isRecurring?: boolean;
-  recurringPattern?: 'daily' | 'weekly' | 'monthly';
-  recurringEndDate?: Date;
-  lastCompletedDate?: Date;
-  completionCount?: number;
-  createdFrom?: string;
-  meetingId?: string;
-  meetingTitle?: string;
-}
-
 interface Client {
   id: string;
   name: string;
@@ -130,6 +178,8 @@ interface Client {
 export const Tasks = () => {
   const { currentUser, userRole, userData } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [dependencyLookup, setDependencyLookup] = useState<Record<string, DependencyInfo>>({});
+  const [searchParams, setSearchParams] = useSearchParams();
   const [users, setUsers] = useState<any[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [showModal, setShowModal] = useState(false);
@@ -140,14 +190,22 @@ export const Tasks = () => {
   const [taskHistory, setTaskHistory] = useState<TaskCompletion[]>([]);
   const [comments, setComments] = useState<TaskComment[]>([]);
   const [newComment, setNewComment] = useState('');
+  const [pendingFiles, setPendingFiles] = useState<{ file: File; previewUrl?: string }[]>([]);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filterStatus, setFilterStatus] = useState<string>('all');
-  const [filterPriority, setFilterPriority] = useState<string>('all');
-  const [filterClient, setFilterClient] = useState<string>('all');
-  const [filterDuration, setFilterDuration] = useState<string>('all');
-  const [customStartDate, setCustomStartDate] = useState('');
-  const [customEndDate, setCustomEndDate] = useState('');
+  // Filters live in the query string, so any view can be linked to.
+  const filters = filtersFromSearchParams(searchParams);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [pinnedViewIds, setPinnedViewIds] = useState<string[]>([]);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [runningTaskIds, setRunningTaskIds] = useState<string[]>([]);
+  const [holidays, setHolidays] = useState<Set<string>>(new Set());
+  const [taskLabels, setTaskLabels] = useState<TaskLabel[]>([]);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [showPlaybookModal, setShowPlaybookModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [workloads, setWorkloads] = useState<MemberWorkload[]>([]);
+  const [viewMode, setViewMode] = useState<'list' | 'board' | 'timeline'>('list');
   const [loading, setLoading] = useState(false);
   const [sendingMessage, setSendingMessage] = useState(false);
   const [error, setError] = useState('');
@@ -157,14 +215,22 @@ export const Tasks = () => {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    status: 'pending' as 'pending' | 'in-progress' | 'completed',
+    status: 'pending' as TaskStatus,
     priority: 'medium' as 'low' | 'medium' | 'high',
     assignedTo: '',
     dueDate: '',
     clientId: '',
     isRecurring: false,
-    recurringPattern: 'weekly' as 'daily' | 'weekly' | 'monthly',
+    recurrence: ruleFromPattern('weekly', new Date()),
     recurringEndDate: '',
+    assignmentMode: 'individual' as 'individual' | 'shared',
+    leadId: '',
+    pointsSplit: 'equal' as PointsSplitRule,
+    labels: [] as string[],
+    customFields: {} as Record<string, CustomFieldValue>,
+    requiresReview: false,
+    reviewerId: '',
+    handoffNote: '',
   });
 
   useEffect(() => {
@@ -175,6 +241,68 @@ export const Tasks = () => {
     }
   }, [currentUser, userRole]);
 
+  // Deep links from notifications: /tasks?taskId=<id>&view=chat opens the discussion.
+  useEffect(() => {
+    const taskId = searchParams.get('taskId');
+    if (!taskId || !currentUser) return;
+
+    const view = searchParams.get('view');
+    const remaining = new URLSearchParams(searchParams);
+    remaining.delete('taskId');
+    remaining.delete('view');
+    setSearchParams(remaining, { replace: true });
+
+    getDoc(doc(db, 'tasks', taskId))
+      .then((taskDoc) => {
+        if (!taskDoc.exists()) {
+          setError('That task no longer exists');
+          return;
+        }
+        setSelectedTask(mapTaskDoc(taskDoc.id, taskDoc.data()));
+        if (view === 'chat') {
+          setShowChatModal(true);
+        } else {
+          setShowDetailModal(true);
+        }
+      })
+      .catch((error) => console.error('Error opening linked task:', error));
+  }, [searchParams, setSearchParams, currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    getUserPreferences(currentUser.uid).then((prefs) => {
+      if (prefs.tasksView) setViewMode(prefs.tasksView);
+      setPinnedViewIds(prefs.pinnedViewIds || []);
+    });
+    getSavedViews(currentUser.uid).then(setSavedViews);
+    getHolidays().then(setHolidays);
+    getTaskLabels().then(setTaskLabels);
+    getCustomFields().then(setCustomFields);
+  }, [currentUser]);
+
+  // Workload is loaded fresh each time the form opens, for assignee suggestions.
+  useEffect(() => {
+    if (!showModal || users.length === 0) return;
+    getOpenTasks()
+      .then(openTasks => setWorkloads(buildWorkloads(users, openTasks)))
+      .catch(error => console.error('Error fetching workload:', error));
+  }, [showModal, users]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const q = query(
+      collection(db, 'timeEntries'),
+      where('userId', '==', currentUser.uid),
+      where('endedAt', '==', null)
+    );
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setRunningTaskIds(snapshot.docs.map(d => d.data().taskId));
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
   useEffect(() => {
     if (!selectedTask) return;
 
@@ -186,12 +314,7 @@ export const Tasks = () => {
     );
 
     const unsubscribe = onSnapshot(q, (snapshot) => {
-      const commentsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        timestamp: doc.data().timestamp?.toDate() || new Date(),
-      })) as TaskComment[];
-      setComments(commentsData);
+      setComments(snapshot.docs.map(d => mapCommentDoc(d.id, d.data())));
     });
 
     return () => unsubscribe();
@@ -199,22 +322,12 @@ export const Tasks = () => {
 
   const fetchTasks = async () => {
     try {
-      const tasksRef = collection(db, 'tasks');
-      let q;
-      
-      if (userRole === 'superadmin' || userRole === 'admin') {
-        q = query(tasksRef, orderBy('createdAt', 'desc'));
-      } else {
-        q = query(
-          tasksRef,
-          where('assignedTo', '==', currentUser?.uid),
-          orderBy('createdAt', 'desc')
-        );
-      }
+      const taskDocs = userRole === 'superadmin' || userRole === 'admin'
+        ? (await getDocs(query(collection(db, 'tasks'), orderBy('createdAt', 'desc')))).docs
+        : await getAssignedTaskDocs(currentUser?.uid || '');
 
-      const snapshot = await getDocs(q);
       const tasksData = await Promise.all(
-        snapshot.docs.map(async (taskDoc) => {
+        taskDocs.map(async (taskDoc) => {
           const data = taskDoc.data();
           
           const commentsRef = collection(db, 'taskComments');
@@ -222,31 +335,53 @@ export const Tasks = () => {
           const commentsSnapshot = await getDocs(commentsQuery);
 
           return {
-            id: taskDoc.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            assignedAt: data.assignedAt?.toDate() || new Date(),
-            dueDate: data.dueDate?.toDate() || new Date(),
-            completedAt: data.completedAt?.toDate() || null,
-            lastCompletedDate: data.lastCompletedDate?.toDate() || null,
-            recurringEndDate: data.recurringEndDate?.toDate() || null,
-            statusHistory: data.statusHistory?.map((sh: any) => ({
-              ...sh,
-              timestamp: sh.timestamp?.toDate() || new Date(),
-            })) || [],
+            ...mapTaskDoc(taskDoc.id, data),
             commentsCount: commentsSnapshot.size,
-            completionCount: data.completionCount || 0,
           };
         })
       );
 
-      setTasks(tasksData as Task[]);
+      tasksData.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      setTasks(tasksData);
+      await fetchDependencyLookup(tasksData);
     } catch (error) {
       console.error('Error fetching tasks:', error);
       setError('Failed to load tasks');
     }
   };
 
+  // Members only load their own tasks, so linked tasks assigned to someone
+  // else are fetched separately to know whether they still block.
+  const fetchDependencyLookup = async (tasksData: Task[]) => {
+    const lookup: Record<string, DependencyInfo> = {};
+    tasksData.forEach(t => { lookup[t.id] = t; });
+
+    const missingIds = new Set<string>();
+    tasksData.forEach(t => {
+      [...(t.blockedBy || []), ...(t.blocks || [])].forEach(id => {
+        if (!lookup[id]) missingIds.add(id);
+      });
+    });
+
+    await Promise.all([...missingIds].map(async (id) => {
+      const linkedDoc = await getDoc(doc(db, 'tasks', id));
+      if (!linkedDoc.exists()) return;
+      const data = linkedDoc.data();
+      lookup[id] = {
+        id,
+        title: data.title,
+        status: data.status,
+        assignedTo: data.assignedTo,
+        assignedToName: data.assignedToName,
+        completionCount: data.completionCount || 0,
+        blockedBy: data.blockedBy || [],
+        deletedAt: data.deletedAt?.toDate() || null,
+      };
+    }));
+
+    setDependencyLookup(lookup);
+  };
+
   const fetchTaskHistory = async (taskId: string) => {
     try {
       const completionsRef = collection(db, 'taskCompletions');
@@ -296,67 +431,6 @@ export const Tasks = () => {
     }
   };
 
-  const getNextOccurrenceDate = (currentDate: Date, pattern: 'daily' | 'weekly' | 'monthly'): Date => {
-    switch (pattern) {
-      case 'daily': return addDays(currentDate, 1);
-      case 'weekly': return addWeeks(currentDate, 1);
-      case 'monthly': return addMonths(currentDate, 1);
-      default: return addWeeks(currentDate, 1);
-    }
-  };
-
-  const calculatePoints = (dueDate: Date, completedAt: Date) => {
-    const hoursBeforeDue = differenceInHours(dueDate, completedAt);
-    
-    if (hoursBeforeDue >= 24) {
-      return { points: 150, isEarly: true };
-    } else if (hoursBeforeDue >= 12) {
-      return { points: 100, isEarly: true };
-    } else if (hoursBeforeDue >= 0) {
-      return { points: 75, isEarly: true };
-    } else if (hoursBeforeDue >= -1 && hoursBeforeDue < 0) {
-      return { points: 50, isEarly: false };
-    } else {
-      return { points: 0, isEarly: false };
-    }
-  };
-
-  const updateUserStats = async (userId: string, points: number, completionTimeHours: number) => {
-    const userStatsRef = doc(db, 'userStats', userId);
-    
-    try {
-      const userStatsDoc = await getDoc(userStatsRef);
-      
-      if (userStatsDoc.exists()) {
-        const currentStats = userStatsDoc.data();
-        const newTotalTasks = (currentStats.tasksCompleted || 0) + 1;
-        const currentTotalTime = currentStats.totalCompletionTime || 0;
-        const newTotalTime = currentTotalTime + completionTimeHours;
-        const newAvgTime = newTotalTime / newTotalTasks;
-        
-        await updateDoc(userStatsRef, {
-          tasksCompleted: increment(1),
-          totalPoints: increment(points),
-          totalCompletionTime: increment(completionTimeHours),
-          averageCompletionTime: newAvgTime,
-          lastUpdated: Timestamp.now()
-        });
-      } else {
-        await setDoc(userStatsRef, {
-          userId,
-          tasksCompleted: 1,
-          totalPoints: points,
-          totalCompletionTime: completionTimeHours,
-          averageCompletionTime: completionTimeHours,
-          totalTasksAssigned: 1,
-          onTimeDeliveryRate: points > 0 ? 100 : 0,
-          lastUpdated: Timestamp.now()
-        });
-      }
-    } catch (error) {
-      console.error('Error updating user stats:', error);
-    }
-  };
 
   const handleUserSelection = (userId: string) => {
     if (userId === 'all') {
@@ -414,96 +488,63 @@ export const Tasks = () => {
     setError('');
     try {
       const now = Timestamp.now();
-      const initialStatusHistory: StatusUpdate = {
-        status: formData.status,
-        timestamp: now.toDate(),
-        updatedBy: currentUser.uid,
-        updatedByName: userData?.displayName || ''
-      };
-
       const clientsToProcess = selectedClients.length > 0 ? selectedClients : [''];
+      const recurrence = formData.isRecurring
+        ? { ...formData.recurrence, anchorDate: formData.dueDate }
+        : null;
+
+      const isShared = formData.assignmentMode === 'shared' && selectedUsers.length > 1;
+      const reviewer = users.find(u => u.uid === formData.reviewerId);
+      const assignees = selectedUsers.map(uid => ({
+        uid,
+        displayName: users.find(u => u.uid === uid)?.displayName,
+      }));
+      // Shared mode writes one task per client for everyone; otherwise each person gets a copy.
+      const assigneeGroups = isShared ? [assignees] : assignees.map(a => [a]);
 
-      for (const userId of selectedUsers) {
-        const assignedUser = users.find(u => u.uid === userId);
-        
+      for (const group of assigneeGroups) {
         for (const clientId of clientsToProcess) {
           const selectedClient = clientId ? clients.find(c => c.id === clientId) : null;
 
-          const taskData = {
+          await createTask({
             title: formData.title,
             description: formData.description,
             status: formData.status,
             priority: formData.priority,
-            assignedTo: userId,
-            assignedToName: assignedUser?.displayName || '',
-            createdBy: currentUser.uid,
-            createdByName: userData?.displayName || '',
-            createdAt: now,
-            assignedAt: now,
-            dueDate: Timestamp.fromDate(new Date(formData.dueDate)),
-            points: 0,
-            isEarlyComplete: false,
-            completionTimeHours: 0,
-            statusHistory: [initialStatusHistory],
-            clientId: clientId || null,
-            clientName: selectedClient?.name || null,
-            isRecurring: formData.isRecurring,
-            recurringPattern: formData.isRecurring ? formData.recurringPattern : null,
-            recurringEndDate: formData.isRecurring && formData.recurringEndDate 
-              ? Timestamp.fromDate(new Date(formData.recurringEndDate)) 
+            dueDate: new Date(formData.dueDate),
+            assignee: group[0],
+            creator: { uid: currentUser.uid, displayName: userData?.displayName },
+            client: selectedClient ? { id: selectedClient.id, name: selectedClient.name } : null,
+            recurrence,
+            recurringEndDate: formData.recurringEndDate ? new Date(formData.recurringEndDate) : null,
+            shared: isShared
+              ? { assignees: group, leadId: formData.leadId || null, pointsSplit: formData.pointsSplit }
               : null,
-            completionCount: 0,
-            lastCompletedDate: null,
-          };
-
-          await addDoc(collection(db, 'tasks'), taskData);
-
-          if (clientId) {
-            const clientRef = doc(db, 'clients', clientId);
-            const clientDoc = await getDoc(clientRef);
-            if (clientDoc.exists()) {
-              const currentTaskCount = clientDoc.data().taskCount || 0;
-              await updateDoc(clientRef, {
-                taskCount: currentTaskCount + 1,
-                lastTaskAssigned: now
-              });
-            }
-          }
-
-          const userStatsRef = doc(db, 'userStats', userId);
-          const userStatsDoc = await getDoc(userStatsRef);
-          const tasksCreated = clientsToProcess.length;
-
-          if (userStatsDoc.exists()) {
-            await updateDoc(userStatsRef, {
-              totalTasksAssigned: increment(tasksCreated)
-            });
-          } else {
-            await setDoc(userStatsRef, {
-              userId: userId,
-              totalTasksAssigned: tasksCreated,
-              tasksCompleted: 0,
-              totalPoints: 0,
-              totalCompletionTime: 0,
-              averageCompletionTime: 0,
-              lastUpdated: Timestamp.now()
-            });
-          }
+            labels: formData.labels,
+            customFields: cleanCustomFieldValues(formData.customFields),
+            review: formData.requiresReview
+              ? { reviewer: reviewer ? { uid: reviewer.uid, displayName: reviewer.displayName } : null }
+              : null,
+          }, now);
 
           const clientInfo = selectedClients.length > 0 
             ? ` for ${selectedClients.length} client${selectedClients.length > 1 ? 's' : ''}`
             : '';
 
-          await createNotification(
-            userId,
-            `New ${formData.isRecurring ? 'Recurring ' : ''}Task Assigned`,
-            `You have been assigned: ${formData.title}${clientInfo}${formData.isRecurring ? ` (${formData.recurringPattern})` : ''}`,
-            'task'
-          );
+          for (const { uid } of group) {
+            await createNotification(
+              uid,
+              `New ${formData.isRecurring ? 'Recurring ' : ''}${isShared ? 'Shared ' : ''}Task Assigned`,
+              `You have been assigned: ${formData.title}${clientInfo}${recurrence ? ` (${describeRecurrence(recurrence).toLowerCase()})` : ''}${
+                isShared && formData.leadId === uid ? ' as lead' : ''
+              }`,
+              'task'
+            );
+          }
         }
       }
 
-      const totalTasks = selectedUsers.length * clientsToProcess.length;
+      const totalTasks = assigneeGroups.length * clientsToProcess.length;
       setSuccess(`${totalTasks} task${totalTasks > 1 ? 's' : ''} created successfully!`);
       setShowModal(false);
       resetForm();
@@ -519,30 +560,53 @@ export const Tasks = () => {
   };
 
   const handleUpdateTask = async () => {
-    if (!editingTask) return;
+    if (!editingTask || !currentUser) return;
+
+    const reassigning = !isSharedTask(editingTask) && formData.assignedTo !== editingTask.assignedTo;
+    if (reassigning && !formData.handoffNote.trim()) {
+      setError('Add a handoff note for the new assignee');
+      return;
+    }
 
     setLoading(true);
     try {
       const assignedUser = users.find(u => u.uid === formData.assignedTo);
       const selectedClient = clients.find(c => c.id === formData.clientId);
+      const newAssignee = { uid: formData.assignedTo, displayName: assignedUser?.displayName };
+      const actor = { uid: currentUser.uid, displayName: userData?.displayName };
 
       await updateDoc(doc(db, 'tasks', editingTask.id), {
         title: formData.title,
         description: formData.description,
         priority: formData.priority,
-        assignedTo: formData.assignedTo,
-        assignedToName: assignedUser?.displayName || '',
+        ...(reassigning && getReassignmentFields(editingTask, newAssignee, formData.handoffNote.trim(), actor)),
         dueDate: Timestamp.fromDate(new Date(formData.dueDate)),
         clientId: formData.clientId || null,
         clientName: selectedClient?.name || null,
+        labels: formData.labels,
+        customFields: cleanCustomFieldValues(formData.customFields),
+        requiresReview: formData.requiresReview,
+        reviewerId: formData.requiresReview ? formData.reviewerId || null : null,
+        reviewerName: formData.requiresReview
+          ? users.find(u => u.uid === formData.reviewerId)?.displayName || null
+          : null,
       });
 
-      if (formData.assignedTo !== editingTask.assignedTo) {
-        await createNotification(
-          formData.assignedTo,
-          'Task Reassigned',
-          `You have been assigned: ${formData.title}`,
-          'task'
+      if (reassigning) {
+        await notifyReassignment(
+          { ...editingTask, title: formData.title },
+          newAssignee,
+          formData.handoffNote.trim(),
+          actor
+        );
+      }
+
+      if (formData.dueDate !== editingTask.dueDate.toISOString().split('T')[0]) {
+        await notifyTaskAudience(
+          editingTask,
+          currentUser?.uid,
+          'Task Rescheduled',
+          `${formData.title} is now due on ${format(new Date(formData.dueDate), 'MMM d, yyyy')}`
         );
       }
 
@@ -561,19 +625,30 @@ export const Tasks = () => {
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
-    if (!window.confirm('Are you sure you want to delete this task? This will also delete all comments but preserve completion history.')) return;
+  const handleToggleArchive = async (task: Task) => {
+    if (!currentUser) return;
+    const archived = isTaskArchived(task);
 
     try {
-      await deleteDoc(doc(db, 'tasks', taskId));
+      if (archived) await unarchiveTask(task.id);
+      else await archiveTask(task.id, currentUser.uid);
+
+      setSuccess(archived ? 'Task moved back to active tasks' : 'Task archived. It still shows up in search.');
+      fetchTasks();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error archiving task:', error);
+      setError(archived ? 'Failed to unarchive task' : 'Failed to archive task');
+    }
+  };
 
-      const commentsRef = collection(db, 'taskComments');
-      const commentsQuery = query(commentsRef, where('taskId', '==', taskId));
-      const commentsSnapshot = await getDocs(commentsQuery);
-      const deleteCommentsPromises = commentsSnapshot.docs.map(doc => deleteDoc(doc.ref));
-      await Promise.all(deleteCommentsPromises);
+  const handleDeleteTask = async (task: Task) => {
+    if (!currentUser) return;
+    if (!window.confirm(`Move this task to the trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`)) return;
 
-      setSuccess('Task deleted successfully! History preserved.');
+    try {
+      await moveTaskToTrash(task.id, { uid: currentUser.uid, displayName: userData?.displayName });
+      setSuccess('Task moved to trash');
       fetchTasks();
       setTimeout(() => setSuccess(''), 3000);
     } catch (error) {
@@ -582,11 +657,45 @@ export const Tasks = () => {
     }
   };
 
-  const handleStatusChange = async (taskId: string, newStatus: 'pending' | 'in-progress' | 'completed') => {
+  const handleRestoreTask = async (task: Task) => {
+    try {
+      await restoreTask(task.id);
+      setSuccess('Task restored');
+      fetchTasks();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error restoring task:', error);
+      setError('Failed to restore task');
+    }
+  };
+
+  const handlePurgeTask = async (task: Task) => {
+    if (userRole !== 'superadmin') return;
+    if (!window.confirm('Permanently delete this task? Comments and attachments are deleted too; completion history is kept. This cannot be undone.')) return;
+
+    try {
+      await purgeTask(task);
+      setSuccess('Task deleted permanently. History preserved.');
+      fetchTasks();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error purging task:', error);
+      setError('Failed to delete task');
+    }
+  };
+
+  const handleStatusChange = async (taskId: string, newStatus: TaskStatus) => {
     try {
       const task = tasks.find(t => t.id === taskId);
       if (!task) return;
 
+      const openBlockers = getOpenBlockers(task, dependencyLookup);
+      if (newStatus !== 'pending' && openBlockers.length > 0) {
+        setError(`This task is blocked by: ${openBlockers.map(b => b.title).join(', ')}`);
+        setTimeout(() => setError(''), 5000);
+        return;
+      }
+
       const now = new Date();
       const statusUpdate: StatusUpdate = {
         status: newStatus,
@@ -597,130 +706,36 @@ export const Tasks = () => {
 
       const updatedStatusHistory = [...(task.statusHistory || []), statusUpdate];
 
-      if (newStatus === 'completed') {
-        const completedAt = now;
-        const completionTimeHours = differenceInHours(completedAt, task.assignedAt);
-        const { points, isEarly } = calculatePoints(task.dueDate, completedAt);
-
-        const completionData = {
-          taskId: task.id,
-          taskTitle: task.title,
-          taskDescription: task.description,
-          assignedTo: task.assignedTo as string,
-          assignedToName: task.assignedToName || '',
-          clientId: task.clientId || null,
-          clientName: task.clientName || null,
-          createdBy: task.createdBy,
-          createdByName: task.createdByName || '',
-          priority: task.priority,
-          assignedAt: Timestamp.fromDate(task.assignedAt),
-          dueDate: Timestamp.fromDate(task.dueDate),
-          completedAt: Timestamp.fromDate(completedAt),
-          completionTimeHours,
-          points,
-          isEarlyComplete: isEarly,
-          isRecurringCompletion: task.isRecurring || false,
-          recurringPattern: task.recurringPattern || null,
-          occurrenceNumber: (task.completionCount || 0) + 1,
-        };
-
-        await addDoc(collection(db, 'taskCompletions'), completionData);
-
-        if (task.isRecurring && task.recurringPattern) {
-          const nextDueDate = getNextOccurrenceDate(task.dueDate, task.recurringPattern);
-          const shouldContinue = !task.recurringEndDate || isBefore(nextDueDate, task.recurringEndDate);
-
-          if (shouldContinue) {
-            await updateDoc(doc(db, 'tasks', taskId), {
-              status: 'pending',
-              dueDate: Timestamp.fromDate(nextDueDate),
-              assignedAt: Timestamp.now(),
-              lastCompletedDate: Timestamp.fromDate(completedAt),
-              completionCount: (task.completionCount || 0) + 1,
-              completedAt: null,
-              completionTimeHours: 0,
-              points: 0,
-              isEarlyComplete: false,
-              statusHistory: [{
-                status: 'pending',
-                timestamp: now,
-                updatedBy: currentUser?.uid || '',
-                updatedByName: userData?.displayName || ''
-              }]
-            });
-
-            if (currentUser?.uid === task.assignedTo) {
-              await updateUserStats(task.assignedTo as string, points, completionTimeHours);
-            }
-
-            if (task.createdBy !== currentUser?.uid) {
-              await createNotification(
-                task.createdBy,
-                'Recurring Task Completed',
-                `${task.title} completed${isEarly ? ' early!' : '!'} (${points} pts). Next: ${format(nextDueDate, 'MMM d')}`,
-                'task'
-              );
-            }
-
-            await createNotification(
-              task.assignedTo as string,
-              'Recurring Task - Next Occurrence',
-              `${task.title} is now due on ${format(nextDueDate, 'MMM d, yyyy')}`,
-              'task'
-            );
+      if (task.status === 'in-review' && newStatus !== 'completed') {
+        setError('This task is waiting for review. Approve it or request changes instead.');
+        setTimeout(() => setError(''), 5000);
+        return;
+      }
 
-            setSuccess(`Task completed! ${isEarly ? `+${points} bonus points!` : `${points} points`} Next due: ${format(nextDueDate, 'MMM d')}`);
-          } else {
-            await updateDoc(doc(db, 'tasks', taskId), {
-              status: 'completed',
-              completedAt: Timestamp.fromDate(completedAt),
-              completionTimeHours,
-              points,
-              isEarlyComplete: isEarly,
-              lastCompletedDate: Timestamp.fromDate(completedAt),
-              completionCount: (task.completionCount || 0) + 1,
-              statusHistory: updatedStatusHistory,
-              isRecurring: false
-            });
-
-            if (currentUser?.uid === task.assignedTo) {
-              await updateUserStats(task.assignedTo as string, points, completionTimeHours);
-            }
-
-            if (task.createdBy !== currentUser?.uid) {
-              await createNotification(
-                task.createdBy,
-                'Recurring Task Series Completed',
-                `${task.title} series completed! Total: ${(task.completionCount || 0) + 1} times`,
-                'task'
-              );
-            }
-
-            setSuccess(`Recurring task series completed! Total completions: ${(task.completionCount || 0) + 1}`);
-          }
-        } else {
-          await updateDoc(doc(db, 'tasks', taskId), {
-            status: newStatus,
-            completedAt: Timestamp.fromDate(completedAt),
-            completionTimeHours,
-            points,
-            isEarlyComplete: isEarly,
-            statusHistory: updatedStatusHistory,
-          });
-
-          if (currentUser?.uid === task.assignedTo) {
-            await updateUserStats(task.assignedTo as string, points, completionTimeHours);
-          }
+      if (newStatus === 'completed' || newStatus === 'in-review') {
+        const progress = getTaskProgress(task);
+        if (progress.open > 0 && !window.confirm(
+          `${progress.open} subtask/checklist item(s) are still open. Complete anyway? Points will be scaled to ${Math.round(progress.ratio * 100)}%.`
+        )) return;
 
-          if (task.createdBy !== currentUser?.uid) {
-            await createNotification(
-              task.createdBy,
-              'Task Completed',
-              `${task.title} has been completed${isEarly ? ' early!' : '!'} (${points} points)`,
-              'task'
-            );
-          }
+        // Close any timer still running on this task so its effort is counted.
+        if (currentUser) {
+          const runningTimers = await getRunningTimers(currentUser.uid);
+          await Promise.all(runningTimers.filter(e => e.taskId === taskId).map(stopTimer));
+        }
 
+        const result = await completeTask(task, { submitForReview: newStatus === 'in-review' });
+        const { points, isEarly } = result;
+
+        if (result.inReview) {
+          setSuccess('Submitted for review. Points will count from now once it is approved.');
+        } else if (result.remainingAssignees > 0) {
+          setSuccess(`Your part is done. Waiting on ${result.remainingAssignees} teammate${result.remainingAssignees > 1 ? 's' : ''}.`);
+        } else if (result.nextDueDate) {
+          setSuccess(`Task completed! ${isEarly ? `+${points} bonus points!` : `${points} points`} Next due: ${format(new Date(result.nextDueDate), 'MMM d')}`);
+        } else if (result.seriesCompleted) {
+          setSuccess(`Recurring task series completed! Total completions: ${result.completionCount}`);
+        } else {
           setSuccess(`Task completed! ${isEarly ? `+${points} bonus points!` : `${points} points`}`);
         }
       } else {
@@ -729,14 +744,12 @@ export const Tasks = () => {
           statusHistory: updatedStatusHistory,
         });
 
-        if (task.createdBy !== currentUser?.uid) {
-          await createNotification(
-            task.createdBy,
-            'Task Status Updated',
-            `${task.title} is now ${newStatus}`,
-            'task'
-          );
-        }
+        await notifyTaskAudience(
+          task,
+          currentUser?.uid,
+          'Task Status Updated',
+          `${task.title} is now ${newStatus}`
+        );
 
         setSuccess('Status updated successfully!');
       }
@@ -745,38 +758,200 @@ export const Tasks = () => {
       setTimeout(() => setSuccess(''), 3000);
     } catch (error) {
       console.error('Error updating status:', error);
-      setError('Failed to update status');
+      // Errors raised by the completeTask function carry a user-facing message.
+      setError(error instanceof FirebaseError && error.code.startsWith('functions/')
+        ? error.message
+        : 'Failed to update status');
+    }
+  };
+
+  const handleReassignTask = async (task: Task, to: { uid: string; displayName: string }, note: string) => {
+    if (!currentUser) return;
+
+    try {
+      await reassignTask(task, to, note, { uid: currentUser.uid, displayName: userData?.displayName });
+      setShowDetailModal(false);
+      setSuccess(`${task.title} handed over to ${to.displayName}`);
+      fetchTasks();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error reassigning task:', error);
+      setError('Failed to reassign task');
+    }
+  };
+
+  const handleRequestChanges = async (task: Task, note: string) => {
+    if (!currentUser) return;
+
+    try {
+      await requestTaskChanges(task, { uid: currentUser.uid, displayName: userData?.displayName, role: userRole }, note);
+      setShowDetailModal(false);
+      setSuccess('Task sent back with your comments');
+      fetchTasks();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error requesting changes:', error);
+      setError('Failed to send the task back');
+    }
+  };
+
+  const handleSaveSubtasks = async (task: Task, subtasks: Subtask[], checklist: ChecklistItem[]) => {
+    try {
+      await updateDoc(doc(db, 'tasks', task.id), {
+        subtasks: serializeSubtasks(subtasks),
+        checklist,
+      });
+
+      const previousIds = new Set((task.subtasks || []).map(s => s.id));
+      const newlyAssigned = subtasks.filter(
+        s => !previousIds.has(s.id) && s.assignedTo && s.assignedTo !== currentUser?.uid
+      );
+      for (const subtask of newlyAssigned) {
+        await createNotification(
+          subtask.assignedTo,
+          'New Subtask Assigned',
+          `You have been assigned "${subtask.title}" on ${task.title}`,
+          'task'
+        );
+      }
+
+      const updatedTask = { ...task, subtasks, checklist };
+      setSelectedTask(updatedTask);
+      setTasks(prev => prev.map(t => (t.id === task.id ? updatedTask : t)));
+    } catch (error) {
+      console.error('Error updating subtasks:', error);
+      setError('Failed to update subtasks');
     }
   };
 
+  const handleAddDependency = async (task: Task, blockerId: string) => {
+    try {
+      await addDependency(task.id, blockerId);
+      setSelectedTask({ ...task, blockedBy: [...(task.blockedBy || []), blockerId] });
+      fetchTasks();
+    } catch (error) {
+      console.error('Error adding dependency:', error);
+      setError('Failed to add dependency');
+    }
+  };
+
+  const handleRemoveDependency = async (task: Task, blockerId: string) => {
+    try {
+      await removeDependency(task.id, blockerId);
+      setSelectedTask({ ...task, blockedBy: (task.blockedBy || []).filter(id => id !== blockerId) });
+      fetchTasks();
+    } catch (error) {
+      console.error('Error removing dependency:', error);
+      setError('Failed to remove dependency');
+    }
+  };
+
+  const handleRescheduleTask = async (task: Task, dueDate: Date) => {
+    try {
+      await rescheduleTask(task, dueDate, currentUser?.uid || '');
+      setSuccess(`${task.title} moved to ${format(dueDate, 'MMM d, yyyy')}`);
+      fetchTasks();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      setError('Failed to reschedule task');
+    }
+  };
+
+  const handleToggleFollow = async (task: Task) => {
+    if (!currentUser) return;
+
+    try {
+      const following = isFollowingTask(task, currentUser.uid);
+      if (following) {
+        await unfollowTask(task.id, currentUser.uid);
+      } else {
+        await followTask(task.id, [currentUser.uid]);
+      }
+
+      const watchers = following
+        ? (task.watchers || []).filter(uid => uid !== currentUser.uid)
+        : [...(task.watchers || []), currentUser.uid];
+      setSelectedTask({ ...task, watchers });
+      setTasks(tasks.map(t => (t.id === task.id ? { ...t, watchers } : t)));
+    } catch (error) {
+      console.error('Error updating followers:', error);
+      setError('Failed to update follow status');
+    }
+  };
+
+  const handleAttachFiles = (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files);
+    const tooLarge = selected.filter(f => f.size >= MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      setError(`Attachments must be under 10 MB: ${tooLarge.map(f => f.name).join(', ')}`);
+      setTimeout(() => setError(''), 5000);
+    }
+    setPendingFiles([
+      ...pendingFiles,
+      ...selected
+        .filter(f => f.size < MAX_ATTACHMENT_SIZE)
+        .map(file => ({ file, previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined })),
+    ]);
+  };
+
+  const clearPendingFiles = (keep: typeof pendingFiles = []) => {
+    pendingFiles
+      .filter(p => !keep.includes(p) && p.previewUrl)
+      .forEach(p => URL.revokeObjectURL(p.previewUrl!));
+    setPendingFiles(keep);
+  };
+
   const handleSendComment = async () => {
-    if (!selectedTask || !newComment.trim() || !currentUser) return;
+    if (!selectedTask || (!newComment.trim() && pendingFiles.length === 0) || !currentUser) return;
 
     setSendingMessage(true);
     try {
+      const message = encodeMentions(newComment.trim(), users);
+      const mentioned = extractMentionIds(message).filter(uid => uid !== currentUser.uid);
+      const plainText = mentionsToPlainText(message) || `shared ${pendingFiles.length} file(s)`;
+      const chatLink = getTaskChatLink(selectedTask.id);
+      const attachments = await Promise.all(
+        pendingFiles.map(({ file }) => uploadCommentAttachment(selectedTask.id, file, currentUser.uid))
+      );
+
       await addDoc(collection(db, 'taskComments'), {
         taskId: selectedTask.id,
-        message: newComment.trim(),
+        message,
+        mentions: mentioned,
+        ...(attachments.length > 0 && { attachments }),
         sentBy: currentUser.uid,
         sentByName: userData?.displayName || 'Unknown',
         sentByRole: userRole,
         timestamp: Timestamp.now(),
       });
 
-      const notifyUsers = [selectedTask.createdBy, selectedTask.assignedTo].filter(
-        (uid) => uid !== currentUser.uid
-      );
+      // Commenters and anyone they mention follow the task from now on.
+      const newFollowers = [currentUser.uid, ...mentioned].filter(uid => !isFollowingTask(selectedTask, uid));
+      await followTask(selectedTask.id, newFollowers);
 
-      for (const uid of notifyUsers) {
+      for (const uid of mentioned) {
         await createNotification(
-          uid as string,
-          `New comment on ${selectedTask.title}`,
-          `${userData?.displayName}: ${newComment.slice(0, 50)}...`,
-          'task'
+          uid,
+          `${userData?.displayName} mentioned you on ${selectedTask.title}`,
+          plainText.slice(0, 100),
+          'task',
+          chatLink
         );
       }
+      await notifyTaskAudience(
+        selectedTask,
+        currentUser.uid,
+        `New comment on ${selectedTask.title}`,
+        `${userData?.displayName}: ${plainText.slice(0, 50)}...`,
+        mentioned,
+        chatLink
+      );
+      setSelectedTask({ ...selectedTask, watchers: [...(selectedTask.watchers || []), ...newFollowers] });
 
       setNewComment('');
+      clearPendingFiles();
       fetchTasks();
     } catch (error) {
       console.error('Error sending comment:', error);
@@ -786,6 +961,43 @@ export const Tasks = () => {
     }
   };
 
+  const handleEditComment = async (comment: TaskComment, text: string) => {
+    if (!selectedTask) return;
+
+    try {
+      const message = encodeMentions(text, users);
+      const newlyMentioned = await editComment(comment, message);
+      for (const uid of newlyMentioned) {
+        await createNotification(
+          uid,
+          `${userData?.displayName} mentioned you on ${selectedTask.title}`,
+          mentionsToPlainText(message).slice(0, 100),
+          'task',
+          getTaskChatLink(selectedTask.id)
+        );
+      }
+      await followTask(selectedTask.id, newlyMentioned.filter(uid => !isFollowingTask(selectedTask, uid)));
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      setError('Failed to edit message');
+    }
+  };
+
+  const handleReactToComment = async (comment: TaskComment, emoji: string) => {
+    if (!currentUser) return;
+
+    try {
+      await toggleReaction(comment, emoji, currentUser.uid);
+    } catch (error) {
+      console.error('Error reacting to comment:', error);
+    }
+  };
+
+  const changeViewMode = (mode: 'list' | 'board' | 'timeline') => {
+    setViewMode(mode);
+    if (currentUser) saveUserPreferences(currentUser.uid, { tasksView: mode });
+  };
+
   const openChatModal = (task: Task) => {
     setSelectedTask(task);
     setShowChatModal(true);
@@ -812,8 +1024,16 @@ export const Tasks = () => {
       dueDate: '',
       clientId: '',
       isRecurring: false,
-      recurringPattern: 'weekly',
+      recurrence: ruleFromPattern('weekly', new Date()),
       recurringEndDate: '',
+      assignmentMode: 'individual',
+      leadId: '',
+      pointsSplit: 'equal',
+      labels: [],
+      customFields: {},
+      requiresReview: false,
+      reviewerId: '',
+      handoffNote: '',
     });
     setSelectedUsers([]);
     setSelectedClients([]);
@@ -826,20 +1046,165 @@ export const Tasks = () => {
       description: task.description,
       status: task.status,
       priority: task.priority,
-      assignedTo: task.assignedTo as string,
+      assignedTo: isSharedTask(task) ? '' : task.assignedTo as string,
       dueDate: task.dueDate.toISOString().split('T')[0],
       clientId: task.clientId || '',
       isRecurring: false,
-      recurringPattern: 'weekly',
+      recurrence: ruleFromPattern('weekly', new Date()),
       recurringEndDate: '',
+      assignmentMode: 'individual',
+      leadId: '',
+      pointsSplit: 'equal',
+      labels: task.labels || [],
+      customFields: task.customFields || {},
+      requiresReview: !!task.requiresReview,
+      reviewerId: task.reviewerId || '',
+      handoffNote: '',
     });
     setShowModal(true);
   };
 
+  const setFilters = (next: TaskFilters) => setSearchParams(filtersToSearchParams(next), { replace: true });
+
+  const toggleTaskSelection = (taskId: string) => {
+    setSelectedTaskIds(selectedTaskIds.includes(taskId)
+      ? selectedTaskIds.filter(id => id !== taskId)
+      : [...selectedTaskIds, taskId]);
+  };
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedTaskIds([]);
+  };
+
+  const handleBulkAction = async (action: BulkAction) => {
+    const selected = tasks.filter(t => selectedTaskIds.includes(t.id));
+    const result = await runBulkTaskAction(selected, action, {
+      actor: { uid: currentUser?.uid || '', displayName: userData?.displayName },
+      dependencyLookup,
+    });
+
+    // Failed tasks stay selected so the action can be retried on just those.
+    setSelectedTaskIds(result.failed.map(f => f.taskId));
+    fetchTasks();
+    return result;
+  };
+
+  const updateFilters = (changes: Partial<TaskFilters>) => setFilters({ ...filters, ...changes });
+
+  const handleSaveView = async (name: string, shared: boolean) => {
+    if (!currentUser) return;
+
+    try {
+      const id = await createSavedView(name, filters, { uid: currentUser.uid, displayName: userData?.displayName }, shared);
+      setSavedViews([...savedViews, {
+        id,
+        name,
+        filters,
+        ownerId: currentUser.uid,
+        ownerName: userData?.displayName || '',
+        shared,
+        createdAt: new Date(),
+      }].sort((a, b) => a.name.localeCompare(b.name)));
+      setSuccess(`View "${name}" saved`);
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      setError('Failed to save view');
+    }
+  };
+
+  const handleTogglePinView = async (view: SavedView) => {
+    if (!currentUser) return;
+
+    try {
+      if (pinnedViewIds.includes(view.id)) {
+        await unpinSavedView(currentUser.uid, view.id);
+        setPinnedViewIds(pinnedViewIds.filter(id => id !== view.id));
+      } else {
+        await pinSavedView(currentUser.uid, view.id);
+        setPinnedViewIds([...pinnedViewIds, view.id]);
+      }
+    } catch (error) {
+      console.error('Error pinning view:', error);
+      setError('Failed to update pinned views');
+    }
+  };
+
+  const handleToggleShareView = async (view: SavedView) => {
+    try {
+      await setSavedViewShared(view.id, !view.shared);
+      setSavedViews(savedViews.map(v => v.id === view.id ? { ...v, shared: !view.shared } : v));
+    } catch (error) {
+      console.error('Error sharing view:', error);
+      setError('Failed to update view');
+    }
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!currentUser || !window.confirm(`Delete the view "${view.name}"?`)) return;
+
+    try {
+      await deleteSavedView(view.id);
+      if (pinnedViewIds.includes(view.id)) await unpinSavedView(currentUser.uid, view.id);
+      setSavedViews(savedViews.filter(v => v.id !== view.id));
+      setPinnedViewIds(pinnedViewIds.filter(id => id !== view.id));
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      setError('Failed to delete view');
+    }
+  };
+
+  const handleCreateLabel = async (label: TaskLabel) => {
+    try {
+      await createTaskLabel(label);
+      setTaskLabels([...taskLabels, label]);
+    } catch (error) {
+      console.error('Error creating label:', error);
+      setError('Failed to create label');
+    }
+  };
+
+  // Exports what is currently on screen, one column per custom field.
+  const exportTasksToCSV = () => {
+    if (filteredTasks.length === 0) {
+      setError('No tasks to export');
+      setTimeout(() => setError(''), 3000);
+      return;
+    }
+
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const headers = ['Title', 'Status', 'Priority', 'Assigned To', 'Client', 'Due Date', 'Labels', ...customFields.map(f => f.name)];
+
+    const rows = filteredTasks.map(task => [
+      escape(task.title),
+      task.status,
+      task.priority,
+      escape(task.assignedToName || ''),
+      escape(task.clientName || ''),
+      format(task.dueDate, 'yyyy-MM-dd'),
+      escape((task.labels || []).join('; ')),
+      ...customFields.map(f => escape(formatCustomFieldValue(f, task.customFields?.[f.id], userNames))),
+    ].join(','));
+    const csv = [headers.map(escape).join(','), ...rows].join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tasks-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   const canEditTask = (task: Task) => {
-    return userRole === 'superadmin';
+    return userRole === 'superadmin' && !isTaskInTrash(task);
   };
 
+  const canManageTask = () => userRole === 'superadmin' || userRole === 'admin';
+
+  const userNames: Record<string, string> = Object.fromEntries(users.map(u => [u.uid, u.displayName]));
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'superadmin': return 'bg-red-100 text-red-700';
@@ -866,7 +1231,7 @@ export const Tasks = () => {
     let startDate: Date;
     let endDate: Date = now;
 
-    switch (filterDuration) {
+    switch (filters.duration) {
       case 'week':
         startDate = startOfWeek(now, { weekStartsOn: 0 });
         endDate = endOfWeek(now, { weekStartsOn: 0 });
@@ -876,9 +1241,9 @@ export const Tasks = () => {
         endDate = endOfMonth(now);
         break;
       case 'custom':
-        if (customStartDate && customEndDate) {
-          startDate = new Date(customStartDate);
-          endDate = new Date(customEndDate);
+        if (filters.startDate && filters.endDate) {
+          startDate = new Date(filters.startDate);
+          endDate = new Date(filters.endDate);
           endDate.setHours(23, 59, 59, 999);
         } else {
           return tasks;
@@ -894,17 +1259,30 @@ export const Tasks = () => {
     });
   };
 
+  // The board lays tasks out by status, so it ignores the status filter.
   const filteredTasks = getFilteredTasksByDuration().filter(task => {
     const matchesSearch = 
-      task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      task.description.toLowerCase().includes(searchQuery.toLowerCase());
+      task.title.toLowerCase().includes(filters.search.toLowerCase()) ||
+      task.description.toLowerCase().includes(filters.search.toLowerCase());
     
-    const matchesStatus = filterStatus === 'all' || task.status === filterStatus;
-    const matchesPriority = filterPriority === 'all' || task.priority === filterPriority;
-    const matchesClient = filterClient === 'all' || 
-      (filterClient === '' ? !task.clientId : task.clientId === filterClient);
-
-    return matchesSearch && matchesStatus && matchesPriority && matchesClient;
+    const matchesStatus = viewMode === 'board' || filters.status === 'all' ||
+      (filters.status === 'overdue' ? task.status !== 'completed' && task.dueDate < startOfDay(new Date()) : task.status === filters.status);
+    const matchesPriority = filters.priority === 'all' || task.priority === filters.priority;
+    const matchesClient = filters.client === 'all' || 
+      (filters.client === '' ? !task.clientId : task.clientId === filters.client);
+    const assigneeId = filters.assignee === 'me' ? currentUser?.uid || '' : filters.assignee;
+    const matchesAssignee = filters.assignee === 'all' || getAssigneeIds(task).includes(assigneeId);
+    const matchesLabel = filters.label === 'all' || (task.labels || []).includes(filters.label);
+    const filterField = customFields.find(f => f.id === filters.fieldId);
+    const matchesField = !filterField || !filters.fieldValue || matchesCustomFieldFilter(task, filterField, filters.fieldValue);
+    // Archived tasks stay out of the default list unless someone searches for them.
+    const matchesScope = filters.scope === 'trash'
+      ? isTaskInTrash(task)
+      : !isTaskInTrash(task) && (filters.scope === 'archived'
+        ? isTaskArchived(task)
+        : !isTaskArchived(task) || !!filters.search);
+
+    return matchesSearch && matchesStatus && matchesPriority && matchesClient && matchesAssignee && matchesLabel && matchesField && matchesScope;
   });
 
   const getPriorityColor = (priority: string) => {
@@ -920,6 +1298,7 @@ export const Tasks = () => {
     switch (status) {
       case 'completed': return <CheckCircle className="h-5 w-5 text-green-600" />;
       case 'in-progress': return <Clock className="h-5 w-5 text-blue-600" />;
+      case 'in-review': return <ClipboardCheck className="h-5 w-5 text-amber-600" />;
       case 'pending': return <AlertCircle className="h-5 w-5 text-gray-600" />;
       default: return <Clock className="h-5 w-5 text-gray-600" />;
     }
@@ -929,22 +1308,45 @@ export const Tasks = () => {
   const renderMinimalTaskCard = (task: Task) => (
     <div
       key={task.id}
-      onClick={() => openDetailModal(task)}
-      className="bg-white border border-gray-200 rounded-xl p-4 hover:shadow-lg transition-all duration-200 cursor-pointer group relative"
+      onClick={() => selectionMode && viewMode === 'list' ? toggleTaskSelection(task.id) : openDetailModal(task)}
+      className={`bg-white border rounded-xl p-4 hover:shadow-lg transition-all duration-200 cursor-pointer group relative ${
+        selectionMode && selectedTaskIds.includes(task.id) ? 'border-primary-500 ring-2 ring-primary-200' : 'border-gray-200'
+      }`}
     >
       {/* Status Indicator Bar */}
       <div className={`absolute top-0 left-0 right-0 h-1 rounded-t-xl ${
         task.status === 'completed' ? 'bg-green-500' : 
-        task.status === 'in-progress' ? 'bg-blue-500' : 'bg-gray-300'
+        task.status === 'in-progress' ? 'bg-blue-500' :
+        task.status === 'in-review' ? 'bg-amber-500' : 'bg-gray-300'
       }`} />
 
       {/* Header */}
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center gap-2">
+          {selectionMode && viewMode === 'list' && (
+            selectedTaskIds.includes(task.id)
+              ? <SquareCheck className="h-5 w-5 text-primary-600" />
+              : <Square className="h-5 w-5 text-gray-400" />
+          )}
           {getStatusIcon(task.status)}
           <span className={`px-2 py-0.5 rounded-md text-xs font-semibold uppercase ${getPriorityColor(task.priority)}`}>
             {task.priority}
           </span>
+          {isTaskInTrash(task) ? (
+            <span className="px-2 py-0.5 rounded-md text-xs font-medium bg-red-50 text-red-700" title={`Deleted by ${task.deletedByName || 'someone'}`}>
+              In trash until {format(getTrashPurgeDate(task)!, 'MMM d')}
+            </span>
+          ) : isTaskArchived(task) && (
+            <span className="px-2 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-600">Archived</span>
+          )}
+          {task.status !== 'completed' && (task.slaBreaches || []).length > 0 && (
+            <span
+              className="px-2 py-0.5 rounded-md text-xs font-medium bg-red-50 text-red-700"
+              title={task.slaBreaches!.map(type => SLA_BREACH_LABELS[type]).join(', ')}
+            >
+              SLA breached
+            </span>
+          )}
         </div>
 
         {/* Action Buttons - Show on hover */}
@@ -985,22 +1387,99 @@ export const Tasks = () => {
         {task.title}
       </h3>
 
+      {/* Labels & Custom Fields */}
+      {(task.labels || []).length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {task.labels!.map(name => (
+            <span key={name} className={`flex items-center px-2 py-0.5 rounded-md text-[11px] font-medium ${getLabelClass(name, taskLabels)}`}>
+              <Tag className="h-3 w-3 mr-1" />
+              {name}
+            </span>
+          ))}
+        </div>
+      )}
+      {customFields.some(f => task.customFields?.[f.id] !== undefined) && (
+        <div className="space-y-0.5 mb-3 text-xs">
+          {customFields.filter(f => task.customFields?.[f.id] !== undefined).map(f => (
+            <div key={f.id} className="flex justify-between gap-2">
+              <span className="text-gray-500 truncate">{f.name}</span>
+              <span className="text-gray-800 font-medium truncate">
+                {formatCustomFieldValue(f, task.customFields?.[f.id], userNames)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Info Row */}
       <div className="flex items-center justify-between text-xs text-gray-600 mb-3">
         <div className="flex items-center gap-1">
           <Users className="h-3.5 w-3.5" />
-          <span className="truncate max-w-[120px]">{task.assignedToName}</span>
+          <span className="truncate max-w-[120px]" title={task.assignedToName}>{task.assignedToName}</span>
+          {isSharedTask(task) && task.status !== 'completed' && (
+            <span className="ml-1 px-1.5 py-0.5 bg-gray-100 text-gray-700 rounded text-[10px] font-medium">
+              {Object.keys(task.assigneeCompletions || {}).length}/{getAssigneeIds(task).length}
+            </span>
+          )}
         </div>
-        <div className="flex items-center gap-1">
-          <Calendar className="h-3.5 w-3.5" />
-          <span>{format(task.dueDate, 'MMM d')}</span>
+        <div className="flex items-center gap-3">
+          {(task.loggedMinutes || 0) > 0 && (
+            <div className={`flex items-center gap-1 ${runningTaskIds.includes(task.id) ? 'text-green-600 font-medium' : ''}`}>
+              <Timer className="h-3.5 w-3.5" />
+              <span>{formatDuration(task.loggedMinutes || 0)}</span>
+            </div>
+          )}
+          {!(task.loggedMinutes || 0) && runningTaskIds.includes(task.id) && (
+            <div className="flex items-center gap-1 text-green-600 font-medium">
+              <Timer className="h-3.5 w-3.5" />
+              <span>Running</span>
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            <Calendar className="h-3.5 w-3.5" />
+            <span>{format(task.dueDate, 'MMM d')}</span>
+          </div>
         </div>
       </div>
 
+      {/* Subtask Progress */}
+      {(() => {
+        const progress = getTaskProgress(task);
+        if (progress.total === 0) return null;
+
+        return (
+          <div className="mb-3">
+            <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+              <span className="flex items-center">
+                <ListChecks className="h-3.5 w-3.5 mr-1" />
+                {progress.completed}/{progress.total}
+              </span>
+              <span>{Math.round(progress.ratio * 100)}%</span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-green-500"
+                style={{ width: `${Math.round(progress.ratio * 100)}%` }}
+              />
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Badges Row */}
       <div className="flex items-center gap-2 flex-wrap">
+        {getOpenBlockers(task, dependencyLookup).length > 0 && (
+          <span className="flex items-center px-2 py-0.5 bg-orange-100 text-orange-700 rounded-md text-xs font-medium">
+            <Lock className="h-3 w-3 mr-1" />
+            Blocked
+          </span>
+        )}
+
         {task.isRecurring && (
-          <span className="flex items-center px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-md text-xs font-medium">
+          <span
+            className="flex items-center px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-md text-xs font-medium"
+            title={getTaskRecurrence(task) ? describeRecurrence(getTaskRecurrence(task)!, task.recurringEndDate) : undefined}
+          >
             <Repeat className="h-3 w-3 mr-1" />
             ×{task.completionCount || 0}
           </span>
@@ -1051,12 +1530,86 @@ export const Tasks = () => {
           <h1 className="text-3xl font-bold text-gray-900">Tasks</h1>
           <p className="text-gray-600 mt-1">Manage and track your team's tasks</p>
         </div>
-        {(userRole === 'superadmin' || userRole === 'admin') && (
-          <button onClick={() => setShowModal(true)} className="btn-primary flex items-center">
-            <Plus className="h-5 w-5 mr-2" />
-            Create Task
+        <div className="flex items-center gap-3">
+          <div className="flex items-center bg-gray-100 rounded-lg p-1">
+            <button
+              onClick={() => changeViewMode('list')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                viewMode === 'list' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="List view"
+            >
+              <LayoutGrid className="h-4 w-4" />
+              List
+            </button>
+            <button
+              onClick={() => changeViewMode('board')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                viewMode === 'board' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="Board view"
+            >
+              <Kanban className="h-4 w-4" />
+              Board
+            </button>
+            <button
+              onClick={() => changeViewMode('timeline')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                viewMode === 'timeline' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+              title="Timeline view"
+            >
+              <ChartGantt className="h-4 w-4" />
+              Timeline
+            </button>
+          </div>
+          <button
+            onClick={exportTasksToCSV}
+            className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            title="Export the filtered tasks as CSV"
+          >
+            <Download className="h-5 w-5 mr-2" />
+            Export
           </button>
-        )}
+          {(userRole === 'superadmin' || userRole === 'admin') && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              title="Create tasks from a CSV or Excel file"
+            >
+              <Upload className="h-5 w-5 mr-2" />
+              Import
+            </button>
+          )}
+          {(userRole === 'superadmin' || userRole === 'admin') && viewMode === 'list' && (
+            <button
+              onClick={() => selectionMode ? exitSelectionMode() : setSelectionMode(true)}
+              className={`flex items-center px-4 py-2 border rounded-lg transition-colors font-medium ${
+                selectionMode
+                  ? 'bg-primary-50 text-primary-600 border-primary-200'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <SquareCheck className="h-5 w-5 mr-2" />
+              {selectionMode ? 'Done' : 'Select'}
+            </button>
+          )}
+          {(userRole === 'superadmin' || userRole === 'admin') && (
+            <button
+              onClick={() => setShowPlaybookModal(true)}
+              className="flex items-center px-4 py-2 bg-primary-50 text-primary-600 rounded-lg hover:bg-primary-100 transition-colors font-medium"
+            >
+              <Layers className="h-5 w-5 mr-2" />
+              Apply Playbook
+            </button>
+          )}
+          {(userRole === 'superadmin' || userRole === 'admin') && (
+            <button onClick={() => setShowModal(true)} className="btn-primary flex items-center">
+              <Plus className="h-5 w-5 mr-2" />
+              Create Task
+            </button>
+          )}
+        </div>
       </div>
 
       {success && (
@@ -1072,32 +1625,47 @@ export const Tasks = () => {
       )}
 
       <div className="card mb-6">
+        <SavedViewsBar
+          views={savedViews}
+          activeViewId={savedViews.find(v => getSavedViewLink(v.filters) === getSavedViewLink(filters))?.id}
+          pinnedIds={pinnedViewIds}
+          currentUserId={currentUser?.uid}
+          hasFilters={getSavedViewLink(filters) !== getSavedViewLink(DEFAULT_TASK_FILTERS)}
+          onApply={(view) => setFilters(view.filters)}
+          onSave={handleSaveView}
+          onTogglePin={handleTogglePinView}
+          onToggleShare={handleToggleShareView}
+          onDelete={handleDeleteView}
+        />
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
             <input
               type="text"
               placeholder="Search tasks..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
             />
           </div>
 
           <select
-            value={filterStatus}
-            onChange={(e) => setFilterStatus(e.target.value)}
-            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            value={filters.status}
+            onChange={(e) => updateFilters({ status: e.target.value })}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100 disabled:text-gray-400"
+            disabled={viewMode === 'board'}
+            title={viewMode === 'board' ? 'The board shows every status as a column' : undefined}
           >
             <option value="all">All Status</option>
-            <option value="pending">Pending</option>
-            <option value="in-progress">In Progress</option>
-            <option value="completed">Completed</option>
+            {TASK_STATUSES.map(s => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+            <option value="overdue">Overdue</option>
           </select>
 
           <select
-            value={filterPriority}
-            onChange={(e) => setFilterPriority(e.target.value)}
+            value={filters.priority}
+            onChange={(e) => updateFilters({ priority: e.target.value })}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
           >
             <option value="all">All Priority</option>
@@ -1107,8 +1675,8 @@ export const Tasks = () => {
           </select>
 
           <select
-            value={filterClient}
-            onChange={(e) => setFilterClient(e.target.value)}
+            value={filters.client}
+            onChange={(e) => updateFilters({ client: e.target.value })}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
           >
             <option value="all">All Clients</option>
@@ -1121,8 +1689,8 @@ export const Tasks = () => {
           </select>
 
           <select
-            value={filterDuration}
-            onChange={(e) => setFilterDuration(e.target.value)}
+            value={filters.duration}
+            onChange={(e) => updateFilters({ duration: e.target.value })}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
           >
             <option value="all">All Time</option>
@@ -1132,7 +1700,84 @@ export const Tasks = () => {
           </select>
         </div>
 
-        {filterDuration === 'custom' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+          <select
+            value={filters.assignee}
+            onChange={(e) => updateFilters({ assignee: e.target.value })}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="all">Anyone</option>
+            <option value="me">Assigned to me</option>
+            {(userRole === 'superadmin' || userRole === 'admin') && users.map(user => (
+              <option key={user.uid} value={user.uid}>{user.displayName}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.scope}
+            onChange={(e) => updateFilters({ scope: e.target.value })}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="active">Active Tasks</option>
+            <option value="archived">Archived</option>
+            {canManageTask() && <option value="trash">Trash</option>}
+          </select>
+
+          {taskLabels.length > 0 && (
+            <select
+              value={filters.label}
+              onChange={(e) => updateFilters({ label: e.target.value })}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="all">All Labels</option>
+              {taskLabels.map(label => (
+                <option key={label.name} value={label.name}>{label.name}</option>
+              ))}
+            </select>
+          )}
+
+          {customFields.length > 0 && (
+            <>
+              <select
+                value={filters.fieldId}
+                onChange={(e) => updateFilters({ fieldId: e.target.value, fieldValue: '' })}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Any Custom Field</option>
+                {customFields.map(f => (
+                  <option key={f.id} value={f.id}>{f.name}</option>
+                ))}
+              </select>
+
+              {(() => {
+                const field = customFields.find(f => f.id === filters.fieldId);
+                const className = 'px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100';
+                if (field?.type === 'dropdown' || field?.type === 'user') {
+                  return (
+                    <select value={filters.fieldValue} onChange={(e) => updateFilters({ fieldValue: e.target.value })} className={className}>
+                      <option value="">Any value</option>
+                      {field.type === 'dropdown'
+                        ? (field.options || []).map(o => <option key={o} value={o}>{o}</option>)
+                        : users.map(u => <option key={u.uid} value={u.uid}>{u.displayName}</option>)}
+                    </select>
+                  );
+                }
+                return (
+                  <input
+                    type={field?.type === 'date' ? 'date' : field?.type === 'number' ? 'number' : 'text'}
+                    value={filters.fieldValue}
+                    onChange={(e) => updateFilters({ fieldValue: e.target.value })}
+                    placeholder={field ? `Filter by ${field.name}` : 'Pick a field first'}
+                    disabled={!field}
+                    className={className}
+                  />
+                );
+              })()}
+            </>
+          )}
+        </div>
+
+        {filters.duration === 'custom' && (
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1141,8 +1786,8 @@ export const Tasks = () => {
               </label>
               <input
                 type="date"
-                value={customStartDate}
-                onChange={(e) => setCustomStartDate(e.target.value)}
+                value={filters.startDate}
+                onChange={(e) => updateFilters({ startDate: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
               />
             </div>
@@ -1153,8 +1798,8 @@ export const Tasks = () => {
               </label>
               <input
                 type="date"
-                value={customEndDate}
-                onChange={(e) => setCustomEndDate(e.target.value)}
+                value={filters.endDate}
+                onChange={(e) => updateFilters({ endDate: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
               />
             </div>
@@ -1162,12 +1807,41 @@ export const Tasks = () => {
         )}
       </div>
 
-      {/* ✅ EXACTLY 3 CARDS PER ROW */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
-        {filteredTasks.map(task => renderMinimalTaskCard(task))}
-      </div>
+      {viewMode === 'board' ? (
+        <TaskBoard
+          tasks={filteredTasks}
+          renderCard={renderMinimalTaskCard}
+          canDrag={(task) => !(task.status === 'completed' && !task.isRecurring)}
+          onStatusChange={handleStatusChange}
+        />
+      ) : viewMode === 'timeline' ? (
+        <TaskTimeline
+          tasks={filteredTasks}
+          canReschedule={userRole === 'superadmin' || userRole === 'admin'}
+          onReschedule={handleRescheduleTask}
+          onTaskClick={openDetailModal}
+        />
+      ) : (
+        /* ✅ EXACTLY 3 CARDS PER ROW */
+        <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5 ${selectionMode ? 'pb-28' : ''}`}>
+          {filteredTasks.map(task => renderMinimalTaskCard(task))}
+        </div>
+      )}
+
+      {selectionMode && viewMode === 'list' && (
+        <BulkActionBar
+          selectedCount={selectedTaskIds.length}
+          totalCount={filteredTasks.length}
+          users={users}
+          labels={taskLabels}
+          inTrash={filters.scope === 'trash'}
+          onSelectAll={() => setSelectedTaskIds(filteredTasks.map(t => t.id))}
+          onClear={exitSelectionMode}
+          onRun={handleBulkAction}
+        />
+      )}
 
-      {filteredTasks.length === 0 && (
+      {viewMode === 'list' && filteredTasks.length === 0 && (
         <div className="card text-center py-12">
           <CheckCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
           <p className="text-gray-500">
@@ -1190,15 +1864,29 @@ export const Tasks = () => {
                 {getStatusIcon(selectedTask.status)}
                 <h2 className="text-2xl font-bold text-gray-900">{selectedTask.title}</h2>
               </div>
-              <button
-                onClick={() => {
-                  setShowDetailModal(false);
-                  setSelectedTask(null);
-                }}
-                className="p-2 hover:bg-gray-100 rounded-lg"
-              >
-                <X className="h-5 w-5 text-gray-600" />
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleToggleFollow(selectedTask)}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                    isFollowingTask(selectedTask, currentUser?.uid)
+                      ? 'bg-primary-50 text-primary-700 border-primary-200'
+                      : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                  title={`${(selectedTask.watchers || []).length} follower(s)`}
+                >
+                  {isFollowingTask(selectedTask, currentUser?.uid) ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  {isFollowingTask(selectedTask, currentUser?.uid) ? 'Unfollow' : 'Follow'}
+                </button>
+                <button
+                  onClick={() => {
+                    setShowDetailModal(false);
+                    setSelectedTask(null);
+                  }}
+                  className="p-2 hover:bg-gray-100 rounded-lg"
+                >
+                  <X className="h-5 w-5 text-gray-600" />
+                </button>
+              </div>
             </div>
 
             <div className="px-6 py-6 space-y-6">
@@ -1210,7 +1898,7 @@ export const Tasks = () => {
                 {selectedTask.isRecurring && (
                   <span className="flex items-center px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full text-xs font-medium">
                     <Repeat className="h-3 w-3 mr-1" />
-                    {selectedTask.recurringPattern} • Completed {selectedTask.completionCount || 0}x
+                    {describeRecurrence(getTaskRecurrence(selectedTask)!, selectedTask.recurringEndDate)} • Completed {selectedTask.completionCount || 0}x
                   </span>
                 )}
 
@@ -1234,6 +1922,13 @@ export const Tasks = () => {
                     {selectedTask.clientName}
                   </span>
                 )}
+
+                {(selectedTask.labels || []).map(name => (
+                  <span key={name} className={`flex items-center px-3 py-1 rounded-full text-xs font-medium ${getLabelClass(name, taskLabels)}`}>
+                    <Tag className="h-3 w-3 mr-1" />
+                    {name}
+                  </span>
+                ))}
               </div>
 
               <div>
@@ -1244,7 +1939,28 @@ export const Tasks = () => {
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <p className="text-gray-600 mb-1">Assigned to</p>
-                  <p className="font-medium text-gray-900">{selectedTask.assignedToName}</p>
+                  {isSharedTask(selectedTask) ? (
+                    <ul className="space-y-1">
+                      {getAssigneeIds(selectedTask).map(uid => {
+                        const part = selectedTask.assigneeCompletions?.[uid];
+                        return (
+                          <li key={uid} className="flex items-center gap-1.5">
+                            <CheckCircle className={`h-3.5 w-3.5 ${part ? 'text-green-600' : 'text-gray-300'}`} />
+                            <span className="font-medium text-gray-900">{selectedTask.assigneeNames?.[uid] || 'Unknown'}</span>
+                            {selectedTask.leadId === uid && (
+                              <span className="px-1.5 py-0.5 bg-primary-50 text-primary-700 rounded text-[10px] font-medium">Lead</span>
+                            )}
+                            {part && (
+                              <span className="text-xs text-gray-500">{format(part.completedAt, 'MMM d')}</span>
+                            )}
+                          </li>
+                        );
+                      })}
+                      <li className="text-xs text-gray-500">{POINTS_SPLIT_LABELS[selectedTask.pointsSplit || 'equal']}</li>
+                    </ul>
+                  ) : (
+                    <p className="font-medium text-gray-900">{selectedTask.assignedToName}</p>
+                  )}
                 </div>
 
                 <div>
@@ -1284,8 +2000,73 @@ export const Tasks = () => {
                     <p className="font-medium text-green-600">{format(selectedTask.lastCompletedDate, 'MMM d, h:mm a')}</p>
                   </div>
                 )}
+
+                {customFields.filter(f => selectedTask.customFields?.[f.id] !== undefined).map(f => (
+                  <div key={f.id}>
+                    <p className="text-gray-600 mb-1">{f.name}</p>
+                    <p className="font-medium text-gray-900">
+                      {formatCustomFieldValue(f, selectedTask.customFields?.[f.id], userNames)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="pt-4 border-t border-gray-200">
+                <SubtaskList
+                  task={selectedTask}
+                  users={users}
+                  currentUserId={currentUser?.uid || ''}
+                  canEdit={userRole === 'superadmin' || userRole === 'admin' || isTaskAssignee(selectedTask, currentUser?.uid)}
+                  onSave={(subtasks, checklist) => handleSaveSubtasks(selectedTask, subtasks, checklist)}
+                />
+              </div>
+
+              <div className="pt-4 border-t border-gray-200">
+                <TimeTracker
+                  task={selectedTask}
+                  currentUserId={currentUser?.uid || ''}
+                  currentUserName={userData?.displayName || ''}
+                  canManageAll={userRole === 'superadmin'}
+                  onChange={fetchTasks}
+                />
+              </div>
+
+              <div className="pt-4 border-t border-gray-200">
+                <DependencyList
+                  task={selectedTask}
+                  lookup={dependencyLookup}
+                  candidates={tasks}
+                  canEdit={userRole === 'superadmin' || userRole === 'admin'}
+                  onAdd={(blockerId) => handleAddDependency(selectedTask, blockerId)}
+                  onRemove={(blockerId) => handleRemoveDependency(selectedTask, blockerId)}
+                />
               </div>
 
+              {!isSharedTask(selectedTask) && (
+                <div className="pt-4 border-t border-gray-200">
+                  <ReassignPanel
+                    task={selectedTask}
+                    users={users}
+                    canReassign={canManageTask() && !isTaskInTrash(selectedTask) && selectedTask.status !== 'completed'}
+                    onReassign={(to, note) => handleReassignTask(selectedTask, to, note)}
+                  />
+                </div>
+              )}
+
+              {(selectedTask.requiresReview || selectedTask.status === 'in-review') && (
+                <div className="pt-4 border-t border-gray-200">
+                  <ReviewPanel
+                    task={selectedTask}
+                    canReview={canReviewTask(selectedTask, currentUser?.uid)}
+                    onApprove={async () => {
+                      setShowDetailModal(false);
+                      await handleStatusChange(selectedTask.id, 'completed');
+                    }}
+                    onRequestChanges={(note) => handleRequestChanges(selectedTask, note)}
+                  />
+                </div>
+              )}
+
               <div className="pt-4 border-t border-gray-200">
                 <label className="block text-sm font-medium text-gray-700 mb-2">Update Status</label>
                 <select
@@ -1297,9 +2078,9 @@ export const Tasks = () => {
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                   disabled={selectedTask.status === 'completed' && !selectedTask.isRecurring}
                 >
-                  <option value="pending">Pending</option>
-                  <option value="in-progress">In Progress</option>
-                  <option value="completed">Completed</option>
+                  {TASK_STATUSES.map(s => (
+                    <option key={s.value} value={s.value}>{s.label}</option>
+                  ))}
                 </select>
               </div>
 
@@ -1329,36 +2110,100 @@ export const Tasks = () => {
                 )}
 
                 {canEditTask(selectedTask) && (
+                  <button
+                    onClick={() => {
+                      setShowDetailModal(false);
+                      openEditModal(selectedTask);
+                    }}
+                    className="px-4 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+                    title="Edit"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                )}
+
+                {canManageTask() && (isTaskInTrash(selectedTask) ? (
+                  <>
+                    <button
+                      onClick={() => {
+                        setShowDetailModal(false);
+                        handleRestoreTask(selectedTask);
+                      }}
+                      className="px-4 py-2 text-green-600 border border-green-600 rounded-lg hover:bg-green-50 transition-colors"
+                      title="Restore"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                    {userRole === 'superadmin' && (
+                      <button
+                        onClick={() => {
+                          setShowDetailModal(false);
+                          handlePurgeTask(selectedTask);
+                        }}
+                        className="px-4 py-2 text-red-600 border border-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                        title="Delete permanently"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </>
+                ) : (
                   <>
                     <button
                       onClick={() => {
                         setShowDetailModal(false);
-                        openEditModal(selectedTask);
+                        handleToggleArchive(selectedTask);
                       }}
-                      className="px-4 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
-                      title="Edit"
+                      className="px-4 py-2 text-gray-600 border border-gray-400 rounded-lg hover:bg-gray-50 transition-colors"
+                      title={isTaskArchived(selectedTask) ? 'Unarchive' : 'Archive'}
                     >
-                      <Edit2 className="h-4 w-4" />
+                      {isTaskArchived(selectedTask) ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
                     </button>
                     <button
                       onClick={() => {
                         setShowDetailModal(false);
-                        handleDeleteTask(selectedTask.id);
+                        handleDeleteTask(selectedTask);
                       }}
                       className="px-4 py-2 text-red-600 border border-red-600 rounded-lg hover:bg-red-50 transition-colors"
-                      title="Delete"
+                      title="Move to trash"
                     >
                       <Trash2 className="h-4 w-4" />
                     </button>
                   </>
-                )}
+                ))}
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {showImportModal && (userRole === 'superadmin' || userRole === 'admin') && (
+        <ImportTasksModal
+          users={users}
+          clients={clients}
+          onClose={() => setShowImportModal(false)}
+          onImported={(count) => {
+            setSuccess(`${count} task${count > 1 ? 's' : ''} imported`);
+            fetchTasks();
+            setTimeout(() => setSuccess(''), 3000);
+          }}
+        />
+      )}
+
       {/* CREATE/EDIT TASK MODAL - Same as before */}
+      {showPlaybookModal && (userRole === 'superadmin' || userRole === 'admin') && (
+        <ApplyPlaybookModal
+          clients={clients}
+          onClose={() => setShowPlaybookModal(false)}
+          onApplied={(count) => {
+            setShowPlaybookModal(false);
+            setSuccess(`${count} task${count > 1 ? 's' : ''} created from playbook`);
+            fetchTasks();
+            setTimeout(() => setSuccess(''), 3000);
+          }}
+        />
+      )}
+
       {showModal && (userRole === 'superadmin' || userRole === 'admin') && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -1446,12 +2291,64 @@ export const Tasks = () => {
                       <input
                         type="date"
                         value={formData.dueDate}
-                        onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          dueDate: e.target.value,
+                          recurrence: e.target.value ? moveRuleAnchor(formData.recurrence, e.target.value) : formData.recurrence,
+                        })}
                         className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                         disabled={loading}
                       />
                     </div>
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Labels</label>
+                    <LabelPicker
+                      value={formData.labels}
+                      labels={taskLabels}
+                      onChange={(labels) => setFormData({ ...formData, labels })}
+                      onCreate={handleCreateLabel}
+                    />
+                  </div>
+
+                  <CustomFieldInputs
+                    fields={customFields}
+                    values={formData.customFields}
+                    users={users}
+                    onChange={(values) => setFormData({ ...formData, customFields: values })}
+                  />
+
+                  <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={formData.requiresReview}
+                        onChange={(e) => setFormData({ ...formData, requiresReview: e.target.checked })}
+                        className="h-4 w-4 text-primary-600 rounded focus:ring-primary-500"
+                        disabled={loading}
+                      />
+                      <span className="text-sm font-medium text-gray-700">Requires review before it counts as done</span>
+                    </label>
+                    {formData.requiresReview && (
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">
+                          Reviewer. The creator can always approve as well.
+                        </label>
+                        <select
+                          value={formData.reviewerId}
+                          onChange={(e) => setFormData({ ...formData, reviewerId: e.target.value })}
+                          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          disabled={loading}
+                        >
+                          <option value="">Creator only</option>
+                          {users.map(u => (
+                            <option key={u.uid} value={u.uid}>{u.displayName}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
                 </div>
 
                 {!editingTask && (
@@ -1495,10 +2392,79 @@ export const Tasks = () => {
                     {selectedUsers.length > 0 && (
                       <p className="text-xs text-gray-600">{selectedUsers.length} user(s) selected</p>
                     )}
+
+                    <AssigneeSuggestions
+                      workloads={workloads}
+                      dueDate={formData.dueDate ? new Date(formData.dueDate) : null}
+                      priority={formData.priority}
+                      assigneeIds={selectedUsers}
+                      shared={selectedUsers.length > 1 && formData.assignmentMode === 'shared'}
+                      onSelect={handleUserSelection}
+                    />
+
+                    {selectedUsers.length > 1 && (
+                      <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+                        <div className="flex items-center bg-gray-100 rounded-lg p-1 w-fit">
+                          {(['individual', 'shared'] as const).map(mode => (
+                            <button
+                              key={mode}
+                              type="button"
+                              onClick={() => setFormData({ ...formData, assignmentMode: mode })}
+                              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                                formData.assignmentMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                              }`}
+                            >
+                              {mode === 'individual' ? 'One copy per person' : 'One shared task'}
+                            </button>
+                          ))}
+                        </div>
+                        {formData.assignmentMode === 'shared' ? (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Lead (Optional)</label>
+                              <select
+                                value={formData.leadId}
+                                onChange={(e) => setFormData({ ...formData, leadId: e.target.value })}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              >
+                                <option value="">No lead</option>
+                                {users.filter(u => selectedUsers.includes(u.uid)).map(u => (
+                                  <option key={u.uid} value={u.uid}>{u.displayName}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Points</label>
+                              <select
+                                value={formData.pointsSplit}
+                                onChange={(e) => setFormData({ ...formData, pointsSplit: e.target.value as PointsSplitRule })}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              >
+                                {Object.entries(POINTS_SPLIT_LABELS).map(([value, label]) => (
+                                  <option key={value} value={value} disabled={value === 'lead' && !formData.leadId}>{label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <p className="md:col-span-2 text-xs text-gray-600">
+                              Everyone works on the same task and comment thread. It completes once each assignee marks their part done.
+                            </p>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-600">Each person gets their own independent copy of the task.</p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
 
-                {editingTask && (
+                {editingTask && isSharedTask(editingTask) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Assigned to</label>
+                    <p className="text-sm text-gray-900">{editingTask.assignedToName}</p>
+                  </div>
+                )}
+
+                {editingTask && !isSharedTask(editingTask) && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Assign to <span className="text-red-500">*</span>
@@ -1516,6 +2482,25 @@ export const Tasks = () => {
                         </option>
                       ))}
                     </select>
+                    {formData.assignedTo !== editingTask.assignedTo && (
+                      <div className="mt-2 space-y-2">
+                        <textarea
+                          value={formData.handoffNote}
+                          onChange={(e) => setFormData({ ...formData, handoffNote: e.target.value })}
+                          placeholder="Handoff note for the new assignee *"
+                          rows={2}
+                          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          disabled={loading}
+                        />
+                        <AssigneeSuggestions
+                          workloads={workloads}
+                          dueDate={formData.dueDate ? new Date(formData.dueDate) : null}
+                          priority={formData.priority}
+                          assigneeIds={[formData.assignedTo]}
+                          shared={false}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -1564,7 +2549,7 @@ export const Tasks = () => {
                     {selectedUsers.length > 0 && selectedClients.length > 0 && (
                       <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                         <p className="text-xs text-blue-700">
-                          This will create <strong>{selectedUsers.length * selectedClients.length}</strong> task(s)
+                          This will create <strong>{(formData.assignmentMode === 'shared' ? 1 : selectedUsers.length) * selectedClients.length}</strong> task(s)
                         </p>
                       </div>
                     )}
@@ -1609,16 +2594,17 @@ export const Tasks = () => {
                     {formData.isRecurring && (
                       <div className="ml-7 space-y-4 p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">Recurring Pattern</label>
-                          <select
-                            value={formData.recurringPattern}
-                            onChange={(e) => setFormData({ ...formData, recurringPattern: e.target.value as any })}
-                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          >
-                            <option value="daily">Daily</option>
-                            <option value="weekly">Weekly</option>
-                            <option value="monthly">Monthly</option>
-                          </select>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+                          {formData.dueDate ? (
+                            <RecurrenceEditor
+                              rule={{ ...formData.recurrence, anchorDate: formData.dueDate }}
+                              endDate={formData.recurringEndDate ? new Date(formData.recurringEndDate) : null}
+                              holidays={holidays}
+                              onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                            />
+                          ) : (
+                            <p className="text-sm text-gray-600">Pick a due date first; it becomes the first occurrence.</p>
+                          )}
                         </div>
 
                         <div>
@@ -1682,6 +2668,7 @@ export const Tasks = () => {
                   setShowChatModal(false);
                   setSelectedTask(null);
                   setNewComment('');
+                  clearPendingFiles();
                 }}
                 className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
               >
@@ -1698,57 +2685,72 @@ export const Tasks = () => {
                 </div>
               ) : (
                 comments.map((comment) => (
-                  <div
+                  <CommentBubble
                     key={comment.id}
-                    className={`flex ${comment.sentBy === currentUser?.uid ? 'justify-end' : 'justify-start'}`}
-                  >
-                    <div
-                      className={`max-w-[70%] rounded-lg p-3 ${
-                        comment.sentBy === currentUser?.uid
-                          ? 'bg-primary-600 text-white'
-                          : 'bg-gray-100 text-gray-900'
-                      }`}
-                    >
-                      <div className="flex items-center gap-2 mb-1">
-                        <p className="text-xs font-semibold">{comment.sentByName}</p>
-                        <span
-                          className={`text-xs px-2 py-0.5 rounded ${
-                            comment.sentBy === currentUser?.uid
-                              ? 'bg-primary-700 text-primary-100'
-                              : getRoleBadgeColor(comment.sentByRole)
-                          }`}
-                        >
-                          {comment.sentByRole}
-                        </span>
-                      </div>
-                      <p className="text-sm whitespace-pre-wrap break-words">{comment.message}</p>
-                      <p
-                        className={`text-xs mt-2 ${
-                          comment.sentBy === currentUser?.uid ? 'text-primary-200' : 'text-gray-500'
-                        }`}
-                      >
-                        {format(comment.timestamp, 'MMM d, h:mm a')}
-                      </p>
-                    </div>
-                  </div>
+                    comment={comment}
+                    currentUserId={currentUser?.uid}
+                    roleBadgeClass={getRoleBadgeColor(comment.sentByRole)}
+                    userNames={userNames}
+                    onEdit={handleEditComment}
+                    onReact={handleReactToComment}
+                  />
                 ))
               )}
             </div>
 
             <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
+              {pendingFiles.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {pendingFiles.map(({ file, previewUrl }, index) => (
+                    <div key={index} className="flex items-center gap-2 pl-1 pr-2 py-1 bg-white border border-gray-200 rounded-lg text-xs">
+                      {previewUrl ? (
+                        <img src={previewUrl} alt={file.name} className="h-8 w-8 rounded object-cover" />
+                      ) : (
+                        <FileText className="h-4 w-4 text-gray-500" />
+                      )}
+                      <span className="max-w-[10rem] truncate text-gray-700">{file.name}</span>
+                      <button
+                        onClick={() => clearPendingFiles(pendingFiles.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove attachment"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="flex gap-2">
-                <input
-                  type="text"
+                <label
+                  className={`px-3 py-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors flex items-center ${
+                    sendingMessage ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                  }`}
+                  title="Attach files"
+                >
+                  <Paperclip className="h-4 w-4" />
+                  <input
+                    type="file"
+                    multiple
+                    className="hidden"
+                    disabled={sendingMessage}
+                    onChange={(e) => {
+                      handleAttachFiles(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <MentionInput
                   value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && handleSendComment()}
-                  placeholder="Type your message..."
-                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  users={users}
+                  onChange={setNewComment}
+                  onSubmit={handleSendComment}
+                  placeholder="Type your message... (@ to mention)"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                   disabled={sendingMessage}
                 />
                 <button
                   onClick={handleSendComment}
-                  disabled={!newComment.trim() || sendingMessage}
+                  disabled={(!newComment.trim() && pendingFiles.length === 0) || sendingMessage}
                   className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                 >
                   <Send className="h-4 w-4" />
@@ -1866,7 +2868,10 @@ export const Tasks = () => {
                                 Early
                               </span>
                             )}
-                            <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-medium">
+                            <span
+                              className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-medium"
+                              title={`Scored with points policy v${completion.policyVersion ?? 0}`}
+                            >
                               {completion.points} pts
                             </span>
                           </div>
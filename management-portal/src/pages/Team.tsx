@@ -4,12 +4,15 @@ import { createUserWithEmailAndPassword, updatePassword } from 'firebase/auth';
 import { auth, db } from '../config/firebase';
 import { useAuth } from '../contexts/AuthContext';
 import { createNotification } from '../utils/notifications';
+import { DEFAULT_WEEKLY_CAPACITY } from '../utils/workload';
+import { WorkloadView } from '../components/team/WorkloadView';
 import type { User } from '../types';
-import { Plus, Mail, Briefcase, Shield, Trash2, AlertTriangle, Copy, Eye, EyeOff, Edit2 } from 'lucide-react';
+import { Plus, Mail, Briefcase, Shield, Trash2, AlertTriangle, Copy, Eye, EyeOff, Edit2, Users, Gauge } from 'lucide-react';
 
 export const Team = () => {
   const { currentUser, userRole } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
+  const [view, setView] = useState<'members' | 'workload'>('members');
   const [showModal, setShowModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -33,6 +36,8 @@ export const Team = () => {
     role: 'member' as 'superadmin' | 'admin' | 'member',
     department: '',
     phone: '',
+    skills: '', // comma separated
+    weeklyCapacity: '',
     newPassword: '', // Optional password change
   });
 
@@ -193,6 +198,8 @@ export const Team = () => {
         role: editFormData.role,
         department: editFormData.department,
         phone: editFormData.phone,
+        skills: editFormData.skills.split(',').map(s => s.trim()).filter(Boolean),
+        weeklyCapacity: parseFloat(editFormData.weeklyCapacity) > 0 ? parseFloat(editFormData.weeklyCapacity) : null,
         updatedAt: Timestamp.now(),
         updatedBy: currentUser.uid,
       });
@@ -279,6 +286,8 @@ export const Team = () => {
       role: 'member',
       department: '',
       phone: '',
+      skills: '',
+      weeklyCapacity: '',
       newPassword: '',
     });
     setShowPassword(false);
@@ -292,6 +301,8 @@ export const Team = () => {
       role: user.role,
       department: user.department || '',
       phone: user.phone || '',
+      skills: (user.skills || []).join(', '),
+      weeklyCapacity: user.weeklyCapacity ? String(user.weeklyCapacity) : '',
       newPassword: '',
     });
     setShowEditModal(true);
@@ -356,7 +367,26 @@ export const Team = () => {
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {(userRole === 'superadmin' || userRole === 'admin') && (
+        <div className="flex items-center bg-gray-100 rounded-lg p-1 w-fit mb-6">
+          {([['members', 'Members', Users], ['workload', 'Workload', Gauge]] as const).map(([value, label, Icon]) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`flex items-center px-3 py-1.5 text-sm rounded-md transition-colors ${
+                view === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Icon className="h-4 w-4 mr-1.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {view === 'workload' && <WorkloadView users={users} />}
+
+      <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${view === 'members' ? '' : 'hidden'}`}>
         {users.map((user) => (
           <div key={user.uid} className="card hover:shadow-md transition-shadow">
             <div className="flex items-start space-x-4">
@@ -419,7 +449,7 @@ export const Team = () => {
         ))}
       </div>
 
-      {users.length === 0 && (
+      {view === 'members' && users.length === 0 && (
         <div className="card text-center py-12">
           <p className="text-gray-500">No team members found</p>
         </div>
@@ -708,6 +738,37 @@ export const Team = () => {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Skills
+                </label>
+                <input
+                  type="text"
+                  value={editFormData.skills}
+                  onChange={(e) => setEditFormData({ ...editFormData, skills: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  placeholder="Design, SEO, Accounting"
+                  disabled={loading}
+                />
+                <p className="text-xs text-gray-500 mt-1">Comma separated. Used to suggest assignees for new tasks.</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Weekly Capacity
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={editFormData.weeklyCapacity}
+                  onChange={(e) => setEditFormData({ ...editFormData, weeklyCapacity: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  placeholder={String(DEFAULT_WEEKLY_CAPACITY)}
+                  disabled={loading}
+                />
+                <p className="text-xs text-gray-500 mt-1">Workload points per week. A high priority task is 3, medium 2, low 1.</p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Phone
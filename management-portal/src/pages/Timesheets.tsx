@@ -0,0 +1,447 @@
+import { useEffect, useState } from 'react';
+import { collection, getDocs, onSnapshot, query, where } from 'firebase/firestore';
+import { addDays, addWeeks, format } from 'date-fns';
+import {
+  CalendarDays,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  ClipboardCheck,
+  Lock,
+  Plus,
+  RefreshCw,
+  Save,
+  Send,
+  XCircle
+} from 'lucide-react';
+import { db } from '../config/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { TimesheetGrid } from '../components/timesheets/TimesheetGrid';
+import { getAssignedTaskDocs } from '../utils/tasks';
+import type { Timesheet, TimesheetRow } from '../types';
+import {
+  buildRowsFromEntries,
+  createTimesheetRow,
+  getTimesheet,
+  getTimesheetId,
+  getTimesheetTotal,
+  getWeekStart,
+  getWeekTimeEntries,
+  isTimesheetLocked,
+  mapTimesheetDoc,
+  reviewTimesheet,
+  saveTimesheet,
+  submitTimesheet,
+  TIMESHEET_STATUS_STYLES
+} from '../utils/timesheets';
+
+interface RowOption {
+  value: string;
+  label: string;
+  taskId: string | null;
+  taskTitle: string;
+  clientId: string | null;
+  clientName: string | null;
+}
+
+export const Timesheets = () => {
+  const { currentUser, userRole, userData } = useAuth();
+  const [activeTab, setActiveTab] = useState<'mine' | 'approvals'>('mine');
+  const [weekStart, setWeekStart] = useState(getWeekStart(new Date()));
+  const [sheet, setSheet] = useState<Timesheet | null>(null);
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [rowOptions, setRowOptions] = useState<RowOption[]>([]);
+  const [newRowKey, setNewRowKey] = useState('');
+  const [pendingSheets, setPendingSheets] = useState<Timesheet[]>([]);
+  const [reviewComments, setReviewComments] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const canReview = userRole === 'superadmin' || userRole === 'admin';
+  const locked = sheet ? isTimesheetLocked(sheet) : false;
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchSheet();
+    }
+  }, [currentUser, weekStart]);
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchRowOptions();
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!canReview) return;
+
+    const q = query(collection(db, 'timesheets'), where('status', '==', 'submitted'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const data = snapshot.docs
+        .map(d => mapTimesheetDoc(d.id, d.data()))
+        .filter(s => s.userId !== currentUser?.uid)
+        .sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+      setPendingSheets(data);
+    });
+
+    return () => unsubscribe();
+  }, [canReview, currentUser]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const fetchSheet = async () => {
+    if (!currentUser) return;
+    setLoading(true);
+    setError('');
+    try {
+      const existing = await getTimesheet(currentUser.uid, weekStart);
+      setSheet(existing);
+
+      if (existing) {
+        setRows(existing.rows);
+      } else {
+        const entries = await getWeekTimeEntries(currentUser.uid, weekStart);
+        setRows(buildRowsFromEntries(entries, weekStart));
+      }
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+      setError('Failed to load timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRowOptions = async () => {
+    if (!currentUser) return;
+    try {
+      const [taskDocs, clientsSnapshot] = await Promise.all([
+        getAssignedTaskDocs(currentUser.uid),
+        getDocs(collection(db, 'clients')),
+      ]);
+
+      const taskOptions = taskDocs.filter(d => !d.data().deletedAt && !d.data().archivedAt).map(d => ({
+        value: d.id,
+        label: d.data().title,
+        taskId: d.id,
+        taskTitle: d.data().title,
+        clientId: d.data().clientId || null,
+        clientName: d.data().clientName || null,
+      }));
+      const clientOptions = clientsSnapshot.docs.map(d => ({
+        value: `client-${d.id}`,
+        label: `${d.data().name} (general)`,
+        taskId: null,
+        taskTitle: 'General client work',
+        clientId: d.id,
+        clientName: d.data().name,
+      }));
+
+      setRowOptions([...taskOptions, ...clientOptions]);
+    } catch (error) {
+      console.error('Error fetching timesheet options:', error);
+    }
+  };
+
+  const handleAddRow = () => {
+    const option = rowOptions.find(o => o.value === newRowKey);
+    if (!option || rows.some(row => row.key === option.value)) return;
+
+    setRows([...rows, createTimesheetRow(option.taskId, option.taskTitle, option.clientId, option.clientName)]);
+    setNewRowKey('');
+  };
+
+  const handleFillFromTracked = async () => {
+    if (!currentUser) return;
+    try {
+      const entries = await getWeekTimeEntries(currentUser.uid, weekStart);
+      const tracked = buildRowsFromEntries(entries, weekStart);
+      setRows([...rows.filter(row => !tracked.some(t => t.key === row.key)), ...tracked]);
+    } catch (error) {
+      console.error('Error loading tracked time:', error);
+      setError('Failed to load tracked time');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!currentUser || !userData) return;
+    setLoading(true);
+    setError('');
+    try {
+      await saveTimesheet(currentUser.uid, userData.displayName, weekStart, rows);
+      await fetchSheet();
+      showSuccess('Timesheet saved');
+    } catch (error) {
+      console.error('Error saving timesheet:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!currentUser || !userData) return;
+    if (getTimesheetTotal(rows) === 0) {
+      setError('Add some hours before submitting');
+      return;
+    }
+    if (!confirm('Submit this timesheet for approval? You will not be able to edit it while it is under review.')) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      await saveTimesheet(currentUser.uid, userData.displayName, weekStart, rows);
+
+      const reviewersSnapshot = await getDocs(
+        query(collection(db, 'users'), where('role', 'in', ['admin', 'superadmin']))
+      );
+      const reviewerIds = reviewersSnapshot.docs.map(d => d.id).filter(id => id !== currentUser.uid);
+
+      await submitTimesheet(getTimesheetId(currentUser.uid, weekStart), reviewerIds, userData.displayName, weekStart);
+      await fetchSheet();
+      showSuccess('Timesheet submitted for approval');
+    } catch (error) {
+      console.error('Error submitting timesheet:', error);
+      setError(error instanceof Error ? error.message : 'Failed to submit timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (pending: Timesheet, decision: 'approved' | 'rejected') => {
+    if (!currentUser || !userData) return;
+    const comment = (reviewComments[pending.id] || '').trim();
+    if (decision === 'rejected' && !comment) {
+      setError('Please add a comment explaining the rejection');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      await reviewTimesheet(pending, decision, currentUser.uid, userData.displayName, comment);
+      setReviewComments({ ...reviewComments, [pending.id]: '' });
+      showSuccess(`Timesheet ${decision}`);
+    } catch (error) {
+      console.error('Error reviewing timesheet:', error);
+      setError('Failed to review timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const status = sheet?.status || 'draft';
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Timesheets</h1>
+          <p className="text-gray-600 mt-1">Record weekly hours and submit them for approval</p>
+        </div>
+        {canReview && (
+          <div className="flex items-center bg-gray-100 rounded-lg p-1">
+            <button
+              onClick={() => setActiveTab('mine')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                activeTab === 'mine' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <CalendarDays className="h-4 w-4" />
+              My Timesheet
+            </button>
+            <button
+              onClick={() => setActiveTab('approvals')}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                activeTab === 'approvals' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              Approvals
+              {pendingSheets.length > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 bg-primary-600 text-white rounded-full text-xs">
+                  {pendingSheets.length}
+                </span>
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-600">{success}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {activeTab === 'mine' ? (
+        <div className="card">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setWeekStart(addWeeks(weekStart, -1))}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                title="Previous week"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <div className="text-center min-w-[180px]">
+                <p className="font-semibold text-gray-900">
+                  {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+                </p>
+                <button
+                  onClick={() => setWeekStart(getWeekStart(new Date()))}
+                  className="text-xs text-primary-600 hover:text-primary-700"
+                >
+                  This week
+                </button>
+              </div>
+              <button
+                onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                title="Next week"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+              <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full capitalize ${TIMESHEET_STATUS_STYLES[status]}`}>
+                {sheet ? status : 'not saved'}
+              </span>
+              {locked && <Lock className="h-4 w-4 text-gray-400" />}
+            </div>
+
+            {!locked && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleFillFromTracked}
+                  disabled={loading}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  Fill from tracked time
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={loading}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  Save Draft
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={loading}
+                  className="btn-primary flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Send className="h-4 w-4" />
+                  Submit
+                </button>
+              </div>
+            )}
+          </div>
+
+          {sheet?.status === 'rejected' && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <p className="font-medium">Rejected by {sheet.reviewedByName}</p>
+              {sheet.reviewComment && <p className="mt-1">{sheet.reviewComment}</p>}
+            </div>
+          )}
+          {sheet?.status === 'approved' && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              <p className="font-medium">
+                Approved by {sheet.reviewedByName}
+                {sheet.reviewedAt && ` on ${format(sheet.reviewedAt, 'MMM d, yyyy')}`}
+              </p>
+              {sheet.reviewComment && <p className="mt-1">{sheet.reviewComment}</p>}
+            </div>
+          )}
+
+          <TimesheetGrid weekStart={weekStart} rows={rows} editable={!locked} onChange={setRows} />
+
+          {!locked && (
+            <div className="flex gap-2 mt-4">
+              <select
+                value={newRowKey}
+                onChange={(e) => setNewRowKey(e.target.value)}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Add a task or client row...</option>
+                {rowOptions
+                  .filter(option => !rows.some(row => row.key === option.value))
+                  .map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+              </select>
+              <button
+                onClick={handleAddRow}
+                disabled={!newRowKey}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                Add Row
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {pendingSheets.length === 0 ? (
+            <div className="card text-center py-12">
+              <ClipboardCheck className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No timesheets waiting for approval</p>
+            </div>
+          ) : pendingSheets.map(pending => (
+            <div key={pending.id} className="card">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <p className="font-semibold text-gray-900">{pending.userName}</p>
+                  <p className="text-sm text-gray-500">
+                    Week of {format(pending.weekStart, 'MMM d, yyyy')}
+                    {pending.submittedAt && ` · submitted ${format(pending.submittedAt, 'MMM d, h:mm a')}`}
+                  </p>
+                </div>
+                <span className="text-lg font-bold text-primary-600">{getTimesheetTotal(pending.rows)}h</span>
+              </div>
+
+              <TimesheetGrid weekStart={pending.weekStart} rows={pending.rows} editable={false} />
+
+              <div className="flex flex-col sm:flex-row gap-2 mt-4">
+                <input
+                  type="text"
+                  value={reviewComments[pending.id] || ''}
+                  onChange={(e) => setReviewComments({ ...reviewComments, [pending.id]: e.target.value })}
+                  placeholder="Comment (required when rejecting)"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <button
+                  onClick={() => handleReview(pending, 'rejected')}
+                  disabled={loading}
+                  className="flex items-center justify-center gap-1 px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                >
+                  <XCircle className="h-4 w-4" />
+                  Reject
+                </button>
+                <button
+                  onClick={() => handleReview(pending, 'approved')}
+                  disabled={loading}
+                  className="flex items-center justify-center gap-1 px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  <CheckCircle2 className="h-4 w-4" />
+                  Approve
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
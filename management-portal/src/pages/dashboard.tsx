@@ -13,13 +13,14 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { getAssignedTaskDocs } from '../utils/tasks';
 import { format } from 'date-fns';
 
 interface Task {
   id: string;
   title: string;
   description: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'in-review' | 'completed';
   priority: 'low' | 'medium' | 'high';
   assignedTo: string;
   assignedToName?: string;
@@ -84,17 +85,10 @@ export const Dashboard = () => {
 
   const fetchStats = async () => {
     try {
-      const tasksRef = collection(db, 'tasks');
-      let tasksQuery;
-
-      if (userRole === 'superadmin') {
-        tasksQuery = query(tasksRef);
-      } else {
-        tasksQuery = query(tasksRef, where('assignedTo', '==', currentUser?.uid));
-      }
-
-      const tasksSnapshot = await getDocs(tasksQuery);
-      const allTasks = tasksSnapshot.docs.map(doc => doc.data());
+      const taskDocs = userRole === 'superadmin'
+        ? (await getDocs(collection(db, 'tasks'))).docs
+        : await getAssignedTaskDocs(currentUser?.uid || '');
+      const allTasks = taskDocs.map(doc => doc.data()).filter(task => !task.deletedAt);
       
       const completedTasks = allTasks.filter(task => task.status === 'completed').length;
       const pendingTasks = allTasks.filter(task => task.status === 'pending').length;
@@ -143,29 +137,21 @@ export const Dashboard = () => {
 
   const fetchTasks = async () => {
     try {
-      const tasksRef = collection(db, 'tasks');
-      let q;
-
-      if (userRole === 'superadmin') {
-        q = query(tasksRef, orderBy('createdAt', 'desc'), limit(5));
-      } else {
-        q = query(
-          tasksRef,
-          where('assignedTo', '==', currentUser?.uid),
-          orderBy('createdAt', 'desc'),
-          limit(5)
-        );
-      }
-
-      const snapshot = await getDocs(q);
-      const tasksData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-        dueDate: doc.data().dueDate?.toDate() || new Date(),
-      })) as Task[];
-
-      setRecentTasks(tasksData);
+      const taskDocs = userRole === 'superadmin'
+        ? (await getDocs(query(collection(db, 'tasks'), orderBy('createdAt', 'desc'), limit(5)))).docs
+        : await getAssignedTaskDocs(currentUser?.uid || '');
+
+      const tasksData = taskDocs
+        .filter(doc => !doc.data().deletedAt && !doc.data().archivedAt)
+        .map(doc => ({
+          id: doc.id,
+          ...doc.data(),
+          createdAt: doc.data().createdAt?.toDate() || new Date(),
+          dueDate: doc.data().dueDate?.toDate() || new Date(),
+        })) as Task[];
+
+      tasksData.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      setRecentTasks(tasksData.slice(0, 5));
     } catch (error) {
       console.error('Error fetching tasks:', error);
     }
@@ -209,6 +195,7 @@ export const Dashboard = () => {
     switch (status) {
       case 'completed': return 'bg-green-100 text-green-700';
       case 'in-progress': return 'bg-blue-100 text-blue-700';
+      case 'in-review': return 'bg-amber-100 text-amber-700';
       case 'pending': return 'bg-gray-100 text-gray-700';
       default: return 'bg-gray-100 text-gray-700';
     }
@@ -8,23 +8,370 @@ export interface User {
   role: UserRole;
   photoURL?: string;
   department?: string;
+  skills?: string[];
+  weeklyCapacity?: number; // workload points per week; see utils/workload.ts
   createdAt: Date;
 }
 
+export type TaskStatus = 'pending' | 'in-progress' | 'in-review' | 'completed';
+export type TaskPriority = 'low' | 'medium' | 'high';
+export type RecurringPattern = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurringPattern;
+  interval: number;
+  anchorDate: string; // yyyy-MM-dd of the first occurrence; intervals count from here
+  byWeekday?: number[]; // 0 = Sunday
+  monthlyBy?: 'monthday' | 'weekday' | 'lastBusinessDay';
+  setPos?: number; // 1-4, or -1 for the last weekday of the month
+  skipHolidays?: boolean;
+}
+
+// How a shared task's points are divided once every assignee is done.
+export type PointsSplitRule = 'equal' | 'lead' | 'full';
+
+export interface AssigneeCompletion {
+  completedAt: Date;
+  completedBy: string; // differs from the assignee when an admin closes the task for them
+}
+
+export interface StatusUpdate {
+  status: TaskStatus;
+  timestamp: Date;
+  updatedBy: string;
+  updatedByName: string;
+}
+
+// One entry per reassignment, oldest first.
+export interface AssignmentHandoff {
+  fromId: string;
+  fromName: string;
+  toId: string;
+  toName: string;
+  note: string;
+  handedOverBy: string;
+  handedOverByName: string;
+  timestamp: Date;
+}
+
+export interface Subtask {
+  id: string;
+  title: string;
+  assignedTo: string;
+  assignedToName: string;
+  dueDate: Date | null;
+  done: boolean;
+  completedAt?: Date | null;
+  completedBy?: string | null;
+}
+
+export type LabelColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+export interface TaskLabel {
+  name: string;
+  color: LabelColor;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'dropdown' | 'user';
+
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // dropdown choices
+}
+
+// Dates are stored as yyyy-MM-dd and user fields as the user's uid.
+export type CustomFieldValue = string | number;
+
+// Hours are counted from when the task was assigned. When several rules match
+// a task the most specific one (client and priority) wins.
+export interface SlaRule {
+  id: string;
+  priority: TaskPriority | 'all';
+  clientId: string | null; // null applies to every client
+  clientName?: string | null;
+  startWithinHours: number | null; // must leave pending by then
+  resolveWithinHours: number | null; // must be completed or submitted for review by then
+}
+
+export type SlaBreachType = 'start' | 'resolve';
+
+export interface SlaBreach {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  type: SlaBreachType;
+  ruleId: string;
+  occurrence: number; // completionCount at the time, so recurring tasks breach per occurrence
+  assignedTo: string[];
+  createdBy: string;
+  clientId: string | null;
+  clientName: string | null;
+  priority: TaskPriority;
+  deadline: Date;
+  detectedAt: Date;
+  escalationLevel: number; // 1 = creator notified, 2 = admins notified
+  escalatedAt: Date | null;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
 export interface Task {
   id: string;
   title: string;
   description: string;
-  assignedTo: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignedTo: string | string[]; // an array marks a shared task
   assignedToName?: string;
-  assignedBy: string;
-  assignedByName?: string;
-  status: 'pending' | 'in-progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
+  assigneeNames?: Record<string, string>;
+  leadId?: string | null;
+  pointsSplit?: PointsSplitRule;
+  assigneeCompletions?: Record<string, AssigneeCompletion>;
+  watchers?: string[];
+  createdBy: string;
+  createdByName?: string;
+  createdAt: Date;
+  assignedAt: Date;
   dueDate: Date;
+  completedAt?: Date;
+  completionTimeHours?: number;
+  points?: number;
+  isEarlyComplete?: boolean;
+  statusHistory?: StatusUpdate[];
+  assignmentHistory?: AssignmentHandoff[];
+  commentsCount?: number;
+  clientId?: string;
+  clientName?: string;
+  isRecurring?: boolean;
+  recurringPattern?: RecurringPattern;
+  recurrence?: RecurrenceRule | null;
+  recurringEndDate?: Date;
+  lastCompletedDate?: Date;
+  completionCount?: number;
+  createdFrom?: string;
+  meetingId?: string;
+  meetingTitle?: string;
+  templateId?: string;
+  playbookId?: string;
+  playbookName?: string;
+  subtasks?: Subtask[];
+  checklist?: ChecklistItem[];
+  blockedBy?: string[];
+  blocks?: string[];
+  loggedMinutes?: number;
+  labels?: string[];
+  customFields?: Record<string, CustomFieldValue>; // keyed by CustomFieldDefinition.id
+  requiresReview?: boolean; // completing sends the task to in-review first
+  reviewerId?: string | null; // besides the creator, who can approve
+  reviewerName?: string | null;
+  submittedAt?: Date | null; // points are scored from here, not from the approval
+  submittedBy?: string | null;
+  submittedByName?: string | null;
+  slaBreaches?: SlaBreachType[]; // for the current occurrence, set by the checkSla function
+  archivedAt?: Date | null; // hidden from the default task list, still searchable
+  archivedBy?: string | null;
+  deletedAt?: Date | null; // in the trash, purged after TRASH_RETENTION_DAYS
+  deletedBy?: string | null;
+  deletedByName?: string | null;
+}
+
+// Everything the Tasks page filter bar can be set to. Saved views and the
+// page's query string both carry this shape.
+export interface TaskFilters {
+  search: string;
+  status: string; // 'all', a TaskStatus or 'overdue'
+  priority: string;
+  client: string; // 'all', '' for tasks without a client, or a client id
+  assignee: string; // 'all', 'me' (whoever opens the view) or a uid
+  duration: string; // 'all' | 'week' | 'month' | 'custom'
+  startDate: string;
+  endDate: string;
+  label: string;
+  fieldId: string;
+  fieldValue: string;
+  scope: string; // 'active' | 'archived' | 'trash'
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: TaskFilters;
+  ownerId: string;
+  ownerName: string;
+  shared: boolean;
   createdAt: Date;
 }
 
+// A task placed on someone's My Day agenda. Meetings are not stored here;
+// they are shown at their own time.
+export interface PlanBlock {
+  id: string;
+  taskId: string;
+  title: string;
+  start: string; // 'HH:mm'
+  durationMinutes: number;
+  carriedFrom?: string | null; // yyyy-MM-dd of the day it was moved from
+}
+
+export interface DayPlan {
+  userId: string;
+  date: string; // yyyy-MM-dd
+  blocks: PlanBlock[];
+  carriedOver: boolean; // unfinished blocks were already moved to the next day
+}
+
+export interface TaskTemplate {
+  id: string;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  dueOffsetDays: number; // days after the date the playbook is applied
+  defaultAssigneeRole?: UserRole | null;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+export interface Playbook {
+  id: string;
+  name: string;
+  description: string;
+  templateIds: string[];
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+export type DependencyInfo = Pick<
+  Task,
+  'id' | 'title' | 'status' | 'assignedTo' | 'assignedToName' | 'completionCount' | 'blockedBy' | 'deletedAt'
+>;
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  message: string; // may contain @[Name](uid) mention tokens, see utils/mentions
+  mentions?: string[];
+  sentBy: string;
+  sentByName: string;
+  sentByRole: string;
+  timestamp: Date;
+  editedAt?: Date;
+  editHistory?: CommentEdit[];
+  reactions?: Record<string, string[]>; // emoji -> uids who reacted
+  attachments?: CommentAttachment[];
+}
+
+export interface CommentEdit {
+  message: string;
+  editedAt: Date;
+}
+
+export interface CommentAttachment {
+  name: string;
+  url: string;
+  path: string; // Storage path, used for cleanup
+  contentType: string;
+  size: number;
+}
+
+export interface TaskCompletion {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  taskDescription: string;
+  assignedTo: string;
+  assignedToName: string;
+  clientId?: string;
+  clientName?: string;
+  createdBy: string;
+  createdByName: string;
+  priority: TaskPriority;
+  assignedAt: Date;
+  dueDate: Date;
+  completedAt: Date;
+  completionTimeHours: number;
+  points: number;
+  isEarlyComplete: boolean;
+  isRecurringCompletion: boolean;
+  recurringPattern?: RecurringPattern;
+  occurrenceNumber: number;
+  completionRatio?: number;
+  loggedMinutes?: number;
+  policyVersion?: number;
+  sharedWith?: number; // assignee count on shared tasks; points is this person's share
+  totalPoints?: number;
+  pointsSplit?: PointsSplitRule;
+}
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  userId: string;
+  userName: string;
+  clientId?: string | null;
+  clientName?: string | null;
+  startedAt: Date;
+  endedAt: Date | null;
+  durationMinutes: number;
+  source: 'timer' | 'manual';
+  note?: string;
+}
+
+export interface PointsTier {
+  minHoursBeforeDue: number; // negative values cover late completions
+  points: number;
+  isEarly: boolean;
+}
+
+export interface PointsPolicy {
+  version: number;
+  tiers: PointsTier[];
+  fallbackPoints: number;
+  priorityMultipliers: Record<TaskPriority, number>;
+  recurringMultiplier: number;
+  recurringFirstOccurrenceFull: boolean;
+  notes?: string;
+  createdAt: Date;
+  createdBy: string;
+  createdByName: string;
+}
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface TimesheetRow {
+  key: string;
+  taskId?: string | null;
+  taskTitle: string;
+  clientId?: string | null;
+  clientName?: string | null;
+  hours: number[]; // Monday..Sunday
+}
+
+export interface Timesheet {
+  id: string;
+  userId: string;
+  userName: string;
+  weekStart: Date;
+  rows: TimesheetRow[];
+  clientIds: string[];
+  totalHours: number;
+  status: TimesheetStatus;
+  submittedAt?: Date | null;
+  reviewedBy?: string | null;
+  reviewedByName?: string | null;
+  reviewedAt?: Date | null;
+  reviewComment?: string;
+  updatedAt: Date;
+}
+
 export interface Meeting {
   id: string;
   title: string;
@@ -46,6 +393,7 @@ export interface Notification {
   type: 'task' | 'meeting' | 'user' | 'general';
   read: boolean;
   createdAt: Date;
+  link?: string; // in-app route opened when the notification is clicked
 }
 
 export interface Stats {
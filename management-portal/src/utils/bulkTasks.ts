@@ -0,0 +1,220 @@
+import {
+  arrayUnion,
+  doc,
+  Timestamp,
+  writeBatch,
+  type WriteBatch
+} from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { addDays, format } from 'date-fns';
+import { db } from '../config/firebase';
+import { getOpenBlockers } from './dependencies';
+import {
+  completeTask,
+  getReassignmentFields,
+  isSharedTask,
+  isTaskArchived,
+  isTaskInTrash,
+  notifyReassignment,
+  notifyTaskAudience
+} from './tasks';
+import type { DependencyInfo, StatusUpdate, Task, TaskPriority, TaskStatus } from '../types';
+
+export type BulkAction =
+  | { type: 'status'; status: TaskStatus }
+  | { type: 'reassign'; assignee: { uid: string; displayName?: string }; note: string }
+  | { type: 'reschedule'; days: number }
+  | { type: 'priority'; priority: TaskPriority }
+  | { type: 'label'; label: string }
+  | { type: 'archive' }
+  | { type: 'trash' }
+  | { type: 'restore' };
+
+export interface BulkFailure {
+  taskId: string;
+  title: string;
+  reason: string;
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: BulkFailure[];
+}
+
+interface BulkContext {
+  actor: { uid: string; displayName?: string };
+  dependencyLookup: Record<string, DependencyInfo>;
+}
+
+// Firestore rejects batches with more than 500 writes.
+const MAX_BATCH_WRITES = 500;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof FirebaseError || error instanceof Error ? error.message : 'Unknown error';
+
+// A reason the action cannot apply to this task, checked before anything is written.
+const getSkipReason = (task: Task, action: BulkAction, context: BulkContext) => {
+  switch (action.type) {
+    case 'status':
+      if (action.status !== 'pending' && getOpenBlockers(task, context.dependencyLookup).length > 0) {
+        return 'Blocked by an open dependency';
+      }
+      if (task.status === 'completed' && !task.isRecurring && action.status !== 'completed') {
+        return 'Already completed';
+      }
+      if (task.status === 'in-review' && action.status !== 'completed') {
+        return 'Waiting for review';
+      }
+      return null;
+    case 'reassign':
+      if (!action.note.trim()) return 'A handoff note is required';
+      return isSharedTask(task) ? 'Shared tasks must be reassigned one at a time' : null;
+    default:
+      return null;
+  }
+};
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+// The writes one task needs, collected first so a task never straddles two batches.
+const getTaskWrites = (task: Task, action: BulkAction, context: BulkContext): BatchWrite[] => {
+  const taskRef = doc(db, 'tasks', task.id);
+
+  switch (action.type) {
+    case 'status': {
+      const statusUpdate: StatusUpdate = {
+        status: action.status,
+        timestamp: new Date(),
+        updatedBy: context.actor.uid,
+        updatedByName: context.actor.displayName || ''
+      };
+      return [batch => batch.update(taskRef, {
+        status: action.status,
+        statusHistory: [...(task.statusHistory || []), statusUpdate],
+      })];
+    }
+    case 'reassign':
+      return [batch => batch.update(taskRef, getReassignmentFields(task, action.assignee, action.note.trim(), context.actor))];
+    case 'reschedule':
+      return [batch => batch.update(taskRef, { dueDate: Timestamp.fromDate(addDays(task.dueDate, action.days)) })];
+    case 'priority':
+      return [batch => batch.update(taskRef, { priority: action.priority })];
+    case 'label':
+      return [batch => batch.update(taskRef, { labels: arrayUnion(action.label) })];
+    case 'archive':
+      return [batch => batch.update(taskRef, { archivedAt: Timestamp.now(), archivedBy: context.actor.uid })];
+    case 'trash':
+      return [batch => batch.update(taskRef, {
+        deletedAt: Timestamp.now(),
+        deletedBy: context.actor.uid,
+        deletedByName: context.actor.displayName || '',
+      })];
+    case 'restore':
+      return [batch => batch.update(taskRef, { deletedAt: null, deletedBy: null, deletedByName: null })];
+  }
+};
+
+// Same notifications the single-task handlers in Tasks.tsx send.
+const afterCommit = async (task: Task, action: BulkAction, context: BulkContext) => {
+  switch (action.type) {
+    case 'status':
+      await notifyTaskAudience(task, context.actor.uid, 'Task Status Updated', `${task.title} is now ${action.status}`);
+      return;
+    case 'reassign':
+      await notifyReassignment(task, action.assignee, action.note.trim(), context.actor);
+      return;
+    case 'reschedule':
+      await notifyTaskAudience(
+        task,
+        context.actor.uid,
+        'Task Rescheduled',
+        `${task.title} is now due on ${format(addDays(task.dueDate, action.days), 'MMM d, yyyy')}`
+      );
+      return;
+    default:
+      return;
+  }
+};
+
+const isNoOp = (task: Task, action: BulkAction) => {
+  switch (action.type) {
+    case 'status': return task.status === action.status && action.status !== 'completed';
+    case 'reassign': return task.assignedTo === action.assignee.uid;
+    case 'reschedule': return action.days === 0;
+    case 'priority': return task.priority === action.priority;
+    case 'label': return (task.labels || []).includes(action.label);
+    case 'archive': return isTaskArchived(task);
+    case 'trash': return isTaskInTrash(task);
+    case 'restore': return !isTaskInTrash(task);
+    default: return false;
+  }
+};
+
+// Applies one action to many tasks. Plain field updates go out in batched
+// writes; a batch that fails marks all of its tasks as failed. Completion and
+// review submission still go through the completeTask function one task at a
+// time, since points and recurrence are settled server-side.
+export const runBulkTaskAction = async (
+  tasks: Task[],
+  action: BulkAction,
+  context: BulkContext
+): Promise<BulkResult> => {
+  const result: BulkResult = { succeeded: [], failed: [] };
+  const fail = (task: Task, reason: string) => result.failed.push({ taskId: task.id, title: task.title, reason });
+
+  const pending: Task[] = [];
+  for (const task of tasks) {
+    const reason = getSkipReason(task, action, context);
+    if (reason) fail(task, reason);
+    else if (isNoOp(task, action)) result.succeeded.push(task.id);
+    else pending.push(task);
+  }
+
+  if (action.type === 'status' && (action.status === 'completed' || action.status === 'in-review')) {
+    for (const task of pending) {
+      try {
+        await completeTask(task, { submitForReview: action.status === 'in-review' });
+        result.succeeded.push(task.id);
+      } catch (error) {
+        fail(task, getErrorMessage(error));
+      }
+    }
+    return result;
+  }
+
+  let batch = writeBatch(db);
+  let batchTasks: Task[] = [];
+  let writes = 0;
+
+  const commit = async () => {
+    if (batchTasks.length === 0) return;
+    const committed = batchTasks;
+    try {
+      await batch.commit();
+      result.succeeded.push(...committed.map(t => t.id));
+      await Promise.all(committed.map(task => afterCommit(task, action, context).catch(error => {
+        console.error('Error finishing bulk action:', error);
+      })));
+    } catch (error) {
+      committed.forEach(task => fail(task, getErrorMessage(error)));
+    }
+    batch = writeBatch(db);
+    batchTasks = [];
+    writes = 0;
+  };
+
+  for (const task of pending) {
+    try {
+      const taskWrites = getTaskWrites(task, action, context);
+      if (writes + taskWrites.length > MAX_BATCH_WRITES) await commit();
+      taskWrites.forEach(write => write(batch));
+      batchTasks.push(task);
+      writes += taskWrites.length;
+    } catch (error) {
+      fail(task, getErrorMessage(error));
+    }
+  }
+  await commit();
+
+  return result;
+};
@@ -0,0 +1,83 @@
+import { arrayRemove, arrayUnion, doc, Timestamp, updateDoc, type DocumentData } from 'firebase/firestore';
+import { deleteObject, getDownloadURL, listAll, ref, uploadBytes } from 'firebase/storage';
+import { db, storage } from '../config/firebase';
+import { extractMentionIds } from './mentions';
+import type { CommentAttachment, TaskComment } from '../types';
+
+export const COMMENT_REACTIONS = ['👍', '🎉', '❤️', '😄', '👀', '✅'];
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // keep in sync with storage.rules
+
+const getAttachmentFolder = (taskId: string) => `taskAttachments/${taskId}`;
+
+export const isImageAttachment = (attachment: Pick<CommentAttachment, 'contentType'>) =>
+  attachment.contentType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const mapCommentDoc = (id: string, data: DocumentData): TaskComment => ({
+  id,
+  ...data,
+  timestamp: data.timestamp?.toDate() || new Date(),
+  editedAt: data.editedAt?.toDate(),
+  editHistory: (data.editHistory || []).map((entry: DocumentData) => ({
+    message: entry.message,
+    editedAt: entry.editedAt?.toDate() || new Date(),
+  })),
+} as TaskComment);
+
+// storage.rules only lets the uploader or an admin delete the file, so the
+// uploader is recorded in its metadata.
+export const uploadCommentAttachment = async (taskId: string, file: File, uploaderId: string): Promise<CommentAttachment> => {
+  // The timestamp prefix keeps two uploads of "screenshot.png" apart.
+  const path = `${getAttachmentFolder(taskId)}/${Date.now()}-${file.name}`;
+  const fileRef = ref(storage, path);
+  await uploadBytes(fileRef, file, {
+    contentType: file.type || 'application/octet-stream',
+    customMetadata: { uploadedBy: uploaderId },
+  });
+
+  return {
+    name: file.name,
+    url: await getDownloadURL(fileRef),
+    path,
+    contentType: file.type || 'application/octet-stream',
+    size: file.size,
+  };
+};
+
+// Keeps the replaced text so anyone can see what the comment said before.
+// Returns the users who are mentioned for the first time by this edit.
+export const editComment = async (comment: TaskComment, message: string) => {
+  const mentions = extractMentionIds(message).filter(uid => uid !== comment.sentBy);
+  const previous = comment.mentions || [];
+
+  await updateDoc(doc(db, 'taskComments', comment.id), {
+    message,
+    mentions,
+    editedAt: Timestamp.now(),
+    editHistory: arrayUnion({ message: comment.message, editedAt: Timestamp.now() }),
+  });
+
+  return mentions.filter(uid => !previous.includes(uid));
+};
+
+export const hasReacted = (comment: TaskComment, emoji: string, uid: string) =>
+  (comment.reactions?.[emoji] || []).includes(uid);
+
+export const toggleReaction = async (comment: TaskComment, emoji: string, uid: string) => {
+  await updateDoc(doc(db, 'taskComments', comment.id), {
+    [`reactions.${emoji}`]: hasReacted(comment, emoji, uid) ? arrayRemove(uid) : arrayUnion(uid),
+  });
+};
+
+// Removes every file uploaded to a task's discussion. Missing folders are
+// fine, so this is safe to call for tasks that never had attachments.
+export const deleteTaskAttachments = async (taskId: string) => {
+  const { items } = await listAll(ref(storage, getAttachmentFolder(taskId)));
+  await Promise.all(items.map(item => deleteObject(item)));
+};
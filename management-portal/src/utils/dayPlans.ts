@@ -0,0 +1,83 @@
+import { collection, doc, getDoc, getDocs, query, setDoc, Timestamp, where } from 'firebase/firestore';
+import { addDays, addMinutes, endOfDay, format, parse, startOfDay } from 'date-fns';
+import { db } from '../config/firebase';
+import { createItemId } from './subtasks';
+import type { DayPlan, PlanBlock, TaskCompletion } from '../types';
+
+// The agenda runs from DAY_START_HOUR to DAY_END_HOUR in SLOT_MINUTES steps.
+export const DAY_START_HOUR = 8;
+export const DAY_END_HOUR = 19;
+export const SLOT_MINUTES = 30;
+
+export const BLOCK_DURATIONS = [30, 60, 90, 120, 180];
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const getAgendaSlots = () =>
+  Array.from({ length: ((DAY_END_HOUR - DAY_START_HOUR) * 60) / SLOT_MINUTES }, (_, i) =>
+    format(addMinutes(new Date(2000, 0, 1, DAY_START_HOUR), i * SLOT_MINUTES), 'HH:mm'));
+
+export const getBlockEnd = (block: Pick<PlanBlock, 'start' | 'durationMinutes'>) =>
+  format(addMinutes(parse(block.start, 'HH:mm', new Date()), block.durationMinutes), 'HH:mm');
+
+// One document per person per day.
+const getDayPlanRef = (userId: string, dateKey: string) => doc(db, 'dayPlans', `${userId}_${dateKey}`);
+
+export const getDayPlan = async (userId: string, dateKey: string): Promise<DayPlan> => {
+  const planDoc = await getDoc(getDayPlanRef(userId, dateKey));
+  const data = planDoc.exists() ? planDoc.data() : {};
+  return {
+    userId,
+    date: dateKey,
+    blocks: (data.blocks || []) as PlanBlock[],
+    carriedOver: data.carriedOver || false,
+  };
+};
+
+export const saveDayPlan = async (plan: DayPlan) => {
+  await setDoc(getDayPlanRef(plan.userId, plan.date), { ...plan, updatedAt: Timestamp.now() });
+};
+
+export const createPlanBlock = (task: { id: string; title: string }, start: string): PlanBlock => ({
+  id: createItemId(),
+  taskId: task.id,
+  title: task.title,
+  start,
+  durationMinutes: 60,
+  carriedFrom: null,
+});
+
+// Copies unfinished blocks onto the next day at the same times. Tasks already
+// planned for that day are left where they are.
+export const carryOverToNextDay = async (plan: DayPlan, isFinished: (block: PlanBlock) => boolean) => {
+  const nextKey = toDateKey(addDays(parse(plan.date, 'yyyy-MM-dd', new Date()), 1));
+  const next = await getDayPlan(plan.userId, nextKey);
+  const planned = new Set(next.blocks.map(b => b.taskId));
+
+  const carried = plan.blocks
+    .filter(block => !isFinished(block) && !planned.has(block.taskId))
+    .map(block => ({ ...block, id: createItemId(), carriedFrom: plan.date }));
+
+  await saveDayPlan({ ...next, blocks: [...next.blocks, ...carried] });
+  await saveDayPlan({ ...plan, carriedOver: true });
+  return carried.length;
+};
+
+// Completions credited to the user on that day, for the end-of-day summary.
+export const getDayCompletions = async (userId: string, dateKey: string) => {
+  const day = parse(dateKey, 'yyyy-MM-dd', new Date());
+  const snapshot = await getDocs(query(
+    collection(db, 'taskCompletions'),
+    where('assignedTo', '==', userId),
+    where('completedAt', '>=', Timestamp.fromDate(startOfDay(day))),
+    where('completedAt', '<=', Timestamp.fromDate(endOfDay(day)))
+  ));
+
+  return snapshot.docs.map(d => ({
+    id: d.id,
+    ...d.data(),
+    assignedAt: d.data().assignedAt?.toDate() || new Date(),
+    dueDate: d.data().dueDate?.toDate() || new Date(),
+    completedAt: d.data().completedAt?.toDate() || new Date(),
+  })) as TaskCompletion[];
+};
@@ -0,0 +1,63 @@
+import { arrayRemove, arrayUnion, doc, updateDoc, writeBatch } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { DependencyInfo, Task } from '../types';
+
+// Recurring tasks never stay completed, so one finished occurrence is
+// enough to unblock whatever depends on them. A blocker in the trash keeps
+// its links for a restore but no longer holds anything up.
+export const isBlockerResolved = (blocker: Pick<Task, 'status' | 'completionCount' | 'deletedAt'>) =>
+  blocker.status === 'completed' || (blocker.completionCount || 0) > 0 || !!blocker.deletedAt;
+
+export const getOpenBlockers = (task: Task, lookup: Record<string, DependencyInfo>) =>
+  (task.blockedBy || [])
+    .map(id => lookup[id])
+    .filter((blocker): blocker is DependencyInfo => !!blocker && !isBlockerResolved(blocker));
+
+export const isTaskBlocked = (task: Task, lookup: Record<string, DependencyInfo>) =>
+  getOpenBlockers(task, lookup).length > 0;
+
+// True when `blockerId` already depends on `taskId`, directly or transitively.
+export const wouldCreateCycle = (
+  taskId: string,
+  blockerId: string,
+  lookup: Record<string, DependencyInfo>
+) => {
+  const visited = new Set<string>();
+  const stack = [blockerId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(lookup[current]?.blockedBy || []));
+  }
+
+  return false;
+};
+
+export const addDependency = async (taskId: string, blockerId: string) => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'tasks', taskId), { blockedBy: arrayUnion(blockerId) });
+  batch.update(doc(db, 'tasks', blockerId), { blocks: arrayUnion(taskId) });
+  await batch.commit();
+};
+
+export const removeDependency = async (taskId: string, blockerId: string) => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'tasks', taskId), { blockedBy: arrayRemove(blockerId) });
+  batch.update(doc(db, 'tasks', blockerId), { blocks: arrayRemove(taskId) });
+  await batch.commit();
+};
+
+// Drops every link pointing at a task that is about to be deleted.
+export const detachDependencies = async (task: Pick<Task, 'id' | 'blockedBy' | 'blocks'>) => {
+  await Promise.all([
+    ...(task.blockedBy || []).map(blockerId =>
+      updateDoc(doc(db, 'tasks', blockerId), { blocks: arrayRemove(task.id) }).catch(() => undefined)
+    ),
+    ...(task.blocks || []).map(dependentId =>
+      updateDoc(doc(db, 'tasks', dependentId), { blockedBy: arrayRemove(task.id) }).catch(() => undefined)
+    ),
+  ]);
+};
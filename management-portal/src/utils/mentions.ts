@@ -0,0 +1,52 @@
+import type { User } from '../types';
+
+// Mentions are stored inline as @[Display Name](uid) so the text stays
+// readable while the target stays unambiguous if someone is renamed.
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([^)]+)\)/g;
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; userId: string };
+
+type MentionUser = Pick<User, 'uid' | 'displayName'>;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Turns "@Display Name" typed by the user into stored mention tokens. Longer
+// names go first so "@Ann Lee" is not also read as a mention of "Ann".
+export const encodeMentions = (text: string, users: MentionUser[]) =>
+  [...users]
+    .filter(u => u.displayName)
+    .sort((a, b) => b.displayName.length - a.displayName.length)
+    .reduce((encoded, user) => encoded.replace(
+      new RegExp(`@${escapeRegExp(user.displayName)}(?![\\w])`, 'gi'),
+      `@[${user.displayName}](${user.uid})`
+    ), text);
+
+export const parseMentions = (text: string): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    segments.push({ type: 'mention', name: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ type: 'text', text: text.slice(lastIndex) });
+
+  return segments;
+};
+
+export const extractMentionIds = (text: string) =>
+  [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[2]))];
+
+// For notifications and other places that cannot render chips.
+export const mentionsToPlainText = (text: string) => text.replace(MENTION_PATTERN, '@$1');
+
+// The "@query" being typed right before the caret, if any.
+export const getMentionQuery = (textBeforeCaret: string) => {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(textBeforeCaret);
+  if (!match) return null;
+  return { query: match[1], start: textBeforeCaret.length - match[1].length - 1 };
+};
@@ -5,7 +5,8 @@ export const createNotification = async (
   userId: string,
   title: string,
   message: string,
-  type: 'task' | 'meeting' | 'user' | 'general' = 'general'
+  type: 'task' | 'meeting' | 'user' | 'general' = 'general',
+  link?: string
 ) => {
   try {
     await addDoc(collection(db, 'notifications'), {
@@ -15,12 +16,16 @@ export const createNotification = async (
       type,
       read: false,
       createdAt: Timestamp.now(),
+      ...(link && { link }),
     });
   } catch (error) {
     console.error('Error creating notification:', error);
   }
 };
 
+// Opens a task's discussion when the notification is clicked.
+export const getTaskChatLink = (taskId: string) => `/tasks?taskId=${taskId}&view=chat`;
+
 export const notifyAllUsers = async (
   userIds: string[],
   title: string,
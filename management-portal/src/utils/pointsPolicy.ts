@@ -0,0 +1,159 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  Timestamp,
+  type DocumentData
+} from 'firebase/firestore';
+import { differenceInHours } from 'date-fns';
+import { db } from '../config/firebase';
+import type { PointsPolicy, PointsSplitRule, TaskPriority } from '../types';
+
+export type PointsPolicyDraft = Omit<PointsPolicy, 'version' | 'createdAt' | 'createdBy' | 'createdByName'>;
+
+// Version 0 mirrors the original hard-coded scoring so completions recorded
+// before any policy was saved stay comparable.
+export const DEFAULT_POINTS_POLICY: PointsPolicy = {
+  version: 0,
+  tiers: [
+    { minHoursBeforeDue: 24, points: 150, isEarly: true },
+    { minHoursBeforeDue: 12, points: 100, isEarly: true },
+    { minHoursBeforeDue: 0, points: 75, isEarly: true },
+    { minHoursBeforeDue: -1, points: 50, isEarly: false },
+  ],
+  fallbackPoints: 0,
+  priorityMultipliers: { low: 1, medium: 1, high: 1 },
+  recurringMultiplier: 1,
+  recurringFirstOccurrenceFull: true,
+  createdAt: new Date(0),
+  createdBy: '',
+  createdByName: 'System default',
+};
+
+export interface PointsInput {
+  dueDate: Date;
+  completedAt: Date;
+  priority: TaskPriority;
+  isRecurring?: boolean;
+  occurrenceNumber?: number;
+}
+
+export interface PointsResult {
+  points: number;
+  isEarly: boolean;
+  basePoints: number;
+  multiplier: number;
+  hoursBeforeDue: number;
+  policyVersion: number;
+}
+
+export const sortTiers = <T extends { minHoursBeforeDue: number }>(tiers: T[]) =>
+  [...tiers].sort((a, b) => b.minHoursBeforeDue - a.minHoursBeforeDue);
+
+export const mapPointsPolicyDoc = (data: DocumentData): PointsPolicy => ({
+  ...DEFAULT_POINTS_POLICY,
+  ...data,
+  tiers: sortTiers(data.tiers || DEFAULT_POINTS_POLICY.tiers),
+  priorityMultipliers: { ...DEFAULT_POINTS_POLICY.priorityMultipliers, ...data.priorityMultipliers },
+  createdAt: data.createdAt?.toDate() || new Date(),
+} as PointsPolicy);
+
+export const calculatePoints = (policy: PointsPolicy, input: PointsInput): PointsResult => {
+  const hoursBeforeDue = differenceInHours(input.dueDate, input.completedAt);
+  const tier = sortTiers(policy.tiers).find(t => hoursBeforeDue >= t.minHoursBeforeDue);
+  const basePoints = tier ? tier.points : policy.fallbackPoints;
+
+  let multiplier = policy.priorityMultipliers[input.priority] ?? 1;
+  const isRepeatOccurrence = (input.occurrenceNumber || 1) > 1 || !policy.recurringFirstOccurrenceFull;
+  if (input.isRecurring && isRepeatOccurrence) {
+    multiplier *= policy.recurringMultiplier;
+  }
+
+  return {
+    points: Math.round(basePoints * multiplier),
+    isEarly: tier ? tier.isEarly : false,
+    basePoints,
+    multiplier,
+    hoursBeforeDue,
+    policyVersion: policy.version,
+  };
+};
+
+export const POINTS_SPLIT_LABELS: Record<PointsSplitRule, string> = {
+  equal: 'Split equally',
+  lead: 'Lead gets a double share',
+  full: 'Everyone gets full points',
+};
+
+// Divides a shared task's points between its assignees.
+export const splitPoints = (
+  points: number,
+  assigneeIds: string[],
+  leadId: string | null | undefined,
+  rule: PointsSplitRule = 'equal'
+): Record<string, number> => {
+  const weight = (id: string) => (rule === 'lead' && id === leadId ? 2 : 1);
+  const totalWeight = assigneeIds.reduce((sum, id) => sum + weight(id), 0);
+
+  return Object.fromEntries(assigneeIds.map(id => [
+    id,
+    rule === 'full' ? points : Math.round((points * weight(id)) / totalWeight),
+  ]));
+};
+
+export const validatePointsPolicy = (draft: PointsPolicyDraft) => {
+  if (draft.tiers.length === 0) return 'Add at least one scoring tier';
+
+  const thresholds = draft.tiers.map(t => t.minHoursBeforeDue);
+  if (new Set(thresholds).size !== thresholds.length) return 'Each tier needs a different threshold';
+  if (draft.tiers.some(t => t.points < 0) || draft.fallbackPoints < 0) return 'Points cannot be negative';
+
+  const multipliers = [...Object.values(draft.priorityMultipliers), draft.recurringMultiplier];
+  if (multipliers.some(m => !(m >= 0))) return 'Multipliers must be zero or greater';
+
+  return null;
+};
+
+export const getActivePointsPolicy = async (): Promise<PointsPolicy> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'pointsPolicies'), orderBy('version', 'desc'), limit(1))
+    );
+    return snapshot.empty ? DEFAULT_POINTS_POLICY : mapPointsPolicyDoc(snapshot.docs[0].data());
+  } catch (error) {
+    console.error('Error fetching points policy:', error);
+    return DEFAULT_POINTS_POLICY;
+  }
+};
+
+export const getPointsPolicyHistory = async () => {
+  const snapshot = await getDocs(query(collection(db, 'pointsPolicies'), orderBy('version', 'desc')));
+  return snapshot.docs.map(d => mapPointsPolicyDoc(d.data()));
+};
+
+// Policies are never edited in place: every save publishes a new version so
+// past completions can always be traced back to the rules that scored them.
+export const publishPointsPolicy = async (draft: PointsPolicyDraft, userId: string, userName: string) => {
+  const counterRef = doc(db, 'appSettings', 'pointsPolicy');
+
+  return runTransaction(db, async (transaction) => {
+    const counterDoc = await transaction.get(counterRef);
+    const version = (counterDoc.exists() ? counterDoc.data().latestVersion || 0 : 0) + 1;
+
+    transaction.set(doc(db, 'pointsPolicies', `v${version}`), {
+      ...draft,
+      tiers: sortTiers(draft.tiers),
+      version,
+      createdAt: Timestamp.now(),
+      createdBy: userId,
+      createdByName: userName,
+    });
+    transaction.set(counterRef, { latestVersion: version });
+
+    return version;
+  });
+};
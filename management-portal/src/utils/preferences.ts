@@ -0,0 +1,34 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Reminders due in this window are held until it ends. Times are 'HH:mm'
+// in timeZone, so the scheduler can apply them wherever it runs.
+export interface QuietHours {
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
+export interface UserPreferences {
+  tasksView?: 'list' | 'board' | 'timeline';
+  pinnedViewIds?: string[]; // saved task views shown in the sidebar
+  quietHours?: QuietHours | null;
+}
+
+export const getUserPreferences = async (userId: string): Promise<UserPreferences> => {
+  try {
+    const prefsDoc = await getDoc(doc(db, 'userPreferences', userId));
+    return prefsDoc.exists() ? (prefsDoc.data() as UserPreferences) : {};
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return {};
+  }
+};
+
+export const saveUserPreferences = async (userId: string, prefs: Partial<UserPreferences>) => {
+  try {
+    await setDoc(doc(db, 'userPreferences', userId), prefs, { merge: true });
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+  }
+};
@@ -0,0 +1,215 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  isWeekend,
+  parseISO
+} from 'date-fns';
+import { db } from '../config/firebase';
+import type { RecurrenceRule, RecurringPattern } from '../types';
+
+// Keep in sync with functions/src/recurrence.ts, which rolls tasks over on completion.
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SET_POS_LABELS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+const BUSINESS_DAYS = [1, 2, 3, 4, 5];
+
+// Upper bound on how far ahead we search for the next match (about five years).
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Tasks created before recurrence rules only stored a pattern name.
+export const ruleFromPattern = (pattern: RecurringPattern, anchor: Date): RecurrenceRule => ({
+  freq: pattern,
+  interval: 1,
+  anchorDate: toDateKey(anchor),
+  byWeekday: pattern === 'weekly' ? [anchor.getDay()] : [],
+  monthlyBy: 'monthday',
+  setPos: 1,
+  skipHolidays: false,
+});
+
+export const getTaskRecurrence = (task: {
+  recurrence?: RecurrenceRule | null;
+  recurringPattern?: RecurringPattern;
+  dueDate: Date;
+}) => task.recurrence || (task.recurringPattern ? ruleFromPattern(task.recurringPattern, task.dueDate) : null);
+
+// Moves a rule to a new first occurrence. A weekly rule still on the old
+// anchor's weekday follows the new one; weekdays the user picked are kept.
+export const moveRuleAnchor = (rule: RecurrenceRule, anchorDate: string): RecurrenceRule => {
+  const previousDay = parseISO(rule.anchorDate).getDay();
+  const followsAnchor = rule.freq === 'weekly'
+    && rule.byWeekday?.length === 1
+    && rule.byWeekday[0] === previousDay;
+
+  return {
+    ...rule,
+    anchorDate,
+    ...(followsAnchor && { byWeekday: [parseISO(anchorDate).getDay()] }),
+  };
+};
+
+const isBusinessDay = (date: Date, holidays: Set<string>) =>
+  !isWeekend(date) && !holidays.has(toDateKey(date));
+
+const getLastBusinessDay = (date: Date, holidays: Set<string>) => {
+  let day = endOfMonth(date);
+  while (!isBusinessDay(day, holidays)) day = addDays(day, -1);
+  return day;
+};
+
+const matchesMonthly = (rule: RecurrenceRule, date: Date, anchor: Date, holidays: Set<string>) => {
+  switch (rule.monthlyBy) {
+    case 'lastBusinessDay':
+      return differenceInCalendarDays(date, getLastBusinessDay(date, holidays)) === 0;
+    case 'weekday': {
+      const weekday = rule.byWeekday?.[0] ?? anchor.getDay();
+      if (date.getDay() !== weekday) return false;
+      if (rule.setPos === -1) return date.getDate() + 7 > getDaysInMonth(date);
+      return Math.ceil(date.getDate() / 7) === rule.setPos;
+    }
+    default:
+      // Anchors on the 29th-31st fall back to the last day of shorter months.
+      return date.getDate() === Math.min(anchor.getDate(), getDaysInMonth(date));
+  }
+};
+
+export const matchesRule = (rule: RecurrenceRule, date: Date, holidays: Set<string> = new Set()) => {
+  const anchor = parseISO(rule.anchorDate);
+  const interval = Math.max(rule.interval || 1, 1);
+  const key = toDateKey(date);
+
+  if (rule.skipHolidays && holidays.has(key)) return false;
+
+  switch (rule.freq) {
+    case 'daily':
+      return differenceInCalendarDays(date, anchor) % interval === 0
+        && (!rule.byWeekday?.length || rule.byWeekday.includes(date.getDay()));
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [anchor.getDay()];
+      return differenceInCalendarWeeks(date, anchor, { weekStartsOn: 1 }) % interval === 0
+        && weekdays.includes(date.getDay());
+    }
+    case 'monthly':
+      return differenceInCalendarMonths(date, anchor) % interval === 0
+        && matchesMonthly(rule, date, anchor, holidays);
+    default:
+      return false;
+  }
+};
+
+// Returns the first matching date after `after`, keeping its time of day.
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  after: Date,
+  holidays: Set<string> = new Set()
+): Date | null => {
+  for (let i = 1; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    const candidate = addDays(after, i);
+    if (matchesRule(rule, candidate, holidays)) return candidate;
+  }
+  return null;
+};
+
+export const getUpcomingOccurrences = (
+  rule: RecurrenceRule,
+  from: Date,
+  count: number,
+  holidays: Set<string> = new Set(),
+  endDate?: Date | null
+) => {
+  const dates: Date[] = [];
+  let cursor = addDays(from, -1);
+
+  while (dates.length < count) {
+    const next = getNextOccurrence(rule, cursor, holidays);
+    if (!next || (endDate && next >= endDate)) break;
+    dates.push(next);
+    cursor = next;
+  }
+  return dates;
+};
+
+const joinWeekdays = (weekdays: number[]) => {
+  const sorted = [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  if (sorted.length === 5 && BUSINESS_DAYS.every(d => sorted.includes(d))) return 'weekday';
+  return sorted.map(d => WEEKDAY_NAMES[d]).join(', ').replace(/, ([^,]*)$/, ' and $1');
+};
+
+const describeInterval = (interval: number, unit: string) => {
+  if (interval === 1) return `Every ${unit}`;
+  if (interval === 2) return `Every other ${unit}`;
+  return `Every ${interval} ${unit}s`;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule, endDate?: Date | null) => {
+  const anchor = parseISO(rule.anchorDate);
+  const interval = Math.max(rule.interval || 1, 1);
+  let summary: string;
+
+  switch (rule.freq) {
+    case 'daily': {
+      if (!rule.byWeekday?.length) {
+        summary = describeInterval(interval, 'day');
+        break;
+      }
+      const weekdays = joinWeekdays(rule.byWeekday);
+      summary = interval === 1
+        ? `Every ${weekdays}`
+        : `${describeInterval(interval, 'day')}, ${weekdays === 'weekday' ? 'weekdays only' : `on ${weekdays}`}`;
+      break;
+    }
+    case 'weekly': {
+      const weekdayList = rule.byWeekday?.length ? rule.byWeekday : [anchor.getDay()];
+      const weekdays = joinWeekdays(weekdayList);
+      if (interval === 1) {
+        summary = `Every ${weekdays}`;
+      } else if (interval === 2 && weekdayList.length === 1) {
+        summary = `Every other ${weekdays}`;
+      } else {
+        summary = `${describeInterval(interval, 'week')} on ${weekdays}`;
+      }
+      break;
+    }
+    case 'monthly': {
+      const prefix = interval === 1 ? 'Monthly' : describeInterval(interval, 'month');
+      if (rule.monthlyBy === 'lastBusinessDay') {
+        summary = `${prefix} on the last business day`;
+      } else if (rule.monthlyBy === 'weekday') {
+        const weekday = WEEKDAY_NAMES[rule.byWeekday?.[0] ?? anchor.getDay()];
+        summary = `${prefix} on the ${SET_POS_LABELS[rule.setPos ?? 1]} ${weekday}`;
+      } else {
+        summary = `${prefix} on day ${anchor.getDate()}`;
+      }
+      break;
+    }
+    default:
+      summary = 'Custom schedule';
+  }
+
+  if (rule.skipHolidays) summary += ', skipping holidays';
+  if (endDate) summary += ` until ${format(endDate, 'MMM d')}`;
+  return summary;
+};
+
+export const getHolidays = async () => {
+  try {
+    const holidaysDoc = await getDoc(doc(db, 'appSettings', 'holidays'));
+    return new Set<string>(holidaysDoc.exists() ? holidaysDoc.data().dates || [] : []);
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return new Set<string>();
+  }
+};
+
+export const saveHolidays = async (dates: string[]) => {
+  await setDoc(doc(db, 'appSettings', 'holidays'), { dates: [...new Set(dates)].sort() });
+};
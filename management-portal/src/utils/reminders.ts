@@ -0,0 +1,45 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Read by sendDueReminders in functions/src/reminders.ts, which runs every
+// 15 minutes, so offsets finer than that land on the next run.
+export interface ReminderSettings {
+  offsetsMinutes: number[]; // how long before the end of the due day, or the meeting, to remind
+  overdue: boolean; // remind task assignees once more when the due day is over
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  offsetsMinutes: [24 * 60, 60],
+  overdue: true,
+};
+
+export const getReminderSettings = async (): Promise<ReminderSettings> => {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'appSettings', 'reminders'));
+    return settingsDoc.exists()
+      ? { ...DEFAULT_REMINDER_SETTINGS, ...(settingsDoc.data() as Partial<ReminderSettings>) }
+      : DEFAULT_REMINDER_SETTINGS;
+  } catch (error) {
+    console.error('Error fetching reminder settings:', error);
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+export const saveReminderSettings = async (settings: ReminderSettings) => {
+  await setDoc(doc(db, 'appSettings', 'reminders'), {
+    ...settings,
+    offsetsMinutes: [...new Set(settings.offsetsMinutes)].sort((a, b) => b - a),
+  });
+};
+
+export const formatReminderOffset = (minutes: number) => {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,125 @@
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { SavedView, TaskFilters } from '../types';
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  search: '',
+  status: 'all',
+  priority: 'all',
+  client: 'all',
+  assignee: 'all',
+  duration: 'all',
+  startDate: '',
+  endDate: '',
+  label: 'all',
+  fieldId: '',
+  fieldValue: '',
+  scope: 'active',
+};
+
+// Short query-string keys so shared links stay readable.
+const PARAM_KEYS: Record<keyof TaskFilters, string> = {
+  search: 'q',
+  status: 'status',
+  priority: 'priority',
+  client: 'client',
+  assignee: 'assignee',
+  duration: 'period',
+  startDate: 'from',
+  endDate: 'to',
+  label: 'label',
+  fieldId: 'field',
+  fieldValue: 'fieldValue',
+  scope: 'scope',
+};
+
+const FILTER_KEYS = Object.keys(PARAM_KEYS) as (keyof TaskFilters)[];
+
+// Only non-default values are written, so an unfiltered page has a bare URL.
+export const filtersToSearchParams = (filters: TaskFilters) => {
+  const params = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    if (filters[key] !== DEFAULT_TASK_FILTERS[key]) params.set(PARAM_KEYS[key], filters[key]);
+  }
+  return params;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): TaskFilters =>
+  Object.fromEntries(FILTER_KEYS.map(key => [
+    key,
+    params.has(PARAM_KEYS[key]) ? params.get(PARAM_KEYS[key])! : DEFAULT_TASK_FILTERS[key],
+  ])) as unknown as TaskFilters;
+
+export const getSavedViewLink = (filters: TaskFilters) => {
+  const search = filtersToSearchParams(filters).toString();
+  return search ? `/tasks?${search}` : '/tasks';
+};
+
+export const mapSavedViewDoc = (id: string, data: DocumentData): SavedView => ({
+  id,
+  name: data.name || '',
+  filters: { ...DEFAULT_TASK_FILTERS, ...data.filters },
+  ownerId: data.ownerId || '',
+  ownerName: data.ownerName || '',
+  shared: !!data.shared,
+  createdAt: data.createdAt?.toDate() || new Date(),
+});
+
+// The user's own views plus everything teammates have shared.
+export const getSavedViews = async (userId: string) => {
+  const [own, shared] = await Promise.all([
+    getDocs(query(collection(db, 'savedViews'), where('ownerId', '==', userId))),
+    getDocs(query(collection(db, 'savedViews'), where('shared', '==', true))),
+  ]);
+
+  const views = new Map<string, SavedView>();
+  [...own.docs, ...shared.docs].forEach(d => views.set(d.id, mapSavedViewDoc(d.id, d.data())));
+  return [...views.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createSavedView = async (
+  name: string,
+  filters: TaskFilters,
+  owner: { uid: string; displayName?: string },
+  shared: boolean
+) => {
+  const ref = await addDoc(collection(db, 'savedViews'), {
+    name,
+    filters,
+    ownerId: owner.uid,
+    ownerName: owner.displayName || '',
+    shared,
+    createdAt: Timestamp.now(),
+  });
+  return ref.id;
+};
+
+export const setSavedViewShared = async (viewId: string, shared: boolean) => {
+  await updateDoc(doc(db, 'savedViews', viewId), { shared });
+};
+
+export const deleteSavedView = async (viewId: string) => {
+  await deleteDoc(doc(db, 'savedViews', viewId));
+};
+
+export const pinSavedView = async (userId: string, viewId: string) => {
+  await setDoc(doc(db, 'userPreferences', userId), { pinnedViewIds: arrayUnion(viewId) }, { merge: true });
+};
+
+export const unpinSavedView = async (userId: string, viewId: string) => {
+  await setDoc(doc(db, 'userPreferences', userId), { pinnedViewIds: arrayRemove(viewId) }, { merge: true });
+};
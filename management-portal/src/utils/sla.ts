@@ -0,0 +1,117 @@
+import { collection, doc, getDoc, getDocs, setDoc, type DocumentData } from 'firebase/firestore';
+import { addHours } from 'date-fns';
+import { db } from '../config/firebase';
+import type { SlaBreach, SlaBreachType, SlaRule, Task } from '../types';
+
+// How long a breach can stay open before admins are told as well.
+export const DEFAULT_ESCALATE_AFTER_HOURS = 24;
+
+export const SLA_BREACH_LABELS: Record<SlaBreachType, string> = {
+  start: 'Not started in time',
+  resolve: 'Not finished in time',
+};
+
+export interface SlaSettings {
+  rules: SlaRule[];
+  escalateAfterHours: number;
+}
+
+export const getSlaSettings = async (): Promise<SlaSettings> => {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'appSettings', 'slaRules'));
+    const data = settingsDoc.exists() ? settingsDoc.data() : {};
+    return {
+      rules: (data.rules || []) as SlaRule[],
+      escalateAfterHours: data.escalateAfterHours || DEFAULT_ESCALATE_AFTER_HOURS,
+    };
+  } catch (error) {
+    console.error('Error fetching SLA rules:', error);
+    return { rules: [], escalateAfterHours: DEFAULT_ESCALATE_AFTER_HOURS };
+  }
+};
+
+export const saveSlaSettings = async (settings: SlaSettings) => {
+  await setDoc(doc(db, 'appSettings', 'slaRules'), settings);
+};
+
+interface SlaTrackedTask {
+  id: string;
+  priority: string;
+  clientId?: string | null;
+}
+
+// Kept in step with findSlaRule in functions/src/sla.ts, which flags breaches.
+export const findSlaRule = (rules: SlaRule[], task: Omit<SlaTrackedTask, 'id'>) => {
+  const specificity = (rule: SlaRule) => (rule.clientId ? 2 : 0) + (rule.priority !== 'all' ? 1 : 0);
+
+  return rules
+    .filter(rule => (!rule.clientId || rule.clientId === task.clientId)
+      && (rule.priority === 'all' || rule.priority === task.priority))
+    .sort((a, b) => specificity(b) - specificity(a))[0] || null;
+};
+
+export const getSlaDeadlines = (rule: SlaRule, task: Pick<Task, 'assignedAt'>) => ({
+  start: rule.startWithinHours ? addHours(task.assignedAt, rule.startWithinHours) : null,
+  resolve: rule.resolveWithinHours ? addHours(task.assignedAt, rule.resolveWithinHours) : null,
+});
+
+export const describeSlaRule = (rule: SlaRule) => [
+  rule.startWithinHours && `start within ${rule.startWithinHours}h`,
+  rule.resolveWithinHours && `finish within ${rule.resolveWithinHours}h`,
+].filter(Boolean).join(', ');
+
+export const mapSlaBreachDoc = (id: string, data: DocumentData): SlaBreach => ({
+  id,
+  taskId: data.taskId,
+  taskTitle: data.taskTitle || '',
+  type: data.type,
+  ruleId: data.ruleId || '',
+  occurrence: data.occurrence || 0,
+  assignedTo: data.assignedTo || [],
+  createdBy: data.createdBy || '',
+  clientId: data.clientId || null,
+  clientName: data.clientName || null,
+  priority: data.priority,
+  deadline: data.deadline?.toDate() || new Date(),
+  detectedAt: data.detectedAt?.toDate() || new Date(),
+  escalationLevel: data.escalationLevel || 1,
+  escalatedAt: data.escalatedAt?.toDate() || null,
+});
+
+export const getSlaBreaches = async () => {
+  const snapshot = await getDocs(collection(db, 'slaBreaches'));
+  return snapshot.docs.map(d => mapSlaBreachDoc(d.id, d.data()));
+};
+
+export interface SlaComplianceRow {
+  key: string;
+  label: string;
+  tracked: number;
+  breached: number;
+  rate: number; // percent of tracked tasks without a breach
+}
+
+// Tasks with a matching rule are tracked; a task counts as breached once,
+// however many of its deadlines or occurrences were missed.
+export const getSlaCompliance = <T extends SlaTrackedTask>(
+  tasks: T[],
+  rules: SlaRule[],
+  breaches: Pick<SlaBreach, 'taskId'>[],
+  groupsOf: (task: T) => { key: string; label: string }[]
+): SlaComplianceRow[] => {
+  const breachedIds = new Set(breaches.map(b => b.taskId));
+  const rows = new Map<string, SlaComplianceRow>();
+
+  tasks.filter(task => findSlaRule(rules, task)).forEach(task => {
+    groupsOf(task).forEach(({ key, label }) => {
+      const row = rows.get(key) || { key, label, tracked: 0, breached: 0, rate: 100 };
+      row.tracked++;
+      if (breachedIds.has(task.id)) row.breached++;
+      rows.set(key, row);
+    });
+  });
+
+  return [...rows.values()]
+    .map(row => ({ ...row, rate: Math.round(((row.tracked - row.breached) / row.tracked) * 100) }))
+    .sort((a, b) => a.rate - b.rate);
+};
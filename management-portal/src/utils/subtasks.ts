@@ -0,0 +1,44 @@
+import { Timestamp, type DocumentData } from 'firebase/firestore';
+import type { ChecklistItem, Subtask, Task } from '../types';
+
+export const createItemId = () => crypto.randomUUID();
+
+// Firestore stores subtask dates as Timestamps; the UI works with Dates.
+export const parseSubtasks = (raw: DocumentData[] | undefined): Subtask[] =>
+  (raw || []).map((s) => ({
+    ...(s as Subtask),
+    dueDate: s.dueDate?.toDate ? s.dueDate.toDate() : null,
+    completedAt: s.completedAt?.toDate ? s.completedAt.toDate() : null,
+  }));
+
+export const serializeSubtasks = (subtasks: Subtask[]) =>
+  subtasks.map((s) => ({
+    ...s,
+    dueDate: s.dueDate ? Timestamp.fromDate(s.dueDate) : null,
+    completedAt: s.completedAt ? Timestamp.fromDate(s.completedAt) : null,
+    completedBy: s.completedBy || null,
+  }));
+
+export const parseChecklist = (raw: DocumentData[] | undefined): ChecklistItem[] =>
+  (raw || []) as ChecklistItem[];
+
+export const getTaskProgress = (task: Pick<Task, 'subtasks' | 'checklist'>) => {
+  const subtasks = task.subtasks || [];
+  const checklist = task.checklist || [];
+  const completedSubtasks = subtasks.filter(s => s.done).length;
+  const completedChecklist = checklist.filter(c => c.done).length;
+  const total = subtasks.length + checklist.length;
+  const completed = completedSubtasks + completedChecklist;
+
+  return {
+    subtasksTotal: subtasks.length,
+    subtasksCompleted: completedSubtasks,
+    checklistTotal: checklist.length,
+    checklistCompleted: completedChecklist,
+    total,
+    completed,
+    open: total - completed,
+    // A task without subtasks or checklist items counts as fully complete.
+    ratio: total > 0 ? completed / total : 1,
+  };
+};
@@ -0,0 +1,90 @@
+import { arrayUnion, doc, getDoc, setDoc } from 'firebase/firestore';
+import { format, parseISO } from 'date-fns';
+import { db } from '../config/firebase';
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldValue, LabelColor, Task, TaskLabel } from '../types';
+
+export const LABEL_COLORS: Record<LabelColor, string> = {
+  gray: 'bg-gray-100 text-gray-700',
+  red: 'bg-red-100 text-red-700',
+  orange: 'bg-orange-100 text-orange-700',
+  amber: 'bg-amber-100 text-amber-700',
+  green: 'bg-green-100 text-green-700',
+  teal: 'bg-teal-100 text-teal-700',
+  blue: 'bg-blue-100 text-blue-700',
+  indigo: 'bg-indigo-100 text-indigo-700',
+  purple: 'bg-purple-100 text-purple-700',
+  pink: 'bg-pink-100 text-pink-700',
+};
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'dropdown', label: 'Dropdown' },
+  { value: 'user', label: 'User' },
+];
+
+export const NO_VALUE = 'Not set';
+
+// Labels are free-form: anyone can create one while editing a task, so the
+// palette lives in a shared settings doc that only ever grows.
+export const getTaskLabels = async () => {
+  try {
+    const labelsDoc = await getDoc(doc(db, 'appSettings', 'taskLabels'));
+    return (labelsDoc.exists() ? labelsDoc.data().labels || [] : []) as TaskLabel[];
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+    return [];
+  }
+};
+
+export const createTaskLabel = async (label: TaskLabel) => {
+  await setDoc(doc(db, 'appSettings', 'taskLabels'), { labels: arrayUnion(label) }, { merge: true });
+};
+
+export const getLabelClass = (name: string, labels: TaskLabel[]) =>
+  LABEL_COLORS[labels.find(l => l.name === name)?.color || 'gray'];
+
+export const getCustomFields = async () => {
+  try {
+    const fieldsDoc = await getDoc(doc(db, 'appSettings', 'customFields'));
+    return (fieldsDoc.exists() ? fieldsDoc.data().fields || [] : []) as CustomFieldDefinition[];
+  } catch (error) {
+    console.error('Error fetching custom fields:', error);
+    return [];
+  }
+};
+
+export const saveCustomFields = async (fields: CustomFieldDefinition[]) => {
+  await setDoc(doc(db, 'appSettings', 'customFields'), { fields });
+};
+
+// Drops cleared inputs so tasks only store the fields that were filled in.
+export const cleanCustomFieldValues = (values: Record<string, CustomFieldValue>) =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== '' && value !== null));
+
+export const formatCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  userNames: Record<string, string>
+) => {
+  if (value === undefined || value === '') return '';
+  switch (field.type) {
+    case 'date': return format(parseISO(String(value)), 'MMM d, yyyy');
+    case 'user': return userNames[String(value)] || 'Unknown';
+    default: return String(value);
+  }
+};
+
+// Text fields match as a case-insensitive substring, everything else exactly.
+export const matchesCustomFieldFilter = (
+  task: Pick<Task, 'customFields'>,
+  field: CustomFieldDefinition,
+  filterValue: string
+) => {
+  const value = task.customFields?.[field.id];
+  if (value === undefined) return false;
+  return field.type === 'text'
+    ? String(value).toLowerCase().includes(filterValue.toLowerCase())
+    : String(value) === filterValue;
+};
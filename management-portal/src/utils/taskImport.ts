@@ -0,0 +1,234 @@
+import { readSheet } from 'read-excel-file/browser';
+import { format, isValid, parse } from 'date-fns';
+import { describeRecurrence, ruleFromPattern } from './recurrence';
+import { createNotification } from './notifications';
+import { createTask } from './tasks';
+import type { RecurrenceRule, TaskPriority, User } from '../types';
+
+export type ImportField = 'title' | 'description' | 'assignee' | 'client' | 'priority' | 'dueDate' | 'recurrence';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; hint?: string; aliases: string[] }[] = [
+  { key: 'title', label: 'Title', required: true, aliases: ['title', 'task', 'task name', 'name', 'subject'] },
+  { key: 'description', label: 'Description', required: false, aliases: ['description', 'details', 'notes'] },
+  { key: 'assignee', label: 'Assignee', required: true, hint: 'Email or display name', aliases: ['assignee', 'assigned to', 'owner', 'email', 'user'] },
+  { key: 'client', label: 'Client', required: false, hint: 'Client name', aliases: ['client', 'client name', 'customer', 'account'] },
+  { key: 'priority', label: 'Priority', required: false, hint: 'low, medium or high', aliases: ['priority'] },
+  { key: 'dueDate', label: 'Due Date', required: true, hint: 'e.g. 2025-03-31 or 31/03/2025', aliases: ['due date', 'due', 'deadline', 'due on'] },
+  { key: 'recurrence', label: 'Recurrence', required: false, hint: 'daily, weekly, monthly or "every 2 weeks"', aliases: ['recurrence', 'repeat', 'repeats', 'frequency'] },
+];
+
+// Column index per field, or -1 when the field is not imported.
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+type ImportUser = Pick<User, 'uid' | 'email' | 'displayName'>;
+type ImportClient = { id: string; name: string };
+
+export interface ImportRow {
+  rowNumber: number; // as shown in the spreadsheet, header is row 1
+  title: string;
+  description: string;
+  assignee: ImportUser | null;
+  client: ImportClient | null;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  recurrence: RecurrenceRule | null;
+  errors: string[];
+}
+
+export interface ImportResult {
+  created: number;
+  failed: { rowNumber: number; title: string; reason: string }[];
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'd MMM yyyy', 'MMM d, yyyy', 'MMM d yyyy'];
+
+const RECURRENCE_PATTERN = /^(?:every\s+(\d+)\s+)?(day|week|month)s?$/;
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const cellToString = (cell: unknown) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return format(cell, 'yyyy-MM-dd');
+  return String(cell).trim();
+};
+
+// First sheet for .xlsx files; the first row is taken as the header.
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const data: string[][] = file.name.toLowerCase().endsWith('.xlsx')
+    ? (await readSheet(file)).map(row => row.map(cellToString))
+    : parseCsv((await file.text()).replace(/^\uFEFF/, '')).map(row => row.map(cell => cell.trim()));
+
+  const [headers = [], ...rows] = data.filter(row => row.some(cell => cell !== ''));
+  return { headers, rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase().replace(/[_-]/g, ' ').trim());
+  return Object.fromEntries(IMPORT_FIELDS.map(field => [
+    field.key,
+    normalized.findIndex(h => field.aliases.includes(h)),
+  ])) as ColumnMapping;
+};
+
+// Local midnight of the given day, which the preview and recurrence rule
+// work with. importTasks stores it the way the form does.
+export const parseImportDate = (value: string) => {
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+export const parseImportRecurrence = (value: string, dueDate: Date): RecurrenceRule | null | undefined => {
+  const normalized = value.toLowerCase().trim();
+  if (!normalized || normalized === 'none' || normalized === 'no') return null;
+
+  const aliases: Record<string, string> = { daily: 'day', weekly: 'week', monthly: 'month' };
+  const match = RECURRENCE_PATTERN.exec(aliases[normalized] || normalized);
+  if (!match) return undefined;
+
+  const freq = match[2] === 'day' ? 'daily' : match[2] === 'week' ? 'weekly' : 'monthly';
+  return { ...ruleFromPattern(freq, dueDate), interval: Math.max(parseInt(match[1] || '1', 10), 1) };
+};
+
+export const validateImportRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  users: ImportUser[],
+  clients: ImportClient[]
+): ImportRow[] =>
+  sheet.rows.map((cells, index) => {
+    const get = (field: ImportField) => (mapping[field] >= 0 ? cells[mapping[field]] || '' : '').trim();
+    const errors: string[] = [];
+
+    const title = get('title');
+    if (!title) errors.push('Title is empty');
+
+    const assigneeValue = get('assignee').toLowerCase();
+    const assignee = users.find(u => u.email?.toLowerCase() === assigneeValue)
+      || users.find(u => u.displayName?.toLowerCase() === assigneeValue)
+      || null;
+    if (!assigneeValue) errors.push('Assignee is empty');
+    else if (!assignee) errors.push(`No user matches "${get('assignee')}"`);
+
+    const clientValue = get('client');
+    const client = clientValue ? clients.find(c => c.name.toLowerCase() === clientValue.toLowerCase()) || null : null;
+    if (clientValue && !client) errors.push(`No client named "${clientValue}"`);
+
+    const priorityValue = get('priority').toLowerCase();
+    const priority = (priorityValue || 'medium') as TaskPriority;
+    if (!['low', 'medium', 'high'].includes(priority)) errors.push(`Unknown priority "${get('priority')}"`);
+
+    const dueValue = get('dueDate');
+    const dueDate = dueValue ? parseImportDate(dueValue) : null;
+    if (!dueValue) errors.push('Due date is empty');
+    else if (!dueDate) errors.push(`Cannot read due date "${dueValue}"`);
+
+    const recurrence = dueDate ? parseImportRecurrence(get('recurrence'), dueDate) : null;
+    if (recurrence === undefined) errors.push(`Unknown recurrence "${get('recurrence')}"`);
+
+    return {
+      rowNumber: index + 2,
+      title,
+      description: get('description'),
+      assignee,
+      client,
+      priority,
+      dueDate,
+      recurrence: recurrence || null,
+      errors,
+    };
+  });
+
+// Creates one task per valid row the same way the Create Task form does,
+// so counters and notifications behave identically.
+export const importTasks = async (
+  rows: ImportRow[],
+  creator: { uid: string; displayName?: string },
+  onProgress?: (done: number) => void
+): Promise<ImportResult> => {
+  const result: ImportResult = { created: 0, failed: [] };
+
+  for (const [index, row] of rows.entries()) {
+    try {
+      await createTask({
+        title: row.title,
+        description: row.description,
+        status: 'pending',
+        priority: row.priority,
+        // The form stores the picked day as UTC midnight (new Date('yyyy-MM-dd')),
+        // so imported tasks use the same day boundary.
+        dueDate: new Date(format(row.dueDate!, 'yyyy-MM-dd')),
+        assignee: { uid: row.assignee!.uid, displayName: row.assignee!.displayName },
+        creator,
+        client: row.client,
+        recurrence: row.recurrence,
+      });
+
+      await createNotification(
+        row.assignee!.uid,
+        `New ${row.recurrence ? 'Recurring ' : ''}Task Assigned`,
+        `You have been assigned: ${row.title}${row.client ? ` for ${row.client.name}` : ''}${
+          row.recurrence ? ` (${describeRecurrence(row.recurrence).toLowerCase()})` : ''
+        }`,
+        'task'
+      );
+      result.created++;
+    } catch (error) {
+      console.error('Error importing task:', error);
+      result.failed.push({
+        rowNumber: row.rowNumber,
+        title: row.title,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    onProgress?.(index + 1);
+  }
+
+  return result;
+};
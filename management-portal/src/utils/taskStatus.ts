@@ -0,0 +1,13 @@
+import type { TaskStatus } from '../types';
+
+// Single source for status ordering and labels; the filter bar, the status
+// picker and the board columns are all built from this list.
+export const TASK_STATUSES: { value: TaskStatus; label: string; accent: string }[] = [
+  { value: 'pending', label: 'Pending', accent: 'bg-gray-300' },
+  { value: 'in-progress', label: 'In Progress', accent: 'bg-blue-500' },
+  { value: 'in-review', label: 'In Review', accent: 'bg-amber-500' },
+  { value: 'completed', label: 'Completed', accent: 'bg-green-500' },
+];
+
+export const getStatusLabel = (status: string) =>
+  TASK_STATUSES.find(s => s.value === status)?.label || status;
@@ -0,0 +1,412 @@
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { addDays, format } from 'date-fns';
+import { db, functions } from '../config/firebase';
+import { createNotification, getTaskChatLink } from './notifications';
+import { deleteTaskAttachments } from './comments';
+import { detachDependencies } from './dependencies';
+import { parseChecklist, parseSubtasks } from './subtasks';
+import type {
+  AssignmentHandoff,
+  AssigneeCompletion,
+  CustomFieldValue,
+  PointsSplitRule,
+  RecurrenceRule,
+  StatusUpdate,
+  Task,
+  TaskPriority,
+  TaskStatus
+} from '../types';
+
+// Converts a raw `tasks` document into the shape the UI works with.
+export const mapTaskDoc = (id: string, data: DocumentData): Task => ({
+  id,
+  ...data,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  assignedAt: data.assignedAt?.toDate() || new Date(),
+  dueDate: data.dueDate?.toDate() || new Date(),
+  completedAt: data.completedAt?.toDate() || null,
+  lastCompletedDate: data.lastCompletedDate?.toDate() || null,
+  recurringEndDate: data.recurringEndDate?.toDate() || null,
+  submittedAt: data.submittedAt?.toDate() || null,
+  archivedAt: data.archivedAt?.toDate() || null,
+  deletedAt: data.deletedAt?.toDate() || null,
+  statusHistory: data.statusHistory?.map((sh: DocumentData) => ({
+    ...sh,
+    timestamp: sh.timestamp?.toDate() || new Date(),
+  })) as StatusUpdate[] || [],
+  assignmentHistory: data.assignmentHistory?.map((h: DocumentData) => ({
+    ...h,
+    timestamp: h.timestamp?.toDate() || new Date(),
+  })) as AssignmentHandoff[] || [],
+  completionCount: data.completionCount || 0,
+  subtasks: parseSubtasks(data.subtasks),
+  checklist: parseChecklist(data.checklist),
+  assigneeCompletions: data.assigneeCompletions
+    ? Object.fromEntries(Object.entries(data.assigneeCompletions as Record<string, DocumentData>).map(
+      ([uid, c]) => [uid, { ...c, completedAt: c.completedAt?.toDate() || new Date() } as AssigneeCompletion]
+    ))
+    : undefined,
+} as Task);
+
+export const isSharedTask = (task: Pick<Task, 'assignedTo'>) => Array.isArray(task.assignedTo);
+
+export const getAssigneeIds = (task: Pick<Task, 'assignedTo'>) =>
+  Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo].filter(Boolean);
+
+export const isTaskAssignee = (task: Pick<Task, 'assignedTo'>, userId?: string) =>
+  !!userId && getAssigneeIds(task).includes(userId);
+
+export const isFollowingTask = (task: Pick<Task, 'watchers'>, userId?: string) =>
+  !!userId && (task.watchers || []).includes(userId);
+
+export const followTask = async (taskId: string, userIds: string[]) => {
+  if (userIds.length === 0) return;
+  await updateDoc(doc(db, 'tasks', taskId), { watchers: arrayUnion(...userIds) });
+};
+
+export const unfollowTask = async (taskId: string, userId: string) => {
+  await updateDoc(doc(db, 'tasks', taskId), { watchers: arrayRemove(userId) });
+};
+
+// Everyone who hears about activity on a task: its creator, assignees and
+// followers, minus whoever caused the change.
+export const getTaskAudience = (
+  task: Pick<Task, 'createdBy' | 'assignedTo' | 'watchers'>,
+  actorId?: string
+) => [...new Set([task.createdBy, ...getAssigneeIds(task), ...(task.watchers || [])])]
+  .filter(uid => uid && uid !== actorId);
+
+export const notifyTaskAudience = async (
+  task: Pick<Task, 'createdBy' | 'assignedTo' | 'watchers'>,
+  actorId: string | undefined,
+  title: string,
+  message: string,
+  exclude: string[] = [],
+  link?: string
+) => {
+  await Promise.all(getTaskAudience(task, actorId)
+    .filter(uid => !exclude.includes(uid))
+    .map(uid => createNotification(uid, title, message, 'task', link)));
+};
+
+// Shared tasks store their assignees as an array, so both shapes are queried.
+export const getAssignedTaskDocs = async (userId: string) => {
+  const tasksRef = collection(db, 'tasks');
+  const [single, shared] = await Promise.all([
+    getDocs(query(tasksRef, where('assignedTo', '==', userId))),
+    getDocs(query(tasksRef, where('assignedTo', 'array-contains', userId))),
+  ]);
+  return [...single.docs, ...shared.docs];
+};
+
+export interface NewTaskInput {
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: Date;
+  assignee: { uid: string; displayName?: string };
+  creator: { uid: string; displayName?: string };
+  // When set, one shared task is written for all of these people instead.
+  shared?: {
+    assignees: { uid: string; displayName?: string }[];
+    leadId: string | null;
+    pointsSplit: PointsSplitRule;
+  } | null;
+  client?: { id: string; name: string } | null;
+  recurrence?: RecurrenceRule | null;
+  recurringEndDate?: Date | null;
+  labels?: string[];
+  customFields?: Record<string, CustomFieldValue>;
+  // Sign-off before completion; the creator reviews unless a reviewer is set.
+  review?: { reviewer: { uid: string; displayName?: string } | null } | null;
+}
+
+// The document shape every new task is written with. Callers spread in
+// source-specific fields (createdFrom, templateId, ...) on top.
+export const buildTaskData = (input: NewTaskInput, now = Timestamp.now()) => {
+  const initialStatusHistory: StatusUpdate = {
+    status: input.status,
+    timestamp: now.toDate(),
+    updatedBy: input.creator.uid,
+    updatedByName: input.creator.displayName || ''
+  };
+
+  return {
+    title: input.title,
+    description: input.description,
+    status: input.status,
+    priority: input.priority,
+    assignedTo: input.assignee.uid,
+    assignedToName: input.assignee.displayName || '',
+    ...(input.shared && {
+      assignedTo: input.shared.assignees.map(a => a.uid),
+      assignedToName: input.shared.assignees.map(a => a.displayName || '').join(', '),
+      assigneeNames: Object.fromEntries(input.shared.assignees.map(a => [a.uid, a.displayName || ''])),
+      leadId: input.shared.leadId,
+      pointsSplit: input.shared.pointsSplit,
+      assigneeCompletions: {},
+    }),
+    createdBy: input.creator.uid,
+    createdByName: input.creator.displayName || '',
+    createdAt: now,
+    assignedAt: now,
+    dueDate: Timestamp.fromDate(input.dueDate),
+    points: 0,
+    isEarlyComplete: false,
+    completionTimeHours: 0,
+    statusHistory: [initialStatusHistory],
+    clientId: input.client?.id || null,
+    clientName: input.client?.name || null,
+    isRecurring: !!input.recurrence,
+    recurringPattern: input.recurrence ? input.recurrence.freq : null,
+    recurrence: input.recurrence || null,
+    recurringEndDate: input.recurrence && input.recurringEndDate
+      ? Timestamp.fromDate(input.recurringEndDate)
+      : null,
+    completionCount: 0,
+    lastCompletedDate: null,
+    subtasks: [],
+    checklist: [],
+    labels: input.labels || [],
+    customFields: input.customFields || {},
+    requiresReview: !!input.review,
+    reviewerId: input.review?.reviewer?.uid || null,
+    reviewerName: input.review?.reviewer?.displayName || null,
+  };
+};
+
+// Writes a new task from the Tasks page or an import. userStats and client
+// counters are updated by the taskCreated function.
+export const createTask = async (input: NewTaskInput, now = Timestamp.now()) => {
+  const taskRef = await addDoc(collection(db, 'tasks'), buildTaskData(input, now));
+  return taskRef.id;
+};
+
+export const rescheduleTask = async (task: Task, dueDate: Date, actorId: string) => {
+  await updateDoc(doc(db, 'tasks', task.id), {
+    dueDate: Timestamp.fromDate(dueDate),
+  });
+
+  await notifyTaskAudience(
+    task,
+    actorId,
+    'Task Rescheduled',
+    `${task.title} is now due on ${format(dueDate, 'MMM d, yyyy')}`
+  );
+};
+
+// Fields that hand a single-assignee task to someone else and log the
+// handoff. The taskUpdated function moves totalTasksAssigned between the two.
+export const getReassignmentFields = (
+  task: Pick<Task, 'assignedTo' | 'assignedToName'>,
+  to: { uid: string; displayName?: string },
+  note: string,
+  actor: { uid: string; displayName?: string }
+) => {
+  const handoff: AssignmentHandoff = {
+    fromId: task.assignedTo as string,
+    fromName: task.assignedToName || '',
+    toId: to.uid,
+    toName: to.displayName || '',
+    note,
+    handedOverBy: actor.uid,
+    handedOverByName: actor.displayName || '',
+    timestamp: new Date(),
+  };
+
+  return {
+    assignedTo: to.uid,
+    assignedToName: to.displayName || '',
+    assignmentHistory: arrayUnion(handoff),
+  };
+};
+
+// Tells the new assignee what they are picking up, the previous one that it
+// is off their plate, and everyone else following the task.
+export const notifyReassignment = async (
+  task: Pick<Task, 'id' | 'title' | 'createdBy' | 'assignedTo' | 'watchers'>,
+  to: { uid: string; displayName?: string },
+  note: string,
+  actor: { uid: string; displayName?: string }
+) => {
+  const fromId = task.assignedTo as string;
+  const link = `/tasks?taskId=${task.id}`;
+  const handedBy = actor.displayName || 'An admin';
+
+  await createNotification(
+    to.uid,
+    'Task Reassigned',
+    `${handedBy} handed you ${task.title}${note ? `: ${note.slice(0, 100)}` : ''}`,
+    'task',
+    link
+  );
+  if (fromId && fromId !== actor.uid) {
+    await createNotification(
+      fromId,
+      'Task Reassigned',
+      `${task.title} was handed over to ${to.displayName || 'someone else'}`,
+      'task',
+      link
+    );
+  }
+  await notifyTaskAudience(
+    task,
+    actor.uid,
+    'Task Reassigned',
+    `${task.title} was reassigned to ${to.displayName || 'someone else'}`,
+    [to.uid, fromId]
+  );
+};
+
+export const reassignTask = async (
+  task: Task,
+  to: { uid: string; displayName?: string },
+  note: string,
+  actor: { uid: string; displayName?: string }
+) => {
+  await updateDoc(doc(db, 'tasks', task.id), getReassignmentFields(task, to, note, actor));
+  await notifyReassignment(task, to, note, actor);
+};
+
+// Matches the retention the purgeTrash function enforces.
+export const TRASH_RETENTION_DAYS = 30;
+
+export const isTaskArchived = (task: Pick<Task, 'archivedAt'>) => !!task.archivedAt;
+
+export const isTaskInTrash = (task: Pick<Task, 'deletedAt'>) => !!task.deletedAt;
+
+export const getTrashPurgeDate = (task: Pick<Task, 'deletedAt'>) =>
+  task.deletedAt ? addDays(task.deletedAt, TRASH_RETENTION_DAYS) : null;
+
+export const archiveTask = async (taskId: string, actorId: string) => {
+  await updateDoc(doc(db, 'tasks', taskId), {
+    archivedAt: Timestamp.now(),
+    archivedBy: actorId,
+  });
+};
+
+export const unarchiveTask = async (taskId: string) => {
+  await updateDoc(doc(db, 'tasks', taskId), { archivedAt: null, archivedBy: null });
+};
+
+// Comments, attachments and dependency links stay until the task is purged,
+// so a restore brings everything back. The taskUpdated function moves the
+// client's taskCount in both directions.
+export const moveTaskToTrash = async (taskId: string, actor: { uid: string; displayName?: string }) => {
+  await updateDoc(doc(db, 'tasks', taskId), {
+    deletedAt: Timestamp.now(),
+    deletedBy: actor.uid,
+    deletedByName: actor.displayName || '',
+  });
+};
+
+export const restoreTask = async (taskId: string) => {
+  await updateDoc(doc(db, 'tasks', taskId), { deletedAt: null, deletedBy: null, deletedByName: null });
+};
+
+// Permanent delete, superadmin only. taskCompletions are kept for reports.
+export const purgeTask = async (task: Pick<Task, 'id' | 'blockedBy' | 'blocks'>) => {
+  await detachDependencies(task);
+  await deleteDoc(doc(db, 'tasks', task.id));
+
+  const comments = await getDocs(query(collection(db, 'taskComments'), where('taskId', '==', task.id)));
+  await Promise.all(comments.docs.map(d => deleteDoc(d.ref)));
+  await deleteTaskAttachments(task.id);
+};
+
+export interface CompleteTaskResult {
+  points: number;
+  isEarly: boolean;
+  policyVersion: number;
+  nextDueDate: string | null;
+  seriesCompleted: boolean;
+  completionCount: number;
+  remainingAssignees: number;
+  inReview: boolean;
+}
+
+// Completion, recurring rollover and stats run in a single server-side
+// transaction (functions/src/completion.ts) so concurrent completions or a
+// closed tab cannot leave them half-applied. On a shared task this marks the
+// caller's part; remainingAssignees says how many parts are still open.
+export const completeTask = async (
+  task: Pick<Task, 'id' | 'completionCount'>,
+  options: { submitForReview?: boolean } = {}
+) => {
+  const callable = httpsCallable<
+    { taskId: string; expectedCompletionCount: number; submitForReview?: boolean },
+    CompleteTaskResult
+  >(functions, 'completeTask');
+
+  const { data } = await callable({
+    taskId: task.id,
+    expectedCompletionCount: task.completionCount || 0,
+    ...(options.submitForReview && { submitForReview: true }),
+  });
+  return data;
+};
+
+// The creator always signs off; a designated reviewer can too.
+export const getTaskReviewerIds = (task: Pick<Task, 'createdBy' | 'reviewerId'>) =>
+  [task.createdBy, task.reviewerId].filter((id): id is string => !!id);
+
+export const canReviewTask = (task: Pick<Task, 'createdBy' | 'reviewerId'>, userId?: string) =>
+  !!userId && getTaskReviewerIds(task).includes(userId);
+
+// Approval goes through completeTask; sending work back is a plain update
+// plus a comment so the reason sits in the task's discussion.
+export const requestTaskChanges = async (
+  task: Task,
+  reviewer: { uid: string; displayName?: string; role?: string | null },
+  note: string
+) => {
+  const now = Timestamp.now();
+  await updateDoc(doc(db, 'tasks', task.id), {
+    status: 'in-progress',
+    submittedAt: null,
+    submittedBy: null,
+    submittedByName: null,
+    statusHistory: arrayUnion({
+      status: 'in-progress',
+      timestamp: now.toDate(),
+      updatedBy: reviewer.uid,
+      updatedByName: reviewer.displayName || '',
+    }),
+    // Shared tasks reopen every part so each assignee re-submits theirs.
+    ...(isSharedTask(task) && { assigneeCompletions: {} }),
+  });
+
+  await addDoc(collection(db, 'taskComments'), {
+    taskId: task.id,
+    message: `Changes requested: ${note}`,
+    mentions: [],
+    sentBy: reviewer.uid,
+    sentByName: reviewer.displayName || 'Unknown',
+    sentByRole: reviewer.role || 'member',
+    timestamp: now,
+  });
+
+  await notifyTaskAudience(
+    task,
+    reviewer.uid,
+    'Changes Requested',
+    `${reviewer.displayName || 'Your reviewer'} sent ${task.title} back: ${note.slice(0, 100)}`,
+    [],
+    getTaskChatLink(task.id)
+  );
+};
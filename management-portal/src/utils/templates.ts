@@ -0,0 +1,198 @@
+import {
+  addDoc,
+  arrayRemove,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData
+} from 'firebase/firestore';
+import { addDays } from 'date-fns';
+import { db } from '../config/firebase';
+import { createNotification } from './notifications';
+import { buildTaskData } from './tasks';
+import type { Playbook, TaskTemplate, User } from '../types';
+
+export type TaskTemplateDraft = Pick<
+  TaskTemplate,
+  'title' | 'description' | 'priority' | 'dueOffsetDays' | 'defaultAssigneeRole'
+>;
+
+export type PlaybookDraft = Pick<Playbook, 'name' | 'description' | 'templateIds'>;
+
+export const mapTemplateDoc = (id: string, data: DocumentData): TaskTemplate => ({
+  id,
+  title: data.title || '',
+  description: data.description || '',
+  priority: data.priority || 'medium',
+  dueOffsetDays: data.dueOffsetDays || 0,
+  defaultAssigneeRole: data.defaultAssigneeRole || null,
+  createdBy: data.createdBy || '',
+  createdByName: data.createdByName || '',
+  createdAt: data.createdAt?.toDate() || new Date(),
+});
+
+export const mapPlaybookDoc = (id: string, data: DocumentData): Playbook => ({
+  id,
+  name: data.name || '',
+  description: data.description || '',
+  templateIds: data.templateIds || [],
+  createdBy: data.createdBy || '',
+  createdByName: data.createdByName || '',
+  createdAt: data.createdAt?.toDate() || new Date(),
+});
+
+export const getTemplates = async () => {
+  const snapshot = await getDocs(collection(db, 'taskTemplates'));
+  return snapshot.docs
+    .map(d => mapTemplateDoc(d.id, d.data()))
+    .sort((a, b) => a.dueOffsetDays - b.dueOffsetDays || a.title.localeCompare(b.title));
+};
+
+export const getPlaybooks = async () => {
+  const snapshot = await getDocs(collection(db, 'playbooks'));
+  return snapshot.docs
+    .map(d => mapPlaybookDoc(d.id, d.data()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (
+  draft: TaskTemplateDraft,
+  templateId: string | null,
+  userId: string,
+  userName: string
+) => {
+  if (templateId) {
+    await updateDoc(doc(db, 'taskTemplates', templateId), { ...draft });
+    return templateId;
+  }
+  const ref = await addDoc(collection(db, 'taskTemplates'), {
+    ...draft,
+    createdBy: userId,
+    createdByName: userName,
+    createdAt: Timestamp.now(),
+  });
+  return ref.id;
+};
+
+// Also drops the template from every playbook that references it.
+export const deleteTemplate = async (templateId: string) => {
+  const playbooks = await getDocs(
+    query(collection(db, 'playbooks'), where('templateIds', 'array-contains', templateId))
+  );
+  const batch = writeBatch(db);
+  playbooks.docs.forEach(d => batch.update(d.ref, { templateIds: arrayRemove(templateId) }));
+  batch.delete(doc(db, 'taskTemplates', templateId));
+  await batch.commit();
+};
+
+export const savePlaybook = async (
+  draft: PlaybookDraft,
+  playbookId: string | null,
+  userId: string,
+  userName: string
+) => {
+  if (playbookId) {
+    await updateDoc(doc(db, 'playbooks', playbookId), { ...draft });
+    return playbookId;
+  }
+  const ref = await addDoc(collection(db, 'playbooks'), {
+    ...draft,
+    createdBy: userId,
+    createdByName: userName,
+    createdAt: Timestamp.now(),
+  });
+  return ref.id;
+};
+
+export const deletePlaybook = async (playbookId: string) => {
+  await deleteDoc(doc(db, 'playbooks', playbookId));
+};
+
+export const getPlaybookTemplates = (playbook: Playbook, templates: TaskTemplate[]) =>
+  playbook.templateIds
+    .map(id => templates.find(t => t.id === id))
+    .filter((t): t is TaskTemplate => !!t)
+    .sort((a, b) => a.dueOffsetDays - b.dueOffsetDays);
+
+export const getTemplateDueDate = (template: TaskTemplate, startDate: Date) =>
+  addDays(startDate, template.dueOffsetDays);
+
+// First team member (alphabetically) holding the template's default role.
+export const getDefaultAssignee = (template: TaskTemplate, users: User[]) => {
+  if (!template.defaultAssigneeRole) return null;
+  return [...users]
+    .filter(u => u.role === template.defaultAssigneeRole)
+    .sort((a, b) => (a.displayName || '').localeCompare(b.displayName || ''))[0] || null;
+};
+
+interface ApplyPlaybookInput {
+  playbook: Playbook;
+  templates: TaskTemplate[];
+  assignees: Record<string, User>; // keyed by template id
+  client: { id: string; name: string } | null;
+  startDate: Date;
+  creator: { uid: string; displayName?: string };
+}
+
+// Creates every task in the playbook with a single batched write, so a
+// failure never leaves a client with half an onboarding.
+export const applyPlaybook = async ({
+  playbook,
+  templates,
+  assignees,
+  client,
+  startDate,
+  creator
+}: ApplyPlaybookInput) => {
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  const created: { template: TaskTemplate; assignee: User }[] = [];
+
+  getPlaybookTemplates(playbook, templates).forEach((template) => {
+    const assignee = assignees[template.id];
+    if (!assignee) throw new Error(`No assignee selected for "${template.title}"`);
+
+    batch.set(doc(collection(db, 'tasks')), {
+      ...buildTaskData({
+        title: template.title,
+        description: template.description,
+        status: 'pending',
+        priority: template.priority,
+        dueDate: getTemplateDueDate(template, startDate),
+        assignee,
+        creator,
+        client,
+      }, now),
+      createdFrom: 'playbook',
+      templateId: template.id,
+      playbookId: playbook.id,
+      playbookName: playbook.name,
+    });
+    created.push({ template, assignee });
+  });
+
+  // userStats and client counters are updated by the taskCreated function.
+  await batch.commit();
+
+  const clientInfo = client ? ` for ${client.name}` : '';
+  const countsByUser = created.reduce<Record<string, number>>((acc, { assignee }) => {
+    acc[assignee.uid] = (acc[assignee.uid] || 0) + 1;
+    return acc;
+  }, {});
+  await Promise.all(Object.entries(countsByUser).map(([userId, count]) =>
+    createNotification(
+      userId,
+      'New Tasks Assigned',
+      `${playbook.name}${clientInfo}: ${count} task${count > 1 ? 's' : ''} assigned to you`,
+      'task'
+    )
+  ));
+
+  return created.length;
+};
@@ -0,0 +1,120 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  increment,
+  query,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData
+} from 'firebase/firestore';
+import { differenceInMinutes } from 'date-fns';
+import { db } from '../config/firebase';
+import type { Task, TimeEntry } from '../types';
+
+export const mapTimeEntryDoc = (id: string, data: DocumentData): TimeEntry => ({
+  id,
+  ...data,
+  startedAt: data.startedAt?.toDate() || new Date(),
+  endedAt: data.endedAt?.toDate() || null,
+  durationMinutes: data.durationMinutes || 0,
+} as TimeEntry);
+
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+};
+
+const entryBase = (task: Task, userId: string, userName: string) => ({
+  taskId: task.id,
+  taskTitle: task.title,
+  userId,
+  userName,
+  clientId: task.clientId || null,
+  clientName: task.clientName || null,
+  createdAt: Timestamp.now(),
+});
+
+// Closes an entry and adds its effort to the task's running total.
+export const stopTimer = async (entry: TimeEntry) => {
+  const endedAt = new Date();
+  const durationMinutes = Math.max(differenceInMinutes(endedAt, entry.startedAt), 1);
+
+  await updateDoc(doc(db, 'timeEntries', entry.id), {
+    endedAt: Timestamp.fromDate(endedAt),
+    durationMinutes,
+  });
+  await updateDoc(doc(db, 'tasks', entry.taskId), {
+    loggedMinutes: increment(durationMinutes),
+  });
+
+  return durationMinutes;
+};
+
+export const getRunningTimers = async (userId: string) => {
+  const snapshot = await getDocs(query(
+    collection(db, 'timeEntries'),
+    where('userId', '==', userId),
+    where('endedAt', '==', null)
+  ));
+  return snapshot.docs.map(d => mapTimeEntryDoc(d.id, d.data()));
+};
+
+// A user can only track one task at a time, so starting a timer stops
+// whatever else they were running.
+export const startTimer = async (task: Task, userId: string, userName: string) => {
+  const running = await getRunningTimers(userId);
+  await Promise.all(running.map(stopTimer));
+
+  await addDoc(collection(db, 'timeEntries'), {
+    ...entryBase(task, userId, userName),
+    startedAt: Timestamp.now(),
+    endedAt: null,
+    durationMinutes: 0,
+    source: 'timer',
+  });
+};
+
+export const addManualEntry = async (
+  task: Task,
+  userId: string,
+  userName: string,
+  date: Date,
+  durationMinutes: number,
+  note: string
+) => {
+  const endedAt = new Date(date.getTime() + durationMinutes * 60000);
+
+  await addDoc(collection(db, 'timeEntries'), {
+    ...entryBase(task, userId, userName),
+    startedAt: Timestamp.fromDate(date),
+    endedAt: Timestamp.fromDate(endedAt),
+    durationMinutes,
+    source: 'manual',
+    note,
+  });
+  await updateDoc(doc(db, 'tasks', task.id), {
+    loggedMinutes: increment(durationMinutes),
+  });
+};
+
+export const deleteTimeEntry = async (entry: TimeEntry) => {
+  await deleteDoc(doc(db, 'timeEntries', entry.id));
+  if (entry.endedAt) {
+    await updateDoc(doc(db, 'tasks', entry.taskId), {
+      loggedMinutes: increment(-entry.durationMinutes),
+    });
+  }
+};
+
+export const sumMinutesBy = (entries: TimeEntry[], key: 'taskId' | 'userId' | 'clientId') =>
+  entries.reduce<Record<string, number>>((totals, entry) => {
+    const id = entry[key] || '';
+    totals[id] = (totals[id] || 0) + entry.durationMinutes;
+    return totals;
+  }, {});
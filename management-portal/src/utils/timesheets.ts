@@ -0,0 +1,180 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData
+} from 'firebase/firestore';
+import { addDays, differenceInCalendarDays, format, startOfWeek } from 'date-fns';
+import { db } from '../config/firebase';
+import { createNotification } from './notifications';
+import { mapTimeEntryDoc } from './timeTracking';
+import type { Timesheet, TimesheetRow, TimeEntry } from '../types';
+
+export const TIMESHEET_STATUS_STYLES: Record<Timesheet['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+export const getWeekStart = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+export const getWeekDays = (weekStart: Date) =>
+  Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+// One sheet per user per week, so the id is derived rather than generated.
+export const getTimesheetId = (userId: string, weekStart: Date) =>
+  `${userId}_${format(weekStart, 'yyyy-MM-dd')}`;
+
+export const mapTimesheetDoc = (id: string, data: DocumentData): Timesheet => ({
+  id,
+  ...data,
+  rows: (data.rows || []) as TimesheetRow[],
+  clientIds: data.clientIds || [],
+  weekStart: data.weekStart?.toDate() || new Date(),
+  submittedAt: data.submittedAt?.toDate() || null,
+  reviewedAt: data.reviewedAt?.toDate() || null,
+  updatedAt: data.updatedAt?.toDate() || new Date(),
+} as Timesheet);
+
+export const isTimesheetLocked = (sheet: Pick<Timesheet, 'status'>) =>
+  sheet.status === 'submitted' || sheet.status === 'approved';
+
+export const getRowTotal = (row: TimesheetRow) =>
+  row.hours.reduce((sum, h) => sum + (h || 0), 0);
+
+export const getDayTotal = (rows: TimesheetRow[], dayIndex: number) =>
+  rows.reduce((sum, row) => sum + (row.hours[dayIndex] || 0), 0);
+
+export const getTimesheetTotal = (rows: TimesheetRow[]) =>
+  rows.reduce((sum, row) => sum + getRowTotal(row), 0);
+
+export const createTimesheetRow = (
+  taskId: string | null,
+  taskTitle: string,
+  clientId: string | null,
+  clientName: string | null
+): TimesheetRow => ({
+  key: taskId || `client-${clientId || 'none'}`,
+  taskId,
+  taskTitle,
+  clientId,
+  clientName,
+  hours: [0, 0, 0, 0, 0, 0, 0],
+});
+
+// Turns tracked time into a starting grid: one row per task, hours rounded
+// to the quarter hour.
+export const buildRowsFromEntries = (entries: TimeEntry[], weekStart: Date) => {
+  const rows = new Map<string, TimesheetRow>();
+
+  entries.forEach(entry => {
+    const dayIndex = differenceInCalendarDays(entry.startedAt, weekStart);
+    if (dayIndex < 0 || dayIndex > 6 || !entry.endedAt) return;
+
+    const row = rows.get(entry.taskId)
+      || createTimesheetRow(entry.taskId, entry.taskTitle, entry.clientId || null, entry.clientName || null);
+    row.hours[dayIndex] += entry.durationMinutes / 60;
+    rows.set(entry.taskId, row);
+  });
+
+  return [...rows.values()].map(row => ({
+    ...row,
+    hours: row.hours.map(h => Math.round(h * 4) / 4),
+  }));
+};
+
+export const getWeekTimeEntries = async (userId: string, weekStart: Date) => {
+  const snapshot = await getDocs(query(collection(db, 'timeEntries'), where('userId', '==', userId)));
+  const weekEnd = addDays(weekStart, 7);
+  return snapshot.docs
+    .map(d => mapTimeEntryDoc(d.id, d.data()))
+    .filter(entry => entry.startedAt >= weekStart && entry.startedAt < weekEnd);
+};
+
+export const getTimesheet = async (userId: string, weekStart: Date) => {
+  const sheetDoc = await getDoc(doc(db, 'timesheets', getTimesheetId(userId, weekStart)));
+  return sheetDoc.exists() ? mapTimesheetDoc(sheetDoc.id, sheetDoc.data()) : null;
+};
+
+export const saveTimesheet = async (
+  userId: string,
+  userName: string,
+  weekStart: Date,
+  rows: TimesheetRow[]
+) => {
+  const sheetRef = doc(db, 'timesheets', getTimesheetId(userId, weekStart));
+  const existing = await getDoc(sheetRef);
+  if (existing.exists() && isTimesheetLocked(mapTimesheetDoc(existing.id, existing.data()))) {
+    throw new Error('This timesheet is locked and can no longer be edited');
+  }
+
+  const cleanRows = rows.filter(row => getRowTotal(row) > 0);
+
+  await setDoc(sheetRef, {
+    userId,
+    userName,
+    weekStart: Timestamp.fromDate(weekStart),
+    rows: cleanRows,
+    clientIds: [...new Set(cleanRows.map(row => row.clientId).filter(Boolean))],
+    totalHours: getTimesheetTotal(cleanRows),
+    status: 'draft',
+    updatedAt: Timestamp.now(),
+  }, { merge: true });
+};
+
+export const submitTimesheet = async (sheetId: string, reviewerIds: string[], userName: string, weekStart: Date) => {
+  await updateDoc(doc(db, 'timesheets', sheetId), {
+    status: 'submitted',
+    submittedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  await Promise.all(reviewerIds.map(reviewerId =>
+    createNotification(
+      reviewerId,
+      'Timesheet Submitted',
+      `${userName} submitted their timesheet for the week of ${format(weekStart, 'MMM d')}`,
+      'general'
+    )
+  ));
+};
+
+export const reviewTimesheet = async (
+  sheet: Timesheet,
+  decision: 'approved' | 'rejected',
+  reviewerId: string,
+  reviewerName: string,
+  comment: string
+) => {
+  await updateDoc(doc(db, 'timesheets', sheet.id), {
+    status: decision,
+    reviewedBy: reviewerId,
+    reviewedByName: reviewerName,
+    reviewedAt: Timestamp.now(),
+    reviewComment: comment,
+    updatedAt: Timestamp.now(),
+  });
+
+  await createNotification(
+    sheet.userId,
+    decision === 'approved' ? 'Timesheet Approved' : 'Timesheet Rejected',
+    `Your timesheet for the week of ${format(sheet.weekStart, 'MMM d')} was ${decision} by ${reviewerName}${comment ? `: "${comment}"` : ''}`,
+    'general'
+  );
+};
+
+export const sumApprovedHoursForClient = (sheets: Timesheet[], clientId: string) =>
+  sheets
+    .filter(sheet => sheet.status === 'approved')
+    .reduce((sum, sheet) =>
+      sum + sheet.rows
+        .filter(row => row.clientId === clientId)
+        .reduce((rowSum, row) => rowSum + getRowTotal(row), 0),
+    0);
@@ -0,0 +1,146 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { db } from '../config/firebase';
+import { isTaskArchived, isTaskInTrash, mapTaskDoc } from './tasks';
+import type { Task, TaskPriority, User } from '../types';
+
+export const WORKLOAD_WEEKS = 2;
+
+// Load is measured in points per week: a high priority task is worth three
+// low priority ones. Members without their own capacity get the default.
+export const DEFAULT_WEEKLY_CAPACITY = 10;
+
+export const PRIORITY_WEIGHTS: Record<TaskPriority, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+export interface MemberWorkload {
+  userId: string;
+  name: string;
+  department: string;
+  skills: string[];
+  capacity: number;
+  weeks: number[]; // load due in each of the next WORKLOAD_WEEKS weeks; overdue work counts in the first
+  openTasks: number;
+  overdueTasks: number;
+}
+
+// Which week from today a due date falls in, or null past the horizon.
+export const getWorkloadWeek = (dueDate: Date, now: Date = new Date()) => {
+  const days = differenceInCalendarDays(dueDate, startOfDay(now));
+  const week = Math.max(0, Math.floor(days / 7));
+  return week < WORKLOAD_WEEKS ? week : null;
+};
+
+export const getWorkloadWeekStart = (week: number, now: Date = new Date()) => addDays(startOfDay(now), week * 7);
+
+// Shared tasks are split between their assignees.
+const getTaskLoad = (task: Pick<Task, 'priority'>, assigneeCount: number) =>
+  PRIORITY_WEIGHTS[task.priority] / Math.max(1, assigneeCount);
+
+const getAssigneeIds = (task: Task) => (Array.isArray(task.assignedTo) ? task.assignedTo : [task.assignedTo]);
+
+// Work still on the assignee's plate. In-review tasks wait on the reviewer,
+// so they are not counted.
+export const getOpenTasks = async () => {
+  const snapshot = await getDocs(query(collection(db, 'tasks'), where('status', 'in', ['pending', 'in-progress'])));
+  return snapshot.docs
+    .map(d => mapTaskDoc(d.id, d.data()))
+    .filter(task => !isTaskInTrash(task) && !isTaskArchived(task));
+};
+
+export const buildWorkloads = (
+  users: Pick<User, 'uid' | 'displayName' | 'department' | 'skills' | 'weeklyCapacity'>[],
+  openTasks: Task[],
+  now: Date = new Date()
+): MemberWorkload[] => {
+  const workloads = new Map(users.map(user => [user.uid, {
+    userId: user.uid,
+    name: user.displayName,
+    department: user.department || '',
+    skills: user.skills || [],
+    capacity: user.weeklyCapacity || DEFAULT_WEEKLY_CAPACITY,
+    weeks: Array(WORKLOAD_WEEKS).fill(0),
+    openTasks: 0,
+    overdueTasks: 0,
+  } as MemberWorkload]));
+
+  for (const task of openTasks) {
+    const week = getWorkloadWeek(task.dueDate, now);
+    if (week === null) continue;
+
+    const assigneeIds = getAssigneeIds(task);
+    for (const userId of assigneeIds) {
+      const workload = workloads.get(userId);
+      if (!workload) continue;
+      workload.weeks[week] += getTaskLoad(task, assigneeIds.length);
+      workload.openTasks++;
+      if (task.dueDate < startOfDay(now)) workload.overdueTasks++;
+    }
+  }
+
+  return [...workloads.values()];
+};
+
+export const getLoadRatio = (workload: MemberWorkload, week: number) => workload.weeks[week] / workload.capacity;
+
+export const getLoadColor = (ratio: number) => {
+  if (ratio > 1) return 'bg-red-500';
+  if (ratio >= 0.8) return 'bg-amber-500';
+  return 'bg-green-500';
+};
+
+// Busiest week, used to rank members when the new task has no due date yet
+// or falls past the horizon.
+export const getPeakRatio = (workload: MemberWorkload) =>
+  Math.max(...workload.weeks.map((_, week) => getLoadRatio(workload, week)));
+
+export const matchesSkill = (workload: MemberWorkload, skill: string) => {
+  if (!skill) return true;
+  const wanted = skill.toLowerCase();
+  return workload.department.toLowerCase() === wanted || workload.skills.some(s => s.toLowerCase() === wanted);
+};
+
+export const suggestAssignees = (
+  workloads: MemberWorkload[],
+  options: { dueDate: Date | null; skill: string; limit?: number },
+  now: Date = new Date()
+) => {
+  const week = options.dueDate ? getWorkloadWeek(options.dueDate, now) : null;
+  const ratio = (workload: MemberWorkload) => (week === null ? getPeakRatio(workload) : getLoadRatio(workload, week));
+
+  return workloads
+    .filter(workload => matchesSkill(workload, options.skill))
+    .sort((a, b) => ratio(a) - ratio(b) || a.openTasks - b.openTasks)
+    .slice(0, options.limit ?? 3);
+};
+
+export interface OverloadWarning {
+  userId: string;
+  name: string;
+  ratio: number; // load including the new task, as a share of capacity
+  weekStart: Date;
+}
+
+// Members who would go over capacity in the week the new task is due.
+export const getOverloadWarnings = (
+  workloads: MemberWorkload[],
+  task: { priority: TaskPriority; dueDate: Date | null; assigneeIds: string[]; shared: boolean },
+  now: Date = new Date()
+): OverloadWarning[] => {
+  const week = task.dueDate ? getWorkloadWeek(task.dueDate, now) : null;
+  if (week === null) return [];
+
+  const added = getTaskLoad(task, task.shared ? task.assigneeIds.length : 1);
+  return workloads
+    .filter(workload => task.assigneeIds.includes(workload.userId))
+    .map(workload => ({
+      userId: workload.userId,
+      name: workload.name,
+      ratio: (workload.weeks[week] + added) / workload.capacity,
+      weekStart: getWorkloadWeekStart(week, now),
+    }))
+    .filter(warning => warning.ratio > 1);
+};